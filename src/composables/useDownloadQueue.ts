@@ -0,0 +1,313 @@
+import { computed, ref, type ComputedRef, type Ref } from 'vue'
+import type { BoundingBox, DownloadJob, DownloadJobStatus, DownloadProgress } from '@/types'
+import {
+  countJobTiles,
+  createDownloadJob,
+  getAllDownloadJobs,
+  getDownloadJob,
+  saveDownloadJob,
+} from '@/services/downloadJobs'
+import { DEFAULT_TILE_SOURCE_ID, getTileSource } from '@/services/tileSources'
+import { isQuotaExceededError } from '@/services/tileDownloader'
+import {
+  useOfflineTiles,
+  type CancelDownloadOptions,
+  type DownloadAreaOptions,
+} from '@/composables/useOfflineTiles'
+
+export interface DownloadQueueItem {
+  job: DownloadJob
+  progress: DownloadProgress
+  isActive: boolean
+}
+
+export interface UseDownloadQueueOptions {
+  onJobFinished?: (jobId: string, progress: DownloadProgress) => void // job completed or was cancelled
+}
+
+export interface UseDownloadQueueReturn {
+  items: ComputedRef<DownloadQueueItem[]>
+  activeJobId: Ref<string | null>
+  activeProgress: Ref<DownloadProgress>
+  loadQueue: () => Promise<void>
+  enqueueArea: (
+    bbox: BoundingBox,
+    areaName: string,
+    baseZoom: number,
+    additionalZoomLevels: number,
+    options?: DownloadAreaOptions
+  ) => Promise<DownloadJob>
+  pauseJob: (jobId: string) => Promise<void>
+  resumeJob: (jobId: string) => Promise<void>
+  removeJob: (jobId: string, options?: CancelDownloadOptions) => Promise<void>
+  moveJob: (jobId: string, offset: number) => Promise<void>
+  waitForIdle: () => Promise<void>
+}
+
+/**
+ * Persistent queue of area downloads
+ * Jobs run one at a time in queue order; each job downloads its tiles with bounded concurrency
+ */
+export function useDownloadQueue(options: UseDownloadQueueOptions = {}): UseDownloadQueueReturn {
+  const runner = useOfflineTiles()
+
+  const jobs = ref<DownloadJob[]>([])
+  const activeJobId = ref<string | null>(null)
+
+  // Tile counts per job, counted from the job extent without listing its tiles
+  const tileTotals = new Map<string, number>()
+
+  let processing: Promise<void> | null = null
+  let activeRun: Promise<void> | null = null
+
+  function getTotalTiles(job: DownloadJob): number {
+    let total = tileTotals.get(job.id)
+    if (total === undefined) {
+      total = countJobTiles(job)
+      tileTotals.set(job.id, total)
+    }
+    return total
+  }
+
+  /**
+   * Progress of a job that is not running, derived from its persisted record
+   */
+  function getJobProgress(job: DownloadJob): DownloadProgress {
+    const total = getTotalTiles(job)
+    const downloaded = job.completedTileCount
+    return {
+      areaId: job.id,
+      total,
+      downloaded,
+      failed: job.failedTileCount,
+      percentage: total > 0 ? Math.round((downloaded / total) * 100) : 0,
+      bytesDownloaded: job.bytesDownloaded,
+      isComplete: false,
+      isCancelled: false,
+      isPaused: job.status === 'paused',
+    }
+  }
+
+  const items = computed<DownloadQueueItem[]>(() => {
+    return jobs.value.map((job) => {
+      const isActive = job.id === activeJobId.value
+      return {
+        job,
+        isActive,
+        progress: isActive ? runner.downloadProgress.value : getJobProgress(job),
+      }
+    })
+  })
+
+  function findJob(jobId: string): DownloadJob | undefined {
+    return jobs.value.find((job) => job.id === jobId)
+  }
+
+  function removeFromList(jobId: string): void {
+    jobs.value = jobs.value.filter((job) => job.id !== jobId)
+    tileTotals.delete(jobId)
+  }
+
+  /**
+   * Update a job in the list and persist it
+   * The running job is only updated in memory: the runner owns its record until the run ends
+   */
+  async function updateJob(jobId: string, changes: Partial<DownloadJob>): Promise<void> {
+    const job = findJob(jobId)
+    if (!job) return
+
+    const updated = { ...job, ...changes }
+    jobs.value = jobs.value.map((j) => (j.id === jobId ? updated : j))
+    if (jobId !== activeJobId.value) {
+      await saveDownloadJob(updated)
+    }
+  }
+
+  /**
+   * Load persisted jobs, e.g. after a reload
+   * Jobs that were queued or downloading wait for the user to resume them
+   */
+  async function loadQueue(): Promise<void> {
+    const storedJobs = await getAllDownloadJobs()
+    jobs.value = storedJobs.map((job, index) => ({
+      ...job,
+      queuePosition: index,
+      status: job.status === 'failed' ? 'failed' : 'paused',
+    }))
+  }
+
+  /**
+   * Add an area to the end of the queue and start downloading when it is its turn
+   */
+  async function enqueueArea(
+    bbox: BoundingBox,
+    areaName: string,
+    baseZoom: number,
+    additionalZoomLevels: number,
+    areaOptions: DownloadAreaOptions = {}
+  ): Promise<DownloadJob> {
+    const source = getTileSource(areaOptions.sourceId ?? DEFAULT_TILE_SOURCE_ID)
+    const job = createDownloadJob(bbox, areaName, baseZoom, additionalZoomLevels, source.urlTemplate, source.id)
+    job.status = 'queued'
+    job.queuePosition = jobs.value.reduce((max, j) => Math.max(max, (j.queuePosition ?? 0) + 1), 0)
+
+    await saveDownloadJob(job)
+    jobs.value = [...jobs.value, job]
+
+    void processQueue()
+    return job
+  }
+
+  function processQueue(): Promise<void> {
+    if (!processing) {
+      processing = runQueue().finally(() => {
+        processing = null
+      })
+    }
+    return processing
+  }
+
+  async function runQueue(): Promise<void> {
+    for (;;) {
+      const next = jobs.value.find((job) => job.status === 'queued')
+      if (!next) return
+
+      activeRun = runJob(next.id)
+      await activeRun
+      activeRun = null
+    }
+  }
+
+  async function runJob(jobId: string): Promise<void> {
+    // Claim the job synchronously; from here on the runner owns its record
+    activeJobId.value = jobId
+    jobs.value = jobs.value.map((j) =>
+      j.id === jobId ? { ...j, status: 'downloading', error: undefined, storageFull: undefined } : j
+    )
+
+    let failure: string | undefined
+    let storageFull = false
+    try {
+      await runner.resumeJob(jobId)
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error)
+      storageFull = isQuotaExceededError(error)
+    }
+
+    const progress = runner.downloadProgress.value
+    activeJobId.value = null
+
+    if (!failure && (progress.isComplete || progress.isCancelled)) {
+      removeFromList(jobId)
+      options.onJobFinished?.(jobId, progress)
+      return
+    }
+
+    // Paused or failed: keep the runner's checkpoint and store the queue state on top
+    const stored = await getDownloadJob(jobId)
+    if (!stored) {
+      removeFromList(jobId)
+      return
+    }
+
+    const current = findJob(jobId)
+    let status: DownloadJobStatus = 'paused'
+    if (failure) {
+      status = 'failed'
+    } else if (current?.status === 'queued') {
+      // Resumed again while the pause was winding down
+      status = 'queued'
+    }
+
+    const updated: DownloadJob = {
+      ...stored,
+      status,
+      queuePosition: current?.queuePosition ?? stored.queuePosition,
+      error: failure,
+      storageFull: storageFull || undefined,
+    }
+    await saveDownloadJob(updated)
+    jobs.value = jobs.value.map((j) => (j.id === jobId ? updated : j))
+  }
+
+  /**
+   * Pause a job; a running job finishes its tiles in flight first
+   */
+  async function pauseJob(jobId: string): Promise<void> {
+    if (jobId === activeJobId.value) {
+      runner.pauseDownload()
+    }
+    await updateJob(jobId, { status: 'paused' })
+  }
+
+  /**
+   * Put a paused or failed job back into the queue
+   */
+  async function resumeJob(jobId: string): Promise<void> {
+    await updateJob(jobId, { status: 'queued', error: undefined, storageFull: undefined })
+    void processQueue()
+  }
+
+  /**
+   * Remove a job from the queue, cancelling it if it is running
+   * Tiles stored so far are rolled back unless `keepPartial` is set
+   */
+  async function removeJob(jobId: string, cancelOptions: CancelDownloadOptions = {}): Promise<void> {
+    if (jobId === activeJobId.value) {
+      await runner.cancelDownload(cancelOptions)
+      await activeRun
+      return
+    }
+
+    const job = findJob(jobId)
+    const progress = job ? { ...getJobProgress(job), isPaused: false, isCancelled: true } : null
+
+    await runner.discardJob(jobId, cancelOptions)
+    removeFromList(jobId)
+    if (progress) {
+      options.onJobFinished?.(jobId, progress)
+    }
+  }
+
+  /**
+   * Move a job up (negative offset) or down (positive offset) in the queue
+   */
+  async function moveJob(jobId: string, offset: number): Promise<void> {
+    const index = jobs.value.findIndex((job) => job.id === jobId)
+    if (index === -1) return
+
+    const target = Math.min(Math.max(index + offset, 0), jobs.value.length - 1)
+    if (target === index) return
+
+    const reordered = [...jobs.value]
+    const [moved] = reordered.splice(index, 1)
+    reordered.splice(target, 0, moved!)
+
+    jobs.value = reordered.map((job, position) => ({ ...job, queuePosition: position }))
+    for (const job of jobs.value) {
+      if (job.id !== activeJobId.value) {
+        await saveDownloadJob(job)
+      }
+    }
+  }
+
+  /**
+   * Resolves once no queued job is left to download
+   */
+  async function waitForIdle(): Promise<void> {
+    await processing
+  }
+
+  return {
+    items,
+    activeJobId,
+    activeProgress: runner.downloadProgress,
+    loadQueue,
+    enqueueArea,
+    pauseJob,
+    resumeJob,
+    removeJob,
+    moveJob,
+    waitForIdle,
+  }
+}
@@ -1,9 +1,23 @@
-import { get, set, del, keys } from 'idb-keyval'
 import type { DownloadedArea, TileCoord } from '@/types'
-import { deleteTileFromStorage, getAllStoredTileKeys } from '@/services/tileDownloader'
-import { calculateDownloadList } from '@/services/tileCalculator'
-
-const AREA_KEY_PREFIX = 'area_'
+import { deleteRecord, getAllRecords, getRecord, putRecord } from '@/services/db'
+import { getDownloadingTileKeys } from '@/services/downloadJobs'
+import {
+  deleteTilesFromStorage,
+  getAllStoredTileKeys,
+  parseTileKey,
+  type BatchProgressCallback,
+} from '@/services/tileDownloader'
+import {
+  addTileOwner,
+  ensureOwnershipIndex,
+  getAllOwnedTileKeys,
+  getOwnedTileKeys,
+  getUnownedTileKeys,
+  iterateAreaTileKeys,
+  removeTileOwner,
+} from '@/services/tileOwnership'
+import { estimateTileSizes, getTileSizeStats } from '@/services/tileSizeStats'
+import { deleteTileArchive } from '@/services/tileArchive'
 
 export interface CachedTilesInfo {
   count: number
@@ -15,18 +29,18 @@ export interface UseDownloadedAreasReturn {
   saveAreaMetadata: (area: DownloadedArea) => Promise<void>
   getAllAreas: () => Promise<DownloadedArea[]>
   getAreaById: (areaId: string) => Promise<DownloadedArea | null>
-  deleteArea: (areaId: string) => Promise<void>
+  deleteArea: (areaId: string, onProgress?: BatchProgressCallback) => Promise<void>
   getTotalStorageUsed: () => Promise<number>
   getCachedTiles: () => Promise<CachedTilesInfo>
-  deleteCachedTiles: () => Promise<void>
+  deleteCachedTiles: (onProgress?: BatchProgressCallback) => Promise<void>
+  filterUnownedTileKeys: (tileKeys: string[]) => Promise<string[]>
 }
 
 export function useDownloadedAreas(): UseDownloadedAreasReturn {
   /**
-   * Save area metadata to IndexedDB
+   * Save area metadata to IndexedDB and register the area as owner of its tiles
    */
   async function saveAreaMetadata(area: DownloadedArea): Promise<void> {
-    const key = `${AREA_KEY_PREFIX}${area.id}`
       const areaToStore = {
         ...area,
         // Ensure downloadedAt is stored as ISO string
@@ -34,26 +48,19 @@ export function useDownloadedAreas(): UseDownloadedAreasReturn {
           ? area.downloadedAt
           : new Date(area.downloadedAt).toISOString(),
         // Make sure object is no proxy, which would fail
-        bbox: { ...area.bbox }
+        bbox: { ...area.bbox },
+        failedTiles: area.failedTiles?.map((failed) => ({ tile: { ...failed.tile }, reason: failed.reason })),
       }
       
-    await set(key, areaToStore)
+    await putRecord('areas', areaToStore)
+    await addTileOwner(area.id, iterateAreaTileKeys(area))
   }
 
   /**
    * Get all downloaded areas, sorted by downloadedAt descending (newest first)
    */
   async function getAllAreas(): Promise<DownloadedArea[]> {
-    const allKeys = await keys()
-    const areaKeys = allKeys.filter((key) => typeof key === 'string' && key.startsWith(AREA_KEY_PREFIX))
-
-    const areas: DownloadedArea[] = []
-    for (const key of areaKeys) {
-      const area = await get<DownloadedArea>(key as string)
-      if (area) {
-        areas.push(area)
-      }
-    }
+    const areas = await getAllRecords('areas')
 
     // Sort by downloadedAt descending (newest first)
     // ISO 8601 strings can be compared directly
@@ -64,32 +71,36 @@ export function useDownloadedAreas(): UseDownloadedAreasReturn {
    * Get a single area by ID
    */
   async function getAreaById(areaId: string): Promise<DownloadedArea | null> {
-    const key = `${AREA_KEY_PREFIX}${areaId}`
-    const area = await get<DownloadedArea>(key)
+    const area = await getRecord('areas', areaId)
     return area || null
   }
 
   /**
-   * Delete an area and all its associated tiles
+   * Delete an area and the tiles no other area references
+   * `onProgress` receives the number of deleted tiles after each batch
    */
-  async function deleteArea(areaId: string): Promise<void> {
+  async function deleteArea(areaId: string, onProgress?: BatchProgressCallback): Promise<void> {
     // Get area metadata
     const area = await getAreaById(areaId)
     if (!area) {
       return // Area doesn't exist, nothing to delete
     }
 
-    // Calculate which tiles belong to this area
-    const tilesToDelete = calculateDownloadList(area.bbox, area.baseZoom, area.additionalZoomLevels)
+    await ensureOwnershipIndex(getAllAreas)
 
-    // Delete all tiles
-    for (const tile of tilesToDelete) {
-      await deleteTileFromStorage(tile)
-    }
+    // Release the area's tiles; shared tiles stay for the other areas and unfinished downloads
+    const ownedKeys = await getOwnedTileKeys(areaId)
+    const orphanedKeys = await removeTileOwner(areaId, ownedKeys)
+    const downloading = await getDownloadingTileKeys(orphanedKeys)
+    const deletedKeys = orphanedKeys.filter((key) => !downloading.has(key))
+    await deleteTilesFromStorage(deletedKeys, onProgress)
+
+    // Kept tiles only held by the area's archive move back to the tile store
+    const deleted = new Set(deletedKeys)
+    await deleteTileArchive(areaId, ownedKeys.filter((key) => !deleted.has(key)))
 
     // Delete area metadata
-    const key = `${AREA_KEY_PREFIX}${areaId}`
-    await del(key)
+    await deleteRecord('areas', areaId)
   }
 
   /**
@@ -101,35 +112,33 @@ export function useDownloadedAreas(): UseDownloadedAreasReturn {
   }
 
   /**
-   * Get information about cached tiles (tiles not associated with any area)
+   * Get information about cached tiles (tiles not associated with any area or unfinished download)
    */
   async function getCachedTiles(): Promise<CachedTilesInfo> {
-    // Get all stored tile keys
-    const allTileKeys = await getAllStoredTileKeys()
-
-    // Get all areas
-    const areas = await getAllAreas()
+    await ensureOwnershipIndex(getAllAreas)
 
-    // Build a set of all tile keys that belong to areas
-    const associatedTileKeys = new Set<string>()
-    for (const area of areas) {
-      const tiles = calculateDownloadList(area.bbox, area.baseZoom, area.additionalZoomLevels)
-      for (const tile of tiles) {
-        const key = `tile_${tile.z}_${tile.x}_${tile.y}`
-        associatedTileKeys.add(key)
-      }
+    const allTileKeys = await getAllStoredTileKeys()
+    const ownedTileKeys = await getAllOwnedTileKeys()
+
+    // Find cached tiles (tiles that exist but aren't in any area); unfinished downloads rely on theirs
+    const unownedKeys = allTileKeys.filter((key) => !ownedTileKeys.has(key))
+    const downloading = await getDownloadingTileKeys(unownedKeys)
+    const cachedKeys = unownedKeys.filter((key) => !downloading.has(key))
+
+    // Estimate size per source from the learned tile sizes
+    const tilesPerSource = new Map<string, TileCoord[]>()
+    for (const key of cachedKeys) {
+      const parsed = parseTileKey(key)
+      if (!parsed) continue
+      const tiles = tilesPerSource.get(parsed.sourceId) ?? []
+      tiles.push(parsed.tile)
+      tilesPerSource.set(parsed.sourceId, tiles)
+    }
+    const stats = await getTileSizeStats()
+    let estimatedSizeBytes = 0
+    for (const [sourceId, tiles] of tilesPerSource) {
+      estimatedSizeBytes += estimateTileSizes(tiles, { stats, sourceId }).bytes
     }
-
-    // Find cached tiles (tiles that exist but aren't in any area)
-    const cachedKeys = allTileKeys.filter(key => !associatedTileKeys.has(key))
-
-    // console.log(allTileKeys)
-    // console.log(areas)
-    // console.log(associatedTileKeys)
-    // console.log(cachedKeys)
-
-    // Estimate size (20KB per tile)
-    const estimatedSizeBytes = cachedKeys.length * 20 * 1024
 
     return {
       count: cachedKeys.length,
@@ -139,24 +148,20 @@ export function useDownloadedAreas(): UseDownloadedAreasReturn {
   }
 
   /**
-   * Delete all cached tiles (tiles not associated with any area)
+   * Delete all cached tiles (tiles not associated with any area or unfinished download)
+   * `onProgress` receives the number of deleted tiles after each batch
    */
-  async function deleteCachedTiles(): Promise<void> {
+  async function deleteCachedTiles(onProgress?: BatchProgressCallback): Promise<void> {
     const cachedInfo = await getCachedTiles()
+    await deleteTilesFromStorage(cachedInfo.tileKeys, onProgress)
+  }
 
-    // Parse tile keys and delete them
-    for (const key of cachedInfo.tileKeys) {
-      // Parse key format: tile_z_x_y
-      const parts = key.split('_')
-      if (parts.length === 4) {
-        const tile: TileCoord = {
-          z: parseInt(parts[1]!),
-          x: parseInt(parts[2]!),
-          y: parseInt(parts[3]!),
-        }
-        await deleteTileFromStorage(tile)
-      }
-    }
+  /**
+   * Get the given tile keys that no downloaded area references
+   */
+  async function filterUnownedTileKeys(tileKeys: string[]): Promise<string[]> {
+    await ensureOwnershipIndex(getAllAreas)
+    return getUnownedTileKeys(tileKeys)
   }
 
   return {
@@ -167,5 +172,6 @@ export function useDownloadedAreas(): UseDownloadedAreasReturn {
     getTotalStorageUsed,
     getCachedTiles,
     deleteCachedTiles,
+    filterUnownedTileKeys,
   }
 }
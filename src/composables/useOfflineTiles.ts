@@ -1,17 +1,114 @@
 import { ref, type Ref } from 'vue'
-import type { BoundingBox, DownloadProgress, DownloadedArea } from '@/types'
-import { calculateDownloadList, estimateDownloadSize } from '@/services/tileCalculator'
-import { downloadTiles } from '@/services/tileDownloader'
+import type {
+  BoundingBox,
+  DownloadJob,
+  DownloadProgress,
+  DownloadedArea,
+  FailedTile,
+  TileCoord,
+  TileMetadata,
+  TileSizeEstimate,
+  TileSizeProfile,
+  TileSizeStats,
+  ZoomLevelProgress,
+} from '@/types'
+import {
+  countDownloadTilesPerZoom,
+  countTileKeysInDownload,
+  filterTileKeysInDownload,
+  getDownloadTileRanges,
+  iterateDownloadList,
+} from '@/services/tileCalculator'
+import {
+  createStorageFullError,
+  deleteTilesFromStorage,
+  downloadTiles,
+  getAllStoredTileKeys,
+  getTileKey,
+  isQuotaExceededError,
+  parseTileKey,
+  type DownloadProgressCallback,
+  type DownloadProgressStats,
+  type DownloadTilesOptions,
+  type TileDownloadResult,
+} from '@/services/tileDownloader'
+import {
+  countJobTiles,
+  createDownloadJob,
+  deleteDownloadJob,
+  getAllDownloadJobs,
+  getDownloadJob,
+  getDownloadingTileKeys,
+  getJobTileKeys,
+  saveDownloadJob,
+  saveJobProgress,
+} from '@/services/downloadJobs'
+import { getTilesMetadata } from '@/services/tileMetadata'
+import { iterateAreaTileKeys } from '@/services/tileOwnership'
+import { DEFAULT_TILE_SOURCE_ID, findTileSource, getRecordSourceId, getTileSource } from '@/services/tileSources'
+import { assertUsagePolicy, type BulkDownloadSummary } from '@/services/tileUsagePolicy'
+import { estimateTileSizesPerZoom, getTileSizeStats } from '@/services/tileSizeStats'
+import { extrapolateSampleSizes, selectStratifiedSample, type SampledSizeEstimate } from '@/services/tileSampling'
+import { getDefaultProfile } from '@/services/compressionSettings'
+import { trackBrowseCacheTiles } from '@/services/browseCache'
+import { hasTileArchive, isTileArchiveEnabled, packAreaTiles } from '@/services/tileArchive'
+import {
+  checkDownloadConditions,
+  getDownloadConditionSettings,
+  readDeviceConditions,
+  watchDeviceConditions,
+} from '@/services/downloadConditions'
 import { useDownloadedAreas } from '@/composables/useDownloadedAreas'
 import { useStorageQuota } from '@/composables/useStorageQuota'
-import type Map from 'ol/Map'
+import type OlMap from 'ol/Map'
 import { transformExtent } from 'ol/proj'
 
 export interface DownloadEstimate {
-  tileCount: number
-  estimatedSizeBytes: number
+  tileCount: number // all tiles in the area
+  newTileCount: number // tiles that still need downloading
+  existingTileCount: number // tiles already stored offline
+  estimatedSizeBytes: number // new tiles only
+  sizeEstimate: TileSizeEstimate // estimatedSizeBytes with its range and the samples it is based on
   minZoom: number
   maxZoom: number
+  sampled?: SampledSizeEstimate // measured from sample tiles, see calculateSampledDownloadEstimate()
+  zoomLevels: ZoomLevelEstimate[] // lowest zoom first
+}
+
+export interface ZoomLevelEstimate {
+  zoom: number
+  tileCount: number // all tiles of the zoom level
+  newTileCount: number // tiles that still need downloading
+  estimatedSizeBytes: number // new tiles only
+}
+
+export interface DownloadEstimateOptions {
+  existingTileKeys?: ReadonlySet<string> // stored tile keys, see getExistingTileKeys()
+  sourceId?: string // tile source the area would be downloaded from (default: OSM)
+  sizeStats?: TileSizeStats // learned tile sizes, see getTileSizeStats(); without them 20 KB per tile is assumed
+  profile?: TileSizeProfile // compression profile tiles would be stored with (default: any)
+}
+
+export interface SampledEstimateOptions extends DownloadEstimateOptions {
+  sampleSize?: number // tiles to download (default: 40)
+  signal?: AbortSignal // stops sampling
+}
+
+export interface DownloadAreaOptions {
+  sourceId?: string // registered tile source to download from (default: OSM)
+}
+
+export interface CancelDownloadOptions {
+  keepPartial?: boolean // keep tiles written so far as a partial area instead of rolling them back
+}
+
+export interface AreaUpdateResult {
+  checked: number // stored tiles revalidated
+  changed: number // tiles re-downloaded because they changed (or had no validators)
+  unchanged: number // tiles the server confirmed as unchanged (304)
+  failed: number // tiles that could not be checked; the stored version is kept
+  bytesDownloaded: number
+  bytesSaved: number // downloaded size of unchanged tiles, which were not transferred again
 }
 
 export interface UseOfflineTilesReturn {
@@ -21,14 +118,110 @@ export interface UseOfflineTilesReturn {
     areaName: string,
     baseZoom: number,
     additionalZoomLevels: number,
-    onProgress?: (progress: DownloadProgress) => void
+    onProgress?: (progress: DownloadProgress) => void,
+    options?: DownloadAreaOptions
   ) => Promise<void>
-  cancelDownload: () => void
-  calculateDownloadEstimate: (bbox: BoundingBox, baseZoom: number, additionalZoomLevels: number) => DownloadEstimate
-  getCurrentMapExtent: (map: Map | null) => BoundingBox | null
+  pauseDownload: () => void
+  resumeDownload: (onProgress?: (progress: DownloadProgress) => void) => Promise<void>
+  cancelDownload: (options?: CancelDownloadOptions) => Promise<void>
+  resumeJob: (jobId: string, onProgress?: (progress: DownloadProgress) => void) => Promise<void>
+  getResumableJobs: () => Promise<DownloadJob[]>
+  discardJob: (jobId: string, options?: CancelDownloadOptions) => Promise<void>
+  retryFailedTiles: (areaId: string, onProgress?: (progress: DownloadProgress) => void) => Promise<void>
+  updateArea: (areaId: string, onProgress?: (progress: DownloadProgress) => void) => Promise<AreaUpdateResult>
+  calculateDownloadEstimate: (
+    bbox: BoundingBox,
+    baseZoom: number,
+    additionalZoomLevels: number,
+    options?: DownloadEstimateOptions
+  ) => DownloadEstimate
+  calculateSampledDownloadEstimate: (
+    bbox: BoundingBox,
+    baseZoom: number,
+    additionalZoomLevels: number,
+    options?: SampledEstimateOptions
+  ) => Promise<DownloadEstimate>
+  getExistingTileKeys: () => Promise<Set<string>>
+  getCurrentMapExtent: (map: OlMap | null) => BoundingBox | null
+}
+
+interface ConditionGate {
+  waitUntilReady?: () => Promise<void> // resolves once the download conditions are met
+  stop: () => void
+}
+
+// Persist job progress after this many tiles or this much time, whichever comes first
+const JOB_CHECKPOINT_TILES = 25
+const JOB_CHECKPOINT_INTERVAL_MS = 2000
+// Tiles an area update revalidates per batch, reading their metadata together; areas can have millions
+const UPDATE_BATCH_SIZE = 500
+
+function countTilesPerZoom(tiles: TileCoord[]): Map<number, number> {
+  const counts = new Map<number, number>()
+  for (const tile of tiles) {
+    counts.set(tile.z, (counts.get(tile.z) ?? 0) + 1)
+  }
+  return counts
+}
+
+function sumCounts(counts: ReadonlyMap<number, number>): number {
+  let total = 0
+  for (const count of counts.values()) {
+    total += count
+  }
+  return total
+}
+
+/**
+ * Describe tiles counted per zoom level for a policy check, see summarizeBulkDownload()
+ */
+function summarizeTilesPerZoom(tilesPerZoom: ReadonlyMap<number, number>): BulkDownloadSummary {
+  let maxZoom = 0
+  for (const [zoom, count] of tilesPerZoom) {
+    if (count > 0) maxZoom = Math.max(maxZoom, zoom)
+  }
+  return { tileCount: sumCounts(tilesPerZoom), maxZoom }
+}
+
+/**
+ * Iterate several tile lists one after another, without listing generated ones
+ */
+function* concatTiles(...lists: Iterable<TileCoord>[]): Generator<TileCoord> {
+  for (const tiles of lists) {
+    yield* tiles
+  }
 }
 
-const DEFAULT_TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png'
+/**
+ * Split a download estimate by zoom level
+ */
+function getZoomLevelEstimates(
+  tilesPerZoom: ReadonlyMap<number, number>,
+  newTilesPerZoom: ReadonlyMap<number, number>,
+  sizeEstimate: TileSizeEstimate
+): ZoomLevelEstimate[] {
+  return [...tilesPerZoom]
+    .sort(([a], [b]) => a - b)
+    .map(([zoom, tileCount]) => ({
+      zoom,
+      tileCount,
+      newTileCount: newTilesPerZoom.get(zoom) ?? 0,
+      estimatedSizeBytes: sizeEstimate.bytesPerZoom[zoom] ?? 0,
+    }))
+}
+
+/**
+ * Start per zoom level progress from tile counts per zoom level
+ * `donePerZoom` counts tiles that are downloaded already
+ */
+function createZoomLevelProgress(
+  tilesPerZoom: ReadonlyMap<number, number>,
+  donePerZoom: ReadonlyMap<number, number> = new Map()
+): ZoomLevelProgress[] {
+  return [...tilesPerZoom]
+    .sort(([a], [b]) => a - b)
+    .map(([zoom, total]) => ({ zoom, total, downloaded: donePerZoom.get(zoom) ?? 0, failed: 0 }))
+}
 
 export function useOfflineTiles(): UseOfflineTilesReturn {
   const downloadProgress = ref<DownloadProgress>({
@@ -40,52 +233,189 @@ export function useOfflineTiles(): UseOfflineTilesReturn {
     bytesDownloaded: 0,
     isComplete: false,
     isCancelled: false,
+    isPaused: false,
   })
 
-  const { saveAreaMetadata, getAllAreas } = useDownloadedAreas()
+  const { saveAreaMetadata, getAllAreas, getAreaById, filterUnownedTileKeys } = useDownloadedAreas()
   const { requestPersistence, updateStorageInfo, storageInfo } = useStorageQuota()
 
   let cancelRequested = false
+  let cancelOptions: CancelDownloadOptions = {}
+  let pauseRequested = false
+  let abortController: AbortController | null = null
   let downloadStartTime = 0
 
+  // Error messages of tiles that failed in the current run, by tile key
+  const failureReasons = new Map<string, string>()
+
+  // Tiles waiting for the download conditions, woken on every change, pause and cancel
+  let conditionWaiters: (() => void)[] = []
+
+  function wakeConditionWaiters(): void {
+    const waiters = conditionWaiters
+    conditionWaiters = []
+    waiters.forEach((wake) => wake())
+  }
+
   async function downloadArea(
     bbox: BoundingBox,
     areaName: string,
     baseZoom: number,
     additionalZoomLevels: number,
-    onProgress?: (progress: DownloadProgress) => void
+    onProgress?: (progress: DownloadProgress) => void,
+    options: DownloadAreaOptions = {}
   ): Promise<void> {
-    // Reset state first
+    const source = getTileSource(options.sourceId ?? DEFAULT_TILE_SOURCE_ID)
+    const signal = startRun()
+    const job = createDownloadJob(bbox, areaName, baseZoom, additionalZoomLevels, source.urlTemplate, source.id)
+    await runDownloadJob(job, signal, onProgress)
+  }
+
+  /**
+   * Continue an interrupted download job, fetching only the tiles still missing
+   */
+  async function resumeJob(jobId: string, onProgress?: (progress: DownloadProgress) => void): Promise<void> {
+    const signal = startRun()
+    const job = await getDownloadJob(jobId)
+    if (!job) {
+      throw new Error(`Download job not found: ${jobId}`)
+    }
+    await runDownloadJob(job, signal, onProgress)
+  }
+
+  /**
+   * Get all interrupted download jobs that can be resumed
+   */
+  async function getResumableJobs(): Promise<DownloadJob[]> {
+    return getAllDownloadJobs()
+  }
+
+  /**
+   * Drop a download job that is not running
+   * Tiles stored so far are rolled back unless `keepPartial` is set
+   */
+  async function discardJob(jobId: string, options: CancelDownloadOptions = {}): Promise<void> {
+    const job = await getDownloadJob(jobId)
+    if (!job) {
+      return
+    }
+    await cleanUpCancelledJob(job, options)
+  }
+
+  /**
+   * Reset pause/cancel state for a new run
+   * Called before the first await so a pause or cancel issued while the run starts is not lost
+   */
+  function startRun(): AbortSignal {
     cancelRequested = false
+    cancelOptions = {}
+    pauseRequested = false
+    failureReasons.clear()
+    abortController = new AbortController()
+    return abortController.signal
+  }
+
+  /**
+   * Build the failed tile list of an area from tile keys
+   * Tiles without a recorded error get the fallback reason
+   */
+  function collectFailedTiles(tileKeys: Iterable<string>, fallbackReason: string): FailedTile[] {
+    const failed: FailedTile[] = []
+    for (const key of tileKeys) {
+      const parsed = parseTileKey(key)
+      if (parsed) {
+        failed.push({ tile: parsed.tile, reason: failureReasons.get(key) ?? fallbackReason })
+      }
+    }
+    return failed
+  }
+
+  /**
+   * Download options that make downloadTiles() request and store tiles for a source
+   * and follow its usage policy
+   * Unregistered sources (e.g. removed ones) still download with their stored URL template
+   */
+  function getSourceDownloadOptions(
+    sourceId: string
+  ): Pick<DownloadTilesOptions, 'sourceId' | 'subdomains' | 'usagePolicy'> {
+    const source = findTileSource(sourceId)
+    return { sourceId, subdomains: source?.subdomains, usagePolicy: source?.usagePolicy }
+  }
+
+  /**
+   * Download all missing tiles of a job, persisting progress so it survives reloads
+   */
+  async function runDownloadJob(
+    job: DownloadJob,
+    signal: AbortSignal,
+    onProgress?: (progress: DownloadProgress) => void
+  ): Promise<void> {
     downloadStartTime = Date.now()
+    const sourceId = getRecordSourceId(job)
 
-    // Calculate tiles to download
-    const tiles = calculateDownloadList(bbox, baseZoom, additionalZoomLevels)
-    const areaId = crypto.randomUUID()
+    // Count tiles to download, skipping tiles stored by this job or any other download
+    // Tiles are only counted here and generated while downloading: large areas have millions
+    const completedTiles = new Set(await getJobTileKeys(job.id))
+    const failedTiles = new Set<string>()
+    const skippedTileKeys = await getExistingTileKeys()
+    for (const key of completedTiles) {
+      skippedTileKeys.add(key)
+    }
+    const countInJob = (tileKeys: Iterable<string>) =>
+      countTileKeysInDownload(tileKeys, job.bbox, job.baseZoom, job.additionalZoomLevels, sourceId)
+    const tilesPerZoom = countDownloadTilesPerZoom(job.bbox, job.baseZoom, job.additionalZoomLevels)
+    const skippedPerZoom = countInJob(skippedTileKeys)
+    const pendingPerZoom = new Map(
+      [...tilesPerZoom].map(([zoom, count]) => [zoom, count - (skippedPerZoom.get(zoom) ?? 0)])
+    )
+    const totalTiles = sumCounts(tilesPerZoom)
+    const alreadyDownloaded = sumCounts(skippedPerZoom)
+    const resumedTiles = sumCounts(countInJob(completedTiles))
+    const alreadyOffline = alreadyDownloaded - resumedTiles
+    const alreadyDownloadedBytes = job.bytesDownloaded
+    const summary: BulkDownloadSummary = {
+      tileCount: totalTiles - alreadyDownloaded,
+      maxZoom: job.baseZoom + job.additionalZoomLevels,
+    }
+    const tiles = iterateDownloadList(job.bbox, job.baseZoom, job.additionalZoomLevels, {
+      excludeTileKeys: skippedTileKeys,
+      sourceId,
+    })
 
     // Initialize progress
     downloadProgress.value = {
-      areaId,
-      total: tiles.length,
-      downloaded: 0,
+      areaId: job.id,
+      total: totalTiles,
+      downloaded: alreadyDownloaded,
       failed: 0,
-      percentage: 0,
-      bytesDownloaded: 0,
+      percentage: totalTiles > 0 ? Math.round((alreadyDownloaded / totalTiles) * 100) : 0,
+      bytesDownloaded: alreadyDownloadedBytes,
       startTime: Date.now(),
+      resumedFrom: resumedTiles > 0 ? { tiles: resumedTiles, bytes: alreadyDownloadedBytes } : undefined,
+      alreadyOffline: alreadyOffline > 0 ? alreadyOffline : undefined,
+      zoomLevels: createZoomLevelProgress(tilesPerZoom, skippedPerZoom),
       isComplete: false,
       isCancelled: false,
+      isPaused: false,
     }
 
     // Check storage quota before download
     await updateStorageInfo()
-    const estimatedSize = estimateDownloadSize(tiles)
+    const estimatedSize = estimateTileSizesPerZoom(pendingPerZoom, {
+      stats: await getTileSizeStats(),
+      sourceId,
+      profile: await getDefaultProfile(),
+    }).bytes
     if (storageInfo.value.available < estimatedSize) {
-      throw new Error(
+      throw createStorageFullError(
         `Insufficient storage: Need ${Math.ceil(estimatedSize / 1024 / 1024)}MB, ` +
         `but only ${Math.ceil(storageInfo.value.available / 1024 / 1024)}MB available`
       )
     }
 
+    // Refuse bulk downloads the tile source does not allow, before the job is persisted
+    assertUsagePolicy(summary, findTileSource(sourceId)?.usagePolicy)
+
     // Request persistent storage on first download
     const existingAreas = await getAllAreas()
     if (existingAreas.length === 0) {
@@ -94,23 +424,71 @@ export function useOfflineTiles(): UseOfflineTilesReturn {
 
     // Check if cancelled during persistence request
     if (cancelRequested) {
-      downloadProgress.value.isCancelled = true
-      downloadProgress.value.isComplete = false
+      await finishCancelledJob(job)
       return
     }
 
+    // Persist the job so it can be resumed after a reload or app kill
+    await saveDownloadJob(job)
+
+    // Check if paused during persistence request
+    if (pauseRequested) {
+      downloadProgress.value.isPaused = true
+      return
+    }
+
+    // Write job progress in batches instead of once per tile; each checkpoint only
+    // appends the keys of tiles stored since the previous one
+    let pendingCheckpoint: Promise<void> = Promise.resolve()
+    let newTileKeys: string[] = []
+    let lastCheckpointAt = Date.now()
+    const checkpoint = (): Promise<void> => {
+      const tileKeys = newTileKeys
+      newTileKeys = []
+      lastCheckpointAt = Date.now()
+      const snapshot: DownloadJob = {
+        ...job,
+        completedTileCount: completedTiles.size,
+        failedTileCount: failedTiles.size,
+        bytesDownloaded: downloadProgress.value.bytesDownloaded,
+      }
+      pendingCheckpoint = pendingCheckpoint.then(() => saveJobProgress(snapshot, tileKeys))
+      return pendingCheckpoint
+    }
+
+    const onTileComplete = (result: TileDownloadResult) => {
+      const key = getTileKey(result.tile, sourceId)
+      if (result.ok) {
+        if (!completedTiles.has(key)) newTileKeys.push(key)
+        completedTiles.add(key)
+        failedTiles.delete(key)
+        failureReasons.delete(key)
+      } else {
+        failedTiles.add(key)
+        failureReasons.set(key, result.error ?? 'Unknown error')
+      }
+
+      if (
+        newTileKeys.length >= JOB_CHECKPOINT_TILES ||
+        Date.now() - lastCheckpointAt >= JOB_CHECKPOINT_INTERVAL_MS
+      ) {
+        checkpoint()
+      }
+    }
+
     // Progress callback
-    const progressCallback = (stats: { downloaded: number; failed: number; total: number; bytesDownloaded: number }) => {
-      const downloaded = stats.downloaded
+    const progressCallback = (stats: DownloadProgressStats) => {
+      const downloaded = alreadyDownloaded + stats.downloaded
       const failed = stats.failed
-      const percentage = stats.total > 0 ? Math.round(((downloaded + failed) / stats.total) * 100) : 0
+      const total = totalTiles
+      const percentage = total > 0 ? Math.round(((downloaded + failed) / total) * 100) : 0
 
-      // Calculate ETA
+      // Calculate ETA from tiles downloaded in this session
       let estimatedTimeRemaining: number | undefined
-      if (downloaded > 0) {
+      if (stats.downloaded > 0) {
         const elapsed = Date.now() - downloadStartTime
-        const avgTimePerTile = elapsed / downloaded
-        const remaining = stats.total - downloaded - failed
+        const avgTimePerTile = elapsed / stats.downloaded
+        const remaining = total - downloaded - failed
         estimatedTimeRemaining = Math.round((avgTimePerTile * remaining) / 1000) // seconds
       }
 
@@ -120,7 +498,9 @@ export function useOfflineTiles(): UseOfflineTilesReturn {
         failed,
         percentage,
         estimatedTimeRemaining,
-        bytesDownloaded: stats.bytesDownloaded,
+        bytesDownloaded: alreadyDownloadedBytes + stats.bytesDownloaded,
+        queued: stats.queued,
+        active: stats.active,
       }
 
       if (onProgress) {
@@ -129,12 +509,35 @@ export function useOfflineTiles(): UseOfflineTilesReturn {
     }
 
     // Download tiles
-    await downloadTiles(tiles, DEFAULT_TILE_URL, progressCallback)
+    const storageFull = await downloadRunTiles(
+      tiles,
+      summary,
+      job.tileUrlTemplate,
+      progressCallback,
+      { onTileComplete, signal, ...getSourceDownloadOptions(sourceId) },
+      onProgress
+    )
 
     // Check if cancelled
     if (cancelRequested) {
-      downloadProgress.value.isCancelled = true
-      downloadProgress.value.isComplete = false
+      await checkpoint()
+      await finishCancelledJob({ ...job, bytesDownloaded: downloadProgress.value.bytesDownloaded })
+      return
+    }
+
+    // Storage full: keep what fits as a partial area, and the job to resume once there is space
+    if (storageFull) {
+      await checkpoint()
+      const partial = await savePartialArea({ ...job, bytesDownloaded: downloadProgress.value.bytesDownloaded })
+      throw createStorageFullError(
+        `Storage full: ${partial.tileCount} of ${totalTiles} tiles are offline. Free up space to resume`
+      )
+    }
+
+    // Check if paused - keep the job so the remaining tiles can be fetched later
+    if (pauseRequested) {
+      await checkpoint()
+      downloadProgress.value.isPaused = true
       return
     }
 
@@ -142,45 +545,658 @@ export function useOfflineTiles(): UseOfflineTilesReturn {
     downloadProgress.value.isComplete = true
     downloadProgress.value.percentage = 100
 
-    // Save area metadata to IndexedDB
+    // Save area metadata to IndexedDB, remembering failed tiles so they can be retried
+    const failed = collectFailedTiles(failedTiles, 'Unknown error')
     const area: DownloadedArea = {
-      id: areaId,
-      name: areaName,
-      bbox,
-      baseZoom,
-      additionalZoomLevels,
-      minZoom: baseZoom,
-      maxZoom: baseZoom + additionalZoomLevels,
-      tileCount: tiles.length,
+      id: job.id,
+      name: job.name,
+      bbox: job.bbox,
+      baseZoom: job.baseZoom,
+      additionalZoomLevels: job.additionalZoomLevels,
+      minZoom: job.baseZoom,
+      maxZoom: job.baseZoom + job.additionalZoomLevels,
+      tileCount: totalTiles - failed.length,
       sizeBytes: downloadProgress.value.bytesDownloaded,
       downloadedAt: new Date().toISOString(),
-      tileUrlTemplate: DEFAULT_TILE_URL,
+      tileUrlTemplate: job.tileUrlTemplate,
+      sourceId,
+      isPartial: failed.length > 0,
+      failedTiles: failed,
     }
 
     await saveAreaMetadata(area)
+
+    // The area is complete, the job record is no longer needed
+    await pendingCheckpoint
+    await deleteDownloadJob(job.id)
+
+    // Unpacked tiles stay in the tile store, so a failed packing loses nothing
+    if (await isTileArchiveEnabled()) {
+      await packAreaTiles(area).catch((error) => console.error('Failed to pack area tiles:', error))
+    }
+  }
+
+  /**
+   * Mark the current download as cancelled once its job is cleaned up
+   */
+  async function finishCancelledJob(job: DownloadJob): Promise<void> {
+    await cleanUpCancelledJob(job, cancelOptions)
+    downloadProgress.value.isPaused = false
+    downloadProgress.value.isCancelled = true
+    downloadProgress.value.isComplete = false
+  }
+
+  /**
+   * Clean up a cancelled job: either keep its tiles as a partial area
+   * or roll back the tiles it wrote, then drop the job record
+   */
+  async function cleanUpCancelledJob(job: DownloadJob, options: CancelDownloadOptions): Promise<void> {
+    const completedTiles = await getJobTileKeys(job.id)
+    if (options.keepPartial && completedTiles.length > 0) {
+      await savePartialArea(job)
+    } else {
+      await rollbackTiles(job.id, completedTiles)
+    }
+
+    await deleteDownloadJob(job.id)
+  }
+
+  /**
+   * Save the tiles of a job that are stored offline as a partial area
+   * Only tiles that failed in this run are recorded; tiles not tried yet are counted, and
+   * retryFailedTiles() derives them from the area's extent and the stored tiles
+   */
+  async function savePartialArea(job: DownloadJob): Promise<DownloadedArea> {
+    const storedTileKeys = await getExistingTileKeys()
+    const sourceId = getRecordSourceId(job)
+    const storedTiles = sumCounts(
+      countTileKeysInDownload(storedTileKeys, job.bbox, job.baseZoom, job.additionalZoomLevels, sourceId)
+    )
+    const failedKeys = filterTileKeysInDownload(
+      [...failureReasons.keys()].filter((key) => !storedTileKeys.has(key)),
+      job.bbox,
+      job.baseZoom,
+      job.additionalZoomLevels,
+      sourceId
+    )
+
+    const area: DownloadedArea = {
+      id: job.id,
+      name: job.name,
+      bbox: job.bbox,
+      baseZoom: job.baseZoom,
+      additionalZoomLevels: job.additionalZoomLevels,
+      minZoom: job.baseZoom,
+      maxZoom: job.baseZoom + job.additionalZoomLevels,
+      tileCount: storedTiles,
+      sizeBytes: job.bytesDownloaded,
+      downloadedAt: new Date().toISOString(),
+      tileUrlTemplate: job.tileUrlTemplate,
+      sourceId,
+      isPartial: true,
+      failedTiles: collectFailedTiles(failedKeys, 'Unknown error'),
+      remainingTileCount: countJobTiles(job) - storedTiles - failedKeys.length,
+    }
+    await saveAreaMetadata(area)
+    return area
+  }
+
+  /**
+   * Delete tiles written by a cancelled job
+   * Tiles that belong to an existing area or another unfinished download are kept
+   */
+  async function rollbackTiles(jobId: string, tileKeys: string[]): Promise<void> {
+    const unowned = await filterUnownedTileKeys(tileKeys)
+    const downloading = await getDownloadingTileKeys(unowned, jobId)
+    await deleteTilesFromStorage(unowned.filter((key) => !downloading.has(key)))
+  }
+
+  /**
+   * Re-download the failed tiles of an area, and the tiles a partial area has not tried yet
+   * Recovered tiles are removed from the area's failed list; pause or cancel stops the retry
+   */
+  async function retryFailedTiles(
+    areaId: string,
+    onProgress?: (progress: DownloadProgress) => void
+  ): Promise<void> {
+    const signal = startRun()
+    const area = await getAreaById(areaId)
+    if (!area) {
+      throw new Error(`Area not found: ${areaId}`)
+    }
+    const sourceId = getRecordSourceId(area)
+
+    const stillFailed = new Map<string, FailedTile>()
+    for (const failed of area.failedTiles ?? []) {
+      stillFailed.set(getTileKey(failed.tile, sourceId), failed)
+    }
+    const failedTiles = [...stillFailed.values()].map((failed) => failed.tile)
+    const tilesPerZoom = countTilesPerZoom(failedTiles)
+
+    // Tiles not tried yet are not listed: they are the tiles of the extent neither stored nor failed
+    let tiles: Iterable<TileCoord> = failedTiles
+    let remainingTiles = 0
+    if (area.remainingTileCount) {
+      const skippedTileKeys = await getExistingTileKeys()
+      for (const key of stillFailed.keys()) {
+        skippedTileKeys.add(key)
+      }
+      const skippedPerZoom = countTileKeysInDownload(
+        skippedTileKeys,
+        area.bbox,
+        area.baseZoom,
+        area.additionalZoomLevels,
+        sourceId
+      )
+      for (const [zoom, count] of countDownloadTilesPerZoom(area.bbox, area.baseZoom, area.additionalZoomLevels)) {
+        const remaining = count - (skippedPerZoom.get(zoom) ?? 0)
+        tilesPerZoom.set(zoom, (tilesPerZoom.get(zoom) ?? 0) + remaining)
+        remainingTiles += remaining
+      }
+      tiles = concatTiles(
+        failedTiles,
+        iterateDownloadList(area.bbox, area.baseZoom, area.additionalZoomLevels, {
+          excludeTileKeys: skippedTileKeys,
+          sourceId,
+        })
+      )
+    }
+
+    startAreaProgress(areaId, tilesPerZoom)
+
+    let recoveredTiles = 0
+    let recoveredBytes = 0
+    let triedTiles = 0 // of the remaining tiles
+    const onTileComplete = (result: TileDownloadResult) => {
+      const key = getTileKey(result.tile, sourceId)
+      if (!stillFailed.has(key)) triedTiles++
+      if (result.ok) {
+        stillFailed.delete(key)
+        recoveredTiles++
+        recoveredBytes += result.bytes
+      } else {
+        stillFailed.set(key, { tile: result.tile, reason: result.error ?? 'Unknown error' })
+      }
+    }
+
+    const summary = summarizeTilesPerZoom(tilesPerZoom)
+    const storageFull = await downloadRunTiles(
+      tiles,
+      summary,
+      area.tileUrlTemplate,
+      createAreaProgressCallback(onProgress),
+      { onTileComplete, signal, ...getSourceDownloadOptions(sourceId) },
+      onProgress
+    )
+
+    const stillFailedTiles = [...stillFailed.values()]
+    const remainingTileCount = remainingTiles - triedTiles
+    await saveAreaMetadata({
+      ...area,
+      tileCount: area.tileCount + recoveredTiles,
+      sizeBytes: area.sizeBytes + recoveredBytes,
+      isPartial: stillFailedTiles.length > 0 || remainingTileCount > 0,
+      failedTiles: stillFailedTiles,
+      remainingTileCount,
+    })
+
+    if (storageFull) {
+      throw createStorageFullError(
+        `Storage full: ${recoveredTiles} of ${summary.tileCount} tiles recovered. Free up space to retry`
+      )
+    }
+
+    downloadProgress.value.isCancelled = cancelRequested
+    downloadProgress.value.isComplete = !cancelRequested && !pauseRequested
+  }
+
+  /**
+   * Revalidate the stored tiles of an area and re-download only the ones that changed
+   * Tiles are requested with their stored ETag/Last-Modified; pause or cancel stops the update
+   * Tiles of packed areas are revalidated from their archive, changed ones are packed again
+   */
+  async function updateArea(
+    areaId: string,
+    onProgress?: (progress: DownloadProgress) => void
+  ): Promise<AreaUpdateResult> {
+    const signal = startRun()
+    const area = await getAreaById(areaId)
+    if (!area) {
+      throw new Error(`Area not found: ${areaId}`)
+    }
+
+    const sourceId = getRecordSourceId(area)
+    const failedPerZoom = countTilesPerZoom((area.failedTiles ?? []).map((failed) => failed.tile))
+    const tilesPerZoom = new Map(
+      [...countDownloadTilesPerZoom(area.bbox, area.baseZoom, area.additionalZoomLevels)].map(([zoom, count]) => [
+        zoom,
+        count - (failedPerZoom.get(zoom) ?? 0),
+      ])
+    )
+    // Describes the whole area, so the usage policy and the download conditions apply to it and not per batch
+    const summary = summarizeTilesPerZoom(tilesPerZoom)
+
+    startAreaProgress(areaId, tilesPerZoom)
+
+    const result: AreaUpdateResult = {
+      checked: 0,
+      changed: 0,
+      unchanged: 0,
+      failed: 0,
+      bytesDownloaded: 0,
+      bytesSaved: 0,
+    }
+    let sizeChange = 0
+    // Keys of the changed tiles, which a packed area appends to its archive
+    const changedTileKeys: string[] = []
+    // Sizes before the update of the current batch: what an unchanged tile would have cost, what a changed one replaces
+    let previousMetadata = new Map<string, TileMetadata>()
+    const onTileComplete = (tileResult: TileDownloadResult) => {
+      result.checked++
+      const key = getTileKey(tileResult.tile, sourceId)
+      const previous = previousMetadata.get(key)
+      if (!tileResult.ok) {
+        result.failed++
+      } else if (tileResult.notModified) {
+        result.unchanged++
+        result.bytesSaved += previous?.originalSize ?? 0
+      } else {
+        result.changed++
+        changedTileKeys.push(key)
+        result.bytesDownloaded += tileResult.bytes
+        sizeChange += tileResult.bytes - (previous?.compressedSize ?? 0)
+      }
+    }
+
+    // Each batch is a download of its own: its progress continues the one of the batches before
+    const reportProgress = createAreaProgressCallback(onProgress)
+    const done = { downloaded: 0, failed: 0, bytesDownloaded: 0 }
+    let batchStats: DownloadProgressStats | null = null
+    const progressCallback = (stats: DownloadProgressStats) => {
+      batchStats = stats
+      const downloaded = done.downloaded + stats.downloaded
+      const failed = done.failed + stats.failed
+      const total = downloadProgress.value.total
+      reportProgress({
+        downloaded,
+        failed,
+        total,
+        bytesDownloaded: done.bytesDownloaded + stats.bytesDownloaded,
+        queued: Math.max(0, total - downloaded - failed - stats.active),
+        active: stats.active,
+      })
+    }
+
+    const updateBatch = async (tileKeys: string[]): Promise<boolean> => {
+      const tiles = tileKeys
+        .map((key) => parseTileKey(key)?.tile)
+        .filter((tile): tile is TileCoord => tile !== undefined)
+      previousMetadata = await getTilesMetadata(tiles, sourceId)
+
+      // Tiles a partial area has not tried yet are not stored, there is nothing to revalidate
+      const storedTiles = area.remainingTileCount
+        ? tiles.filter((tile) => previousMetadata.has(getTileKey(tile, sourceId)))
+        : tiles
+      if (storedTiles.length < tiles.length) {
+        skipAreaProgress(tiles.filter((tile) => !previousMetadata.has(getTileKey(tile, sourceId))))
+      }
+
+      batchStats = null
+      const storageFull = await downloadRunTiles(
+        storedTiles,
+        summary,
+        area.tileUrlTemplate,
+        progressCallback,
+        { onTileComplete, signal, revalidate: true, ...getSourceDownloadOptions(sourceId) },
+        onProgress
+      )
+      if (batchStats) {
+        const { downloaded, failed, bytesDownloaded } = batchStats
+        done.downloaded += downloaded
+        done.failed += failed
+        done.bytesDownloaded += bytesDownloaded
+      }
+      return storageFull
+    }
+
+    let storageFull = false
+    let batch: string[] = []
+    for (const key of iterateAreaTileKeys(area)) {
+      batch.push(key)
+      if (batch.length < UPDATE_BATCH_SIZE) continue
+      storageFull = await updateBatch(batch)
+      batch = []
+      if (storageFull || cancelRequested || pauseRequested) break
+    }
+    if (batch.length > 0 && !storageFull && !cancelRequested && !pauseRequested) {
+      storageFull = await updateBatch(batch)
+    }
+
+    await saveAreaMetadata({
+      ...area,
+      sizeBytes: area.sizeBytes + sizeChange,
+      updatedAt: new Date().toISOString(),
+    })
+
+    // Changed tiles of a packed area were written to the tile store: append them to its archive.
+    // Tiles shared with other areas stay in the tile store, so packing all of them would append them again
+    if (changedTileKeys.length > 0 && (await hasTileArchive(areaId))) {
+      await packAreaTiles(area, undefined, changedTileKeys).catch((error) =>
+        console.error('Failed to pack area tiles:', error)
+      )
+    }
+
+    // Tiles not checked yet keep their stored version
+    if (storageFull) {
+      throw createStorageFullError(
+        `Storage full: ${result.checked} of ${downloadProgress.value.total} tiles checked. Free up space to update`
+      )
+    }
+
+    downloadProgress.value.isCancelled = cancelRequested
+    downloadProgress.value.isComplete = !cancelRequested && !pauseRequested
+    return result
+  }
+
+  /**
+   * Download tiles for the current run: a pause stops starting new tiles,
+   * and large downloads are held while the download conditions are not met
+   * Finished tiles are counted in the zoom level progress
+   * `tiles` may be generated lazily, `summary` describes them
+   * @returns true if the run stopped because the storage is full
+   */
+  async function downloadRunTiles(
+    tiles: Iterable<TileCoord>,
+    summary: BulkDownloadSummary,
+    urlTemplate: string,
+    progressCallback: DownloadProgressCallback,
+    options: DownloadTilesOptions,
+    onProgress?: (progress: DownloadProgress) => void
+  ): Promise<boolean> {
+    const gate = await startConditionGate(summary.tileCount, onProgress)
+    const onTileComplete = (result: TileDownloadResult) => {
+      const level = downloadProgress.value.zoomLevels?.find((zoomLevel) => zoomLevel.zoom === result.tile.z)
+      if (level) {
+        if (result.ok) {
+          level.downloaded++
+        } else {
+          level.failed++
+        }
+      }
+      options.onTileComplete?.(result)
+    }
+
+    try {
+      await downloadTiles(tiles, urlTemplate, progressCallback, true, undefined, {
+        ...options,
+        summary,
+        onTileComplete,
+        shouldStop: () => pauseRequested,
+        waitUntilReady: gate.waitUntilReady,
+      })
+      return false
+    } catch (error) {
+      if (!isQuotaExceededError(error)) {
+        throw error
+      }
+      downloadProgress.value = { ...downloadProgress.value, storageFull: true }
+      onProgress?.(downloadProgress.value)
+      return true
+    } finally {
+      gate.stop()
+    }
+  }
+
+  /**
+   * Watch the download conditions of a large download
+   * While they are not met, tiles in flight finish and the next ones wait (the download pauses
+   * by itself); once they are met again it continues. Small downloads are never held.
+   */
+  async function startConditionGate(
+    tileCount: number,
+    onProgress?: (progress: DownloadProgress) => void
+  ): Promise<ConditionGate> {
+    const settings = await getDownloadConditionSettings()
+    if (tileCount < settings.largeDownloadTiles) {
+      return { stop: () => {} }
+    }
+
+    let waitingReason: string | null = null
+    const refresh = async () => {
+      const check = checkDownloadConditions(tileCount, await readDeviceConditions(), settings)
+      waitingReason = check.waitingReason
+      if ((downloadProgress.value.waitingReason ?? null) !== waitingReason) {
+        downloadProgress.value = { ...downloadProgress.value, waitingReason: waitingReason ?? undefined }
+        onProgress?.(downloadProgress.value)
+      }
+      wakeConditionWaiters()
+    }
+
+    const stopWatching = await watchDeviceConditions(() => void refresh())
+    await refresh()
+
+    return {
+      waitUntilReady: async () => {
+        while (waitingReason && !pauseRequested && !cancelRequested) {
+          await new Promise<void>((resolve) => conditionWaiters.push(resolve))
+        }
+      },
+      stop: () => {
+        stopWatching()
+        if (downloadProgress.value.waitingReason) {
+          downloadProgress.value = { ...downloadProgress.value, waitingReason: undefined }
+        }
+      },
+    }
+  }
+
+  /**
+   * Reset progress for an operation on the tiles of an existing area
+   */
+  function startAreaProgress(areaId: string, tilesPerZoom: ReadonlyMap<number, number>): void {
+    downloadStartTime = Date.now()
+    downloadProgress.value = {
+      areaId,
+      total: sumCounts(tilesPerZoom),
+      downloaded: 0,
+      failed: 0,
+      percentage: 0,
+      bytesDownloaded: 0,
+      startTime: downloadStartTime,
+      zoomLevels: createZoomLevelProgress(tilesPerZoom),
+      isComplete: false,
+      isCancelled: false,
+      isPaused: false,
+    }
+  }
+
+  /**
+   * Take tiles out of the progress of an operation on an existing area, e.g. tiles it turned out not to have
+   */
+  function skipAreaProgress(tiles: TileCoord[]): void {
+    downloadProgress.value.total -= tiles.length
+    for (const [zoom, count] of countTilesPerZoom(tiles)) {
+      const level = downloadProgress.value.zoomLevels?.find((zoomLevel) => zoomLevel.zoom === zoom)
+      if (level) level.total -= count
+    }
+  }
+
+  /**
+   * Progress callback for operations on the tiles of an existing area
+   */
+  function createAreaProgressCallback(onProgress?: (progress: DownloadProgress) => void): DownloadProgressCallback {
+    return (stats: DownloadProgressStats) => {
+      downloadProgress.value = {
+        ...downloadProgress.value,
+        downloaded: stats.downloaded,
+        failed: stats.failed,
+        percentage: stats.total > 0 ? Math.round(((stats.downloaded + stats.failed) / stats.total) * 100) : 0,
+        bytesDownloaded: stats.bytesDownloaded,
+        queued: stats.queued,
+        active: stats.active,
+      }
+
+      if (onProgress) {
+        onProgress(downloadProgress.value)
+      }
+    }
   }
 
-  function cancelDownload(): void {
+  /**
+   * Stop starting new tiles; tiles in flight finish and the job stays resumable
+   */
+  function pauseDownload(): void {
+    pauseRequested = true
+    wakeConditionWaiters()
+  }
+
+  /**
+   * Continue the paused download
+   */
+  async function resumeDownload(onProgress?: (progress: DownloadProgress) => void): Promise<void> {
+    if (!downloadProgress.value.isPaused) {
+      return
+    }
+    await resumeJob(downloadProgress.value.areaId, onProgress)
+  }
+
+  /**
+   * Abort the running download, including requests in flight
+   * Tiles written so far are rolled back unless `keepPartial` is set
+   */
+  async function cancelDownload(options: CancelDownloadOptions = {}): Promise<void> {
     cancelRequested = true
+    cancelOptions = options
+    abortController?.abort()
+    wakeConditionWaiters()
+
+    // A paused download has no running loop to pick up the flag
+    if (downloadProgress.value.isPaused) {
+      const job = await getDownloadJob(downloadProgress.value.areaId)
+      if (job) {
+        await finishCancelledJob(job)
+      } else {
+        downloadProgress.value.isPaused = false
+        downloadProgress.value.isCancelled = true
+      }
+    }
+  }
+
+  /**
+   * Get keys of all tiles already stored offline
+   */
+  async function getExistingTileKeys(): Promise<Set<string>> {
+    return new Set(await getAllStoredTileKeys())
   }
 
+  /**
+   * Estimate tile count and size of a download
+   * With `existingTileKeys`, tiles already offline are excluded from the size estimate
+   * Tiles are counted per zoom level without listing them, so the estimate stays instant for large areas
+   */
   function calculateDownloadEstimate(
     bbox: BoundingBox,
     baseZoom: number,
-    additionalZoomLevels: number
+    additionalZoomLevels: number,
+    options: DownloadEstimateOptions = {}
   ): DownloadEstimate {
-    const tiles = calculateDownloadList(bbox, baseZoom, additionalZoomLevels)
-    const estimatedSizeBytes = estimateDownloadSize(tiles)
+    const tilesPerZoom = countDownloadTilesPerZoom(bbox, baseZoom, additionalZoomLevels)
+    const existingPerZoom = options.existingTileKeys
+      ? countTileKeysInDownload(options.existingTileKeys, bbox, baseZoom, additionalZoomLevels, options.sourceId)
+      : new Map<number, number>()
+    const newTilesPerZoom = new Map(
+      [...tilesPerZoom].map(([zoom, count]) => [zoom, count - (existingPerZoom.get(zoom) ?? 0)])
+    )
+    const sizeEstimate = estimateTileSizesPerZoom(newTilesPerZoom, {
+      stats: options.sizeStats,
+      sourceId: options.sourceId,
+      profile: options.profile,
+    })
+    const tileCount = sumCounts(tilesPerZoom)
+    const newTileCount = sumCounts(newTilesPerZoom)
 
     return {
-      tileCount: tiles.length,
-      estimatedSizeBytes,
+      tileCount,
+      newTileCount,
+      existingTileCount: tileCount - newTileCount,
+      estimatedSizeBytes: sizeEstimate.bytes,
+      sizeEstimate,
       minZoom: baseZoom,
       maxZoom: baseZoom + additionalZoomLevels,
+      zoomLevels: getZoomLevelEstimates(tilesPerZoom, newTilesPerZoom, sizeEstimate),
+    }
+  }
+
+  /**
+   * Estimate a download by fetching a stratified random sample of its new tiles
+   * and extrapolating their stored and original sizes
+   * Sample tiles are stored like downloaded tiles, so the download itself skips them
+   */
+  async function calculateSampledDownloadEstimate(
+    bbox: BoundingBox,
+    baseZoom: number,
+    additionalZoomLevels: number,
+    options: SampledEstimateOptions = {}
+  ): Promise<DownloadEstimate> {
+    const estimate = calculateDownloadEstimate(bbox, baseZoom, additionalZoomLevels, options)
+    const sourceId = options.sourceId ?? DEFAULT_TILE_SOURCE_ID
+    const source = getTileSource(sourceId)
+    if (estimate.newTileCount === 0) {
+      return estimate
+    }
+
+    // Drawn from the tile ranges, the download is not listed
+    const existingTiles = filterTileKeysInDownload(
+      options.existingTileKeys ?? [],
+      bbox,
+      baseZoom,
+      additionalZoomLevels,
+      sourceId
+    ).map((key) => parseTileKey(key)!.tile)
+    const sample = selectStratifiedSample(getDownloadTileRanges(bbox, baseZoom, additionalZoomLevels), {
+      sampleSize: options.sampleSize,
+      excludeTiles: existingTiles,
+    })
+    const storedBytes = new Map<string, number>()
+    let failedTiles = 0
+    await downloadTiles(sample, source.urlTemplate, undefined, true, undefined, {
+      signal: options.signal,
+      onTileComplete: (result) => {
+        if (result.ok) {
+          storedBytes.set(getTileKey(result.tile, sourceId), result.bytes)
+        } else {
+          failedTiles++
+        }
+      },
+      ...getSourceDownloadOptions(sourceId),
+    })
+    // Sample tiles stay stored for the download; until an area owns them the browse cache budget covers them
+    await trackBrowseCacheTiles([...storedBytes].map(([tileKey, bytes]) => ({ tileKey, bytes })))
+    options.signal?.throwIfAborted()
+
+    const storedTiles = sample.filter((tile) => storedBytes.has(getTileKey(tile, sourceId)))
+    const metadata = await getTilesMetadata(storedTiles, sourceId)
+    const samples = storedTiles.map((tile) => {
+      const key = getTileKey(tile, sourceId)
+      const bytes = storedBytes.get(key)!
+      return { tile, bytes, originalBytes: metadata.get(key)?.originalSize ?? bytes }
+    })
+    const newTilesPerZoom = new Map(estimate.zoomLevels.map((level) => [level.zoom, level.newTileCount]))
+    const sampled = extrapolateSampleSizes(newTilesPerZoom, samples, failedTiles)
+
+    return {
+      ...estimate,
+      estimatedSizeBytes: sampled.bytes,
+      sizeEstimate: sampled,
+      sampled,
+      zoomLevels: estimate.zoomLevels.map((level) => ({
+        ...level,
+        estimatedSizeBytes: sampled.bytesPerZoom[level.zoom] ?? 0,
+      })),
     }
   }
 
-  function getCurrentMapExtent(map: Map | null): BoundingBox | null {
+  function getCurrentMapExtent(map: OlMap | null): BoundingBox | null {
     if (!map) return null
 
     const view = map.getView()
@@ -196,8 +1212,17 @@ export function useOfflineTiles(): UseOfflineTilesReturn {
   return {
     downloadProgress,
     downloadArea,
+    pauseDownload,
+    resumeDownload,
     cancelDownload,
+    resumeJob,
+    getResumableJobs,
+    discardJob,
+    retryFailedTiles,
+    updateArea,
     calculateDownloadEstimate,
+    calculateSampledDownloadEstimate,
+    getExistingTileKeys,
     getCurrentMapExtent,
   }
 }
@@ -0,0 +1,324 @@
+import type { BrowseCacheSettings, BrowseCacheStats, TileCoord } from '@/types'
+import {
+  BROWSE_CACHE_BY_ACCESS_INDEX,
+  deleteRecords,
+  getAllRecords,
+  getRecords,
+  getRecordsFromIndex,
+  getSetting,
+  putRecords,
+  putSetting,
+  updateSetting,
+  withStore,
+} from './db'
+import { getDownloadingTileKeys } from './downloadJobs'
+import { deleteTilesFromStorage, getTileKey, saveTileToStorage, TILE_BATCH_SIZE } from './tileDownloader'
+import { ensureOwnershipIndex, getUnownedTileKeys } from './tileOwnership'
+import { getTileStore } from './tileStore'
+
+/**
+ * Browse cache: tiles fetched while panning the map are kept within a byte budget.
+ * Each of them has an entry in the browseCache store with its size and last access;
+ * beyond the budget the least recently used tiles are evicted.
+ *
+ * Tiles owned by a downloaded area or covered by an unfinished download are never
+ * evicted. Once an area owns a tile its entry is dropped, so it no longer counts
+ * toward the budget. Tiles stored without an area for other reasons, like the samples
+ * of a size estimate, are tracked as browsed tiles too, so the budget covers them.
+ */
+
+export interface BrowseCacheEntry {
+  tileKey: string
+  bytes: number
+  lastAccess: string // ISO 8601 string, see BROWSE_CACHE_BY_ACCESS_INDEX
+}
+
+type BrowseCacheCounters = Pick<BrowseCacheStats, 'hits' | 'misses' | 'evictions'>
+
+const SETTINGS_KEY = 'browse_cache_settings'
+const STATS_KEY = 'browse_cache_stats'
+const INDEX_VERSION_KEY = 'browse_cache_index_version'
+const INDEX_VERSION = 1
+// Hits and misses are collected and written together after this delay
+const FLUSH_DELAY_MS = 2000
+
+const DEFAULT_SETTINGS: BrowseCacheSettings = {
+  mode: 'persistent',
+  maxBytes: 100 * 1024 * 1024,
+}
+
+// Tiles cached before this page load belong to an earlier session
+const sessionStartedAt = new Date().toISOString()
+
+// Bytes of all cached tiles, counted on first use; null after an eviction
+let totalBytes: number | null = null
+let runningEviction: Promise<number> | null = null
+// Tile keys served from storage and misses since the last flush
+let pendingHits: string[] = []
+let pendingMisses = 0
+let flushTimer: ReturnType<typeof setTimeout> | null = null
+
+/**
+ * Get the browse cache settings
+ */
+export async function getBrowseCacheSettings(): Promise<BrowseCacheSettings> {
+  const settings = await getSetting<BrowseCacheSettings>(SETTINGS_KEY)
+  return { ...DEFAULT_SETTINGS, ...settings }
+}
+
+/**
+ * Update the browse cache settings, evicting tiles beyond a lower budget right away
+ * Tiles already cached are kept when the cache is turned off
+ */
+export async function setBrowseCacheSettings(settings: BrowseCacheSettings): Promise<void> {
+  await putSetting(SETTINGS_KEY, { ...settings })
+  if (settings.mode !== 'off') {
+    await evictBrowseCache(settings.maxBytes)
+  }
+}
+
+/**
+ * Track tiles cached before the browse cache existed (runs once)
+ * Their last access is the time they were stored
+ */
+async function ensureBrowseCacheIndex(): Promise<void> {
+  const version = await getSetting<number>(INDEX_VERSION_KEY)
+  if (version === INDEX_VERSION) {
+    return
+  }
+
+  await ensureOwnershipIndex(() => getAllRecords('areas'))
+  const store = await getTileStore()
+  const keys = await getUnownedTileKeys(await store.list())
+  for (let i = 0; i < keys.length; i += TILE_BATCH_SIZE) {
+    const batch = keys.slice(i, i + TILE_BATCH_SIZE)
+    const [records, entries] = await Promise.all([store.getMany(batch), getRecords('browseCache', batch)])
+    const added: BrowseCacheEntry[] = []
+    batch.forEach((tileKey, index) => {
+      const record = records[index]
+      if (record && !entries[index]) {
+        added.push({ tileKey, bytes: record.data.size ?? 0, lastAccess: record.storedAt })
+      }
+    })
+    await putRecords('browseCache', added)
+  }
+  await putSetting(INDEX_VERSION_KEY, INDEX_VERSION)
+}
+
+async function getTotalBytes(): Promise<number> {
+  if (totalBytes === null) {
+    await ensureBrowseCacheIndex()
+    const entries = await getAllRecords('browseCache')
+    totalBytes = entries.reduce((total, entry) => total + entry.bytes, 0)
+  }
+  return totalBytes
+}
+
+async function addToCounters(counts: Partial<BrowseCacheCounters>): Promise<void> {
+  await updateSetting<BrowseCacheCounters>(STATS_KEY, (current) => ({
+    hits: (current?.hits ?? 0) + (counts.hits ?? 0),
+    misses: (current?.misses ?? 0) + (counts.misses ?? 0),
+    evictions: (current?.evictions ?? 0) + (counts.evictions ?? 0),
+  }))
+}
+
+/**
+ * Delete cached tiles, least recently used first, until at most `maxBytes` remain
+ * `before` limits eviction to tiles last used before that time
+ * @returns Number of deleted tiles
+ */
+async function evict(maxBytes: number, before?: string): Promise<number> {
+  await ensureBrowseCacheIndex()
+  await ensureOwnershipIndex(() => getAllRecords('areas'))
+
+  const entries = await getRecordsFromIndex('browseCache', BROWSE_CACHE_BY_ACCESS_INDEX)
+  const keys = entries.map((entry) => entry.tileKey)
+  const unowned = new Set(await getUnownedTileKeys(keys))
+  const downloading = await getDownloadingTileKeys(keys)
+
+  // Tiles an area owns are no longer part of the browse cache
+  await deleteRecords('browseCache', keys.filter((key) => !unowned.has(key)))
+
+  let bytes = entries.reduce((total, entry) => total + (unowned.has(entry.tileKey) ? entry.bytes : 0), 0)
+  const evicted: string[] = []
+  for (const entry of entries) {
+    if (bytes <= maxBytes || (before !== undefined && entry.lastAccess >= before)) break
+    if (!unowned.has(entry.tileKey) || downloading.has(entry.tileKey)) continue
+    evicted.push(entry.tileKey)
+    bytes -= entry.bytes
+  }
+
+  await deleteTilesFromStorage(evicted)
+  totalBytes = null
+  return evicted.length
+}
+
+/**
+ * Evict least recently used tiles until the cache fits in `maxBytes`
+ * @returns Number of evicted tiles
+ */
+export function evictBrowseCache(maxBytes: number): Promise<number> {
+  runningEviction ??= evict(maxBytes)
+    .then(async (evicted) => {
+      if (evicted > 0) {
+        await addToCounters({ evictions: evicted })
+      }
+      return evicted
+    })
+    .finally(() => {
+      runningEviction = null
+    })
+  return runningEviction
+}
+
+/**
+ * Delete all browsed tiles except those areas or unfinished downloads use, e.g. to free up space
+ * @returns Number of deleted tiles
+ */
+export function clearBrowseCache(): Promise<number> {
+  return evict(0)
+}
+
+/**
+ * Start a browsing session: with the session-only policy, tiles of earlier sessions are deleted
+ */
+export async function startBrowseCacheSession(): Promise<void> {
+  const settings = await getBrowseCacheSettings()
+  if (settings.mode === 'session') {
+    await evict(0, sessionStartedAt)
+  }
+}
+
+/**
+ * Add entries of stored tiles; beyond the budget, eviction starts in the background
+ */
+async function addEntries(entries: BrowseCacheEntry[], settings: BrowseCacheSettings): Promise<void> {
+  const keys = entries.map((entry) => entry.tileKey)
+  // Counted before the entries are written, so a total counted now does not include them yet
+  await getTotalBytes()
+  const previous = await getRecords('browseCache', keys)
+  await putRecords('browseCache', entries)
+
+  // A tile cached again replaces its entry; after an eviction meanwhile the total is counted anew
+  if (totalBytes !== null) {
+    let added = 0
+    entries.forEach((entry, index) => {
+      added += entry.bytes - (previous[index]?.bytes ?? 0)
+    })
+    totalBytes += added
+  }
+  if (settings.mode !== 'off' && (await getTotalBytes()) > settings.maxBytes) {
+    // Not awaited: the tile is shown while older ones are evicted
+    evictBrowseCache(settings.maxBytes).catch((error) => console.error('Failed to evict browsed tiles:', error))
+  }
+}
+
+/**
+ * Store a tile fetched while browsing; beyond the budget, eviction starts in the background
+ * Does nothing when the browse cache is off
+ */
+export async function cacheBrowsedTile(tile: TileCoord, blob: Blob, sourceId: string): Promise<void> {
+  const settings = await getBrowseCacheSettings()
+  if (settings.mode === 'off') {
+    return
+  }
+
+  const bytes = await saveTileToStorage(tile, blob, false, undefined, { sourceId })
+  await addEntries([{ tileKey: getTileKey(tile, sourceId), bytes, lastAccess: new Date().toISOString() }], settings)
+}
+
+/**
+ * Track tiles stored without an area, e.g. the samples of a size estimate, as browsed tiles
+ * so the budget evicts them unless an area comes to own them
+ * Tiles an area owns already are left out
+ */
+export async function trackBrowseCacheTiles(tiles: Pick<BrowseCacheEntry, 'tileKey' | 'bytes'>[]): Promise<void> {
+  await ensureOwnershipIndex(() => getAllRecords('areas'))
+  const unowned = new Set(await getUnownedTileKeys(tiles.map((tile) => tile.tileKey)))
+  const lastAccess = new Date().toISOString()
+  const entries = tiles
+    .filter((tile) => unowned.has(tile.tileKey))
+    .map((tile) => ({ tileKey: tile.tileKey, bytes: tile.bytes, lastAccess }))
+  if (entries.length === 0) {
+    return
+  }
+  await addEntries(entries, await getBrowseCacheSettings())
+}
+
+function scheduleFlush(): void {
+  flushTimer ??= setTimeout(() => {
+    flushTimer = null
+    flushBrowseCache().catch((error) => console.error('Failed to update browse cache:', error))
+  }, FLUSH_DELAY_MS)
+}
+
+/**
+ * Record a browsed tile served from storage
+ * Counts as a hit if the tile is in the browse cache, whose last access is updated
+ */
+export function recordBrowseCacheHit(tile: TileCoord, sourceId: string): void {
+  pendingHits.push(getTileKey(tile, sourceId))
+  scheduleFlush()
+}
+
+/**
+ * Record a browsed tile that had to be fetched from the network
+ */
+export function recordBrowseCacheMiss(): void {
+  pendingMisses++
+  scheduleFlush()
+}
+
+/**
+ * Write the hits and misses recorded so far
+ */
+export async function flushBrowseCache(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer)
+    flushTimer = null
+  }
+  const hitsPerKey = new Map<string, number>()
+  for (const key of pendingHits) {
+    hitsPerKey.set(key, (hitsPerKey.get(key) ?? 0) + 1)
+  }
+  const misses = pendingMisses
+  pendingHits = []
+  pendingMisses = 0
+  if (hitsPerKey.size === 0 && misses === 0) {
+    return
+  }
+
+  const lastAccess = new Date().toISOString()
+  let hits = 0
+  await withStore('browseCache', 'readwrite', (store) => {
+    for (const [key, count] of hitsPerKey) {
+      const request = store.get(key)
+      request.onsuccess = () => {
+        if (!request.result) return
+        hits += count
+        store.put({ ...request.result, lastAccess })
+      }
+    }
+  })
+  await addToCounters({ hits, misses })
+}
+
+/**
+ * Get hit, miss and eviction counts and the size of the browse cache
+ */
+export async function getBrowseCacheStats(): Promise<BrowseCacheStats> {
+  await flushBrowseCache()
+  await ensureBrowseCacheIndex()
+  const counters = await getSetting<BrowseCacheCounters>(STATS_KEY)
+  const entries = await getAllRecords('browseCache')
+  const unowned = new Set(await getUnownedTileKeys(entries.map((entry) => entry.tileKey)))
+  const cached = entries.filter((entry) => unowned.has(entry.tileKey))
+
+  return {
+    hits: counters?.hits ?? 0,
+    misses: counters?.misses ?? 0,
+    evictions: counters?.evictions ?? 0,
+    tileCount: cached.length,
+    bytes: cached.reduce((total, entry) => total + entry.bytes, 0),
+  }
+}
@@ -0,0 +1,109 @@
+import type { TileStorageData } from './tileDownloader'
+import type { TileStore, TileStoreEntry, TileStoreStats } from './tileStore'
+
+/**
+ * Cache Storage tile store: each tile is a cached response under a synthetic same-origin URL
+ * Record fields travel as response headers; the body is the tile blob.
+ */
+
+const CACHE_NAME = 'offline-map-tiles'
+// Path of the synthetic tile URLs, never requested from the network
+const TILE_PATH = '/offline-tiles/'
+
+const STORED_AT_HEADER = 'X-Stored-At'
+const SOURCE_ID_HEADER = 'X-Source-Id'
+const ZOOM_HEADER = 'X-Zoom'
+
+function getTileUrl(key: string): string {
+  return new URL(`${TILE_PATH}${encodeURIComponent(key)}`, self.location.origin).href
+}
+
+function getKeyFromUrl(url: string): string | null {
+  const { pathname } = new URL(url)
+  return pathname.startsWith(TILE_PATH) ? decodeURIComponent(pathname.slice(TILE_PATH.length)) : null
+}
+
+function createTileResponse(record: TileStorageData): Response {
+  const headers = new Headers({
+    'Content-Type': record.data.type,
+    'Content-Length': String(record.data.size),
+    [STORED_AT_HEADER]: record.storedAt,
+    [SOURCE_ID_HEADER]: record.sourceId,
+    [ZOOM_HEADER]: String(record.z),
+  })
+  if (record.etag) headers.set('ETag', record.etag)
+  if (record.lastModified) headers.set('Last-Modified', record.lastModified)
+  return new Response(record.data as Blob, { headers })
+}
+
+async function readTileResponse(response: Response): Promise<TileStorageData> {
+  const headers = response.headers
+  const etag = headers.get('ETag')
+  const lastModified = headers.get('Last-Modified')
+  return {
+    data: await response.blob(),
+    storedAt: headers.get(STORED_AT_HEADER) ?? '',
+    sourceId: headers.get(SOURCE_ID_HEADER) ?? '',
+    z: Number(headers.get(ZOOM_HEADER)),
+    ...(etag ? { etag } : {}),
+    ...(lastModified ? { lastModified } : {}),
+  }
+}
+
+export function createCacheStorageTileStore(): TileStore {
+  const openCache = () => caches.open(CACHE_NAME)
+
+  async function get(key: string): Promise<TileStorageData | undefined> {
+    const response = await (await openCache()).match(getTileUrl(key))
+    return response ? readTileResponse(response) : undefined
+  }
+
+  async function getMany(keys: string[]): Promise<(TileStorageData | undefined)[]> {
+    return Promise.all(keys.map(get))
+  }
+
+  async function putMany(entries: TileStoreEntry[]): Promise<void> {
+    const cache = await openCache()
+    await Promise.all(entries.map(({ key, record }) => cache.put(getTileUrl(key), createTileResponse(record))))
+  }
+
+  async function deleteMany(keys: string[]): Promise<void> {
+    const cache = await openCache()
+    await Promise.all(keys.map((key) => cache.delete(getTileUrl(key))))
+  }
+
+  async function list(): Promise<string[]> {
+    const requests = await (await openCache()).keys()
+    const keys: string[] = []
+    for (const request of requests) {
+      const key = getKeyFromUrl(request.url)
+      if (key) keys.push(key)
+    }
+    return keys
+  }
+
+  async function stats(): Promise<TileStoreStats> {
+    // Bodies are not read: the size is taken from the stored Content-Length
+    const responses = await (await openCache()).matchAll()
+    let bytes = 0
+    for (const response of responses) {
+      bytes += Number(response.headers.get('Content-Length') ?? 0)
+    }
+    return { tileCount: responses.length, bytes }
+  }
+
+  return {
+    backend: 'cache',
+    get,
+    put: (key, record) => putMany([{ key, record }]),
+    delete: (key) => deleteMany([key]),
+    list,
+    stats,
+    getMany,
+    putMany,
+    deleteMany,
+    clear: async () => {
+      await caches.delete(CACHE_NAME)
+    },
+  }
+}
@@ -1,4 +1,4 @@
-import { get, set } from 'idb-keyval'
+import { getSetting, putSetting } from './db'
 import type { CompressionSettings, CompressionProfile } from '@/types'
 
 const SETTINGS_KEY = 'compression_settings'
@@ -15,8 +15,8 @@ const DEFAULT_SETTINGS: CompressionSettings = {
  * Get current compression settings from IndexedDB
  */
 export async function getCompressionSettings(): Promise<CompressionSettings> {
-  const settings = await get<CompressionSettings>(SETTINGS_KEY)
-  return settings || DEFAULT_SETTINGS
+  const settings = await getSetting<CompressionSettings>(SETTINGS_KEY)
+  return settings || { ...DEFAULT_SETTINGS }
 }
 
 /**
@@ -25,7 +25,7 @@ export async function getCompressionSettings(): Promise<CompressionSettings> {
 export async function setCompressionSettings(
   settings: CompressionSettings
 ): Promise<void> {
-  await set(SETTINGS_KEY, settings)
+  await putSetting(SETTINGS_KEY, settings)
 }
 
 /**
@@ -45,6 +45,16 @@ export async function getDefaultProfile(): Promise<CompressionProfile> {
   return settings.defaultProfile
 }
 
+/**
+ * Update the number of compression workers (undefined = default for the device)
+ * The worker pool is resized on the next compressed tile
+ */
+export async function setWorkerPoolSize(size: number | undefined): Promise<void> {
+  const settings = await getCompressionSettings()
+  settings.workerPoolSize = size
+  await setCompressionSettings(settings)
+}
+
 /**
  * Reset compression settings to defaults
  */
@@ -0,0 +1,170 @@
+import type { CompressionFormat } from '@/types'
+import { getCompressionSettings } from './compressionSettings'
+
+/**
+ * Pool of Web Workers that re-encode tiles off the main thread
+ * Workers decode with createImageBitmap and encode with OffscreenCanvas.convertToBlob,
+ * see workers/tileCompression.worker.ts
+ */
+
+export interface CompressionWorkerRequest {
+  id: number
+  blob: Blob
+  format: CompressionFormat
+  quality: number
+}
+
+export type CompressionWorkerResponse = { id: number; blob: Blob } | { id: number; error: string }
+
+export interface CompressionWorkerPool {
+  readonly size: number
+  compress: (blob: Blob, format: CompressionFormat, quality: number) => Promise<Blob>
+  close: () => void // terminate the workers once queued tiles are done
+  terminate: () => void // terminate the workers now, rejecting queued tiles
+}
+
+interface CompressionTask {
+  request: CompressionWorkerRequest
+  resolve: (blob: Blob) => void
+  reject: (error: Error) => void
+}
+
+// More workers than this rarely help: tiles also wait for the network and IndexedDB
+const MAX_DEFAULT_POOL_SIZE = 4
+
+let sharedPool: CompressionWorkerPool | null = null
+
+/**
+ * Check if tiles can be compressed in workers
+ * Without OffscreenCanvas (e.g. Safari < 16.4) tiles are compressed on the main thread
+ */
+export function isWorkerCompressionSupported(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap !== 'undefined'
+  )
+}
+
+/**
+ * Default number of compression workers: one core is left for the main thread
+ */
+export function getDefaultWorkerPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 2
+  return Math.max(1, Math.min(MAX_DEFAULT_POOL_SIZE, cores - 1))
+}
+
+function createCompressionWorker(): Worker {
+  return new Worker(new URL('../workers/tileCompression.worker.ts', import.meta.url), { type: 'module' })
+}
+
+/**
+ * Create a pool of up to `size` compression workers
+ * Workers are started on demand and each compresses one tile at a time; further tiles queue up
+ * A crashed worker fails its tile and is replaced
+ */
+export function createCompressionWorkerPool(
+  size: number,
+  createWorker: () => Worker = createCompressionWorker
+): CompressionWorkerPool {
+  const poolSize = Math.max(1, Math.floor(size))
+  const workers: Worker[] = []
+  const idle: Worker[] = []
+  const running = new Map<Worker, CompressionTask>()
+  const queue: CompressionTask[] = []
+  let nextId = 0
+  let closing = false
+
+  function spawn(): Worker {
+    const worker = createWorker()
+    worker.onmessage = (event: MessageEvent<CompressionWorkerResponse>) => {
+      const response = event.data
+      settle(worker, 'error' in response ? new Error(response.error) : response.blob)
+      idle.push(worker)
+      dispatch()
+    }
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault()
+      settle(worker, new Error(`Compression worker failed: ${event.message}`))
+      // Replace the worker, its state is unknown
+      worker.terminate()
+      workers.splice(workers.indexOf(worker), 1)
+      dispatch()
+    }
+    workers.push(worker)
+    return worker
+  }
+
+  function settle(worker: Worker, result: Blob | Error): void {
+    const task = running.get(worker)
+    running.delete(worker)
+    if (!task) return
+    if (result instanceof Error) {
+      task.reject(result)
+    } else {
+      task.resolve(result)
+    }
+  }
+
+  function dispatch(): void {
+    while (queue.length > 0) {
+      const worker = idle.pop() ?? (workers.length < poolSize ? spawn() : undefined)
+      if (!worker) return
+
+      const task = queue.shift()!
+      running.set(worker, task)
+      worker.postMessage(task.request)
+    }
+
+    if (closing && running.size === 0) {
+      terminate()
+    }
+  }
+
+  function compress(blob: Blob, format: CompressionFormat, quality: number): Promise<Blob> {
+    if (closing) {
+      return Promise.reject(new Error('Compression worker pool is closed'))
+    }
+    return new Promise((resolve, reject) => {
+      queue.push({ request: { id: nextId++, blob, format, quality }, resolve, reject })
+      dispatch()
+    })
+  }
+
+  function close(): void {
+    closing = true
+    dispatch()
+  }
+
+  function terminate(): void {
+    closing = true
+    for (const worker of workers) {
+      worker.terminate()
+    }
+    const error = new Error('Compression worker pool terminated')
+    for (const task of [...running.values(), ...queue]) {
+      task.reject(error)
+    }
+    workers.length = 0
+    idle.length = 0
+    running.clear()
+    queue.length = 0
+  }
+
+  return { size: poolSize, compress, close, terminate }
+}
+
+/**
+ * Get the shared compression worker pool, sized by the compression settings
+ * When the configured size changes, the previous pool finishes its queued tiles and shuts down
+ */
+export async function getCompressionWorkerPool(): Promise<CompressionWorkerPool> {
+  const { workerPoolSize } = await getCompressionSettings()
+  const size = workerPoolSize ?? getDefaultWorkerPoolSize()
+
+  if (!sharedPool || sharedPool.size !== size) {
+    sharedPool?.close()
+    sharedPool = createCompressionWorkerPool(size)
+  }
+  return sharedPool
+}
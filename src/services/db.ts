@@ -0,0 +1,479 @@
+import type { DownloadedArea, DownloadJob, TileMetadata } from '@/types'
+import { parseTileKey, type TileStorageData } from './tileDownloader'
+import type { TileOwnersRecord } from './tileOwnership'
+import type { BrowseCacheEntry } from './browseCache'
+import type { JobTilesChunk } from './downloadJobs'
+
+/**
+ * IndexedDB schema: one database with an object store per kind of record, so listing
+ * areas or jobs no longer walks the keys of every stored tile.
+ *
+ * Data written before the schema existed lives in idb-keyval's default store under key
+ * prefixes (tile_, tile_meta_, owners_, area_, job_); it is moved over once, on first open.
+ * That store is read with the raw IndexedDB API, so idb-keyval itself is no dependency anymore.
+ */
+
+export const DB_NAME = 'offline-map'
+export const DB_VERSION = 4
+
+// Database and store of idb-keyval, used before the schema existed
+const LEGACY_DB_NAME = 'keyval-store'
+const LEGACY_STORE_NAME = 'keyval'
+const LEGACY_MIGRATION_KEY = 'legacy_migration_done'
+const MIGRATION_BATCH_SIZE = 500
+
+export interface DatabaseSchema {
+  tiles: TileStorageData // keyed by tile key (tile_z_x_y, tile_<sourceId>_z_x_y)
+  tileMeta: TileMetadata // keyed by tileKey
+  tileOwners: TileOwnersRecord // keyed by tileKey
+  areas: DownloadedArea // keyed by id
+  jobs: DownloadJob // keyed by id
+  settings: unknown // keyed by setting name
+  browseCache: BrowseCacheEntry // keyed by tileKey
+  jobTiles: JobTilesChunk // keyed by an auto-incremented number
+}
+
+export type StoreName = keyof DatabaseSchema
+
+export const STORE_NAMES: StoreName[] = [
+  'tiles',
+  'tileMeta',
+  'tileOwners',
+  'areas',
+  'jobs',
+  'settings',
+  'browseCache',
+  'jobTiles',
+]
+
+// Index of owned tiles per area (multi-entry over the owning area IDs)
+export const OWNERS_BY_AREA_INDEX = 'byArea'
+// Index of browse cache entries by last access, oldest first
+export const BROWSE_CACHE_BY_ACCESS_INDEX = 'byLastAccess'
+// Index of the tile key chunks of each download job
+export const JOB_TILES_BY_JOB_INDEX = 'byJob'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Resolve once a transaction has committed
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'))
+  })
+}
+
+// Job records before version 3 listed the keys of their stored tiles
+interface LegacyJobRecord extends Omit<DownloadJob, 'completedTileCount' | 'failedTileCount'> {
+  completedTiles?: string[]
+  failedTiles?: string[]
+}
+
+/**
+ * Move the tile keys a job record lists into a jobTiles chunk, keeping their counts
+ */
+function splitJobRecord(legacy: LegacyJobRecord): { job: DownloadJob; chunk: JobTilesChunk | null } {
+  const { completedTiles = [], failedTiles = [], ...rest } = legacy
+  const job: DownloadJob = { ...rest, completedTileCount: completedTiles.length, failedTileCount: failedTiles.length }
+  return { job, chunk: completedTiles.length > 0 ? { jobId: job.id, tileKeys: completedTiles } : null }
+}
+
+/**
+ * Create the object stores and indexes, step by step from the version the database had
+ */
+function upgradeDatabase(db: IDBDatabase, oldVersion: number, transaction: IDBTransaction): void {
+  if (oldVersion < 1) {
+    db.createObjectStore('tiles')
+    db.createObjectStore('tileMeta', { keyPath: 'tileKey' })
+    const owners = db.createObjectStore('tileOwners', { keyPath: 'tileKey' })
+    owners.createIndex(OWNERS_BY_AREA_INDEX, 'areaIds', { multiEntry: true })
+    db.createObjectStore('areas', { keyPath: 'id' })
+    db.createObjectStore('jobs', { keyPath: 'id' })
+    db.createObjectStore('settings')
+  }
+  if (oldVersion < 2) {
+    const browseCache = db.createObjectStore('browseCache', { keyPath: 'tileKey' })
+    browseCache.createIndex(BROWSE_CACHE_BY_ACCESS_INDEX, 'lastAccess')
+  }
+  if (oldVersion < 3) {
+    const jobTiles = db.createObjectStore('jobTiles', { keyPath: 'id', autoIncrement: true })
+    jobTiles.createIndex(JOB_TILES_BY_JOB_INDEX, 'jobId')
+
+    const request = transaction.objectStore('jobs').openCursor()
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) return
+      const { job, chunk } = splitJobRecord(cursor.value)
+      cursor.update(job)
+      if (chunk) jobTiles.put(chunk)
+      cursor.continue()
+    }
+  }
+  if (oldVersion < 4) {
+    // Index of tiles per source and zoom level, never queried but updated on every tile write
+    const tiles = transaction.objectStore('tiles')
+    if (tiles.indexNames.contains('bySourceZoom')) tiles.deleteIndex('bySourceZoom')
+  }
+}
+
+function openConnection(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = (event) => upgradeDatabase(request.result, event.oldVersion, request.transaction!)
+    request.onsuccess = () => {
+      const db = request.result
+      // Let other tabs upgrade or delete the database; the next access reopens it
+      db.onversionchange = () => {
+        db.close()
+        dbPromise = null
+      }
+      resolve(db)
+    }
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Open the legacy idb-keyval database, or resolve null if it was never created
+ */
+async function openLegacyDatabase(): Promise<IDBDatabase | null> {
+  // Listing databases avoids opening (and creating) one; older browsers lack it
+  if (typeof indexedDB.databases === 'function') {
+    const databases = await indexedDB.databases()
+    if (!databases.some((database) => database.name === LEGACY_DB_NAME && database.version)) {
+      return null
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(LEGACY_DB_NAME)
+    // An upgrade means the database did not exist: abort, so it is not created
+    request.onupgradeneeded = () => request.transaction?.abort()
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      if (request.error?.name === 'AbortError') {
+        resolve(null)
+      } else {
+        reject(request.error)
+      }
+    }
+  })
+}
+
+interface MigratedRecord {
+  store: StoreName
+  key?: string // for stores without a key path
+  value: unknown
+}
+
+/**
+ * Map an entry of the legacy key layout to its store(s)
+ */
+function migrateLegacyEntry(key: string, value: unknown): MigratedRecord[] {
+  if (key.startsWith('tile_meta_')) {
+    return [{ store: 'tileMeta', value }]
+  }
+  if (key.startsWith('owners_')) {
+    return [{ store: 'tileOwners', value: { tileKey: key.slice('owners_'.length), areaIds: value } }]
+  }
+  if (key.startsWith('area_')) {
+    return [{ store: 'areas', value }]
+  }
+  if (key.startsWith('job_')) {
+    const { job, chunk } = splitJobRecord(value as LegacyJobRecord)
+    return chunk ? [{ store: 'jobs', value: job }, { store: 'jobTiles', value: chunk }] : [{ store: 'jobs', value: job }]
+  }
+
+  const parsed = parseTileKey(key)
+  if (parsed) {
+    return [{ store: 'tiles', key, value: { ...(value as object), sourceId: parsed.sourceId, z: parsed.tile.z } }]
+  }
+  return [{ store: 'settings', key, value }]
+}
+
+/**
+ * Move data of the legacy idb-keyval store into the object stores (runs once)
+ * Entries are copied in batches; the legacy database is deleted once all are copied
+ */
+async function migrateLegacyStore(db: IDBDatabase): Promise<void> {
+  const done = await promisifyRequest(
+    db.transaction('settings').objectStore('settings').get(LEGACY_MIGRATION_KEY)
+  )
+  if (done) {
+    return
+  }
+
+  const legacy = await openLegacyDatabase()
+  if (legacy) {
+    try {
+      if (legacy.objectStoreNames.contains(LEGACY_STORE_NAME)) {
+        const legacyKeys = await promisifyRequest(
+          legacy.transaction(LEGACY_STORE_NAME).objectStore(LEGACY_STORE_NAME).getAllKeys()
+        )
+
+        for (let i = 0; i < legacyKeys.length; i += MIGRATION_BATCH_SIZE) {
+          const batchKeys = legacyKeys.slice(i, i + MIGRATION_BATCH_SIZE).filter((key) => typeof key === 'string')
+          const legacyStore = legacy.transaction(LEGACY_STORE_NAME).objectStore(LEGACY_STORE_NAME)
+          const values = await Promise.all(batchKeys.map((key) => promisifyRequest(legacyStore.get(key))))
+
+          const transaction = db.transaction(STORE_NAMES, 'readwrite')
+          batchKeys.forEach((key, index) => {
+            for (const record of migrateLegacyEntry(key as string, values[index])) {
+              const store = transaction.objectStore(record.store)
+              if (record.key === undefined) {
+                store.put(record.value)
+              } else {
+                store.put(record.value, record.key)
+              }
+            }
+          })
+          await transactionDone(transaction)
+        }
+      }
+    } finally {
+      legacy.close()
+    }
+  }
+
+  const transaction = db.transaction('settings', 'readwrite')
+  transaction.objectStore('settings').put(true, LEGACY_MIGRATION_KEY)
+  await transactionDone(transaction)
+
+  if (legacy) {
+    // Not awaited: deletion waits for other connections (e.g. other tabs) to close
+    indexedDB.deleteDatabase(LEGACY_DB_NAME)
+  }
+}
+
+/**
+ * Open the database, creating the schema and migrating legacy data on first use
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= openConnection()
+    .then(async (db) => {
+      await migrateLegacyStore(db)
+      return db
+    })
+    .catch((error) => {
+      dbPromise = null
+      throw error
+    })
+  return dbPromise
+}
+
+/**
+ * Run requests on several stores in one transaction
+ * Resolves with the result of `run` once the transaction has committed; if `run` throws,
+ * the transaction is aborted so none of its requests take effect
+ */
+export async function withStores<T>(
+  storeNames: StoreName[],
+  mode: IDBTransactionMode,
+  run: (transaction: IDBTransaction) => T
+): Promise<T> {
+  const db = await openDatabase()
+  const transaction = db.transaction(storeNames, mode)
+  let result: T
+  try {
+    result = run(transaction)
+  } catch (error) {
+    transaction.abort()
+    throw error
+  }
+  await transactionDone(transaction)
+  return result
+}
+
+/**
+ * Run requests on a store in one transaction
+ * Resolves with the result of `run` once the transaction has committed
+ */
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => T
+): Promise<T> {
+  return withStores([storeName], mode, (transaction) => run(transaction.objectStore(storeName)))
+}
+
+/**
+ * Get a record by key
+ */
+export async function getRecord<S extends StoreName>(
+  storeName: S,
+  key: string
+): Promise<DatabaseSchema[S] | undefined> {
+  const db = await openDatabase()
+  return promisifyRequest(db.transaction(storeName).objectStore(storeName).get(key))
+}
+
+/**
+ * Get records by key, in the order of the keys (undefined for missing records)
+ */
+export async function getRecords<S extends StoreName>(
+  storeName: S,
+  keys: string[]
+): Promise<(DatabaseSchema[S] | undefined)[]> {
+  if (keys.length === 0) return []
+  const db = await openDatabase()
+  const store = db.transaction(storeName).objectStore(storeName)
+  return Promise.all(keys.map((key) => promisifyRequest<DatabaseSchema[S] | undefined>(store.get(key))))
+}
+
+/**
+ * Get all records of a store
+ */
+export async function getAllRecords<S extends StoreName>(storeName: S): Promise<DatabaseSchema[S][]> {
+  const db = await openDatabase()
+  return promisifyRequest(db.transaction(storeName).objectStore(storeName).getAll())
+}
+
+/**
+ * Get all keys of a store
+ */
+export async function getAllKeys(storeName: StoreName): Promise<string[]> {
+  const db = await openDatabase()
+  return (await promisifyRequest(db.transaction(storeName).objectStore(storeName).getAllKeys())) as string[]
+}
+
+/**
+ * Count the records of a store
+ */
+export async function countRecords(storeName: StoreName): Promise<number> {
+  const db = await openDatabase()
+  return promisifyRequest(db.transaction(storeName).objectStore(storeName).count())
+}
+
+/**
+ * Get the primary keys of the records matching an index query
+ */
+export async function getKeysFromIndex(
+  storeName: StoreName,
+  indexName: string,
+  query: IDBValidKey | IDBKeyRange
+): Promise<string[]> {
+  const db = await openDatabase()
+  const index = db.transaction(storeName).objectStore(storeName).index(indexName)
+  return (await promisifyRequest(index.getAllKeys(query))) as string[]
+}
+
+/**
+ * Get the records of a store in the order of an index
+ */
+export async function getRecordsFromIndex<S extends StoreName>(
+  storeName: S,
+  indexName: string,
+  query?: IDBValidKey | IDBKeyRange
+): Promise<DatabaseSchema[S][]> {
+  const db = await openDatabase()
+  const index = db.transaction(storeName).objectStore(storeName).index(indexName)
+  return promisifyRequest(index.getAll(query))
+}
+
+/**
+ * Store a record; `key` is required for stores without a key path (tiles, settings)
+ */
+export async function putRecord<S extends StoreName>(
+  storeName: S,
+  value: DatabaseSchema[S],
+  key?: string
+): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => {
+    store.put(value, key)
+  })
+}
+
+/**
+ * Store records in one transaction
+ */
+export async function putRecords<S extends StoreName>(storeName: S, values: DatabaseSchema[S][]): Promise<void> {
+  if (values.length === 0) return
+  await withStore(storeName, 'readwrite', (store) => {
+    for (const value of values) {
+      store.put(value)
+    }
+  })
+}
+
+/**
+ * Read, modify and write a record in one transaction
+ */
+export async function updateRecord<S extends StoreName>(
+  storeName: S,
+  key: string,
+  updater: (current: DatabaseSchema[S] | undefined) => DatabaseSchema[S]
+): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => {
+    const request = store.get(key)
+    request.onsuccess = () => {
+      store.put(updater(request.result), store.keyPath === null ? key : undefined)
+    }
+  })
+}
+
+/**
+ * Delete a record by key
+ */
+export async function deleteRecord(storeName: StoreName, key: string): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => {
+    store.delete(key)
+  })
+}
+
+/**
+ * Delete records by key in one transaction
+ */
+export async function deleteRecords(storeName: StoreName, keys: string[]): Promise<void> {
+  if (keys.length === 0) return
+  await withStore(storeName, 'readwrite', (store) => {
+    for (const key of keys) {
+      store.delete(key)
+    }
+  })
+}
+
+/**
+ * Delete all records of all stores
+ */
+export async function clearDatabase(): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction(STORE_NAMES, 'readwrite')
+  for (const storeName of STORE_NAMES) {
+    transaction.objectStore(storeName).clear()
+  }
+  await transactionDone(transaction)
+}
+
+/**
+ * Get a setting by name
+ */
+export async function getSetting<T>(name: string): Promise<T | undefined> {
+  return (await getRecord('settings', name)) as T | undefined
+}
+
+/**
+ * Store a setting by name
+ */
+export async function putSetting<T>(name: string, value: T): Promise<void> {
+  await putRecord('settings', value, name)
+}
+
+/**
+ * Read, modify and write a setting in one transaction
+ */
+export async function updateSetting<T>(name: string, updater: (current: T | undefined) => T): Promise<void> {
+  await updateRecord('settings', name, (current) => updater(current as T | undefined))
+}
@@ -0,0 +1,158 @@
+import { getSetting, putSetting } from './db'
+import type { DeviceConditions, DownloadConditionSettings } from '@/types'
+
+/**
+ * Download conditions: large downloads only run on a suitable connection and power source
+ *
+ * Uses the Network Information API (type, effectiveType, saveData) and the Battery Status API
+ * where the browser has them. A condition the browser cannot report is not enforced,
+ * so a download never waits for something that can't be observed.
+ */
+
+const SETTINGS_KEY = 'download_condition_settings'
+
+const DEFAULT_SETTINGS: DownloadConditionSettings = {
+  wifiOnly: true,
+  chargingOnly: false,
+  respectDataSaver: true,
+  largeDownloadTiles: 500,
+}
+
+// Connection types that are usually not billed per byte
+const UNMETERED_CONNECTION_TYPES = ['wifi', 'ethernet']
+// Connection types that don't tell whether the connection is metered
+const UNKNOWN_CONNECTION_TYPES = ['unknown', 'other', 'none']
+// Effective types too slow for bulk downloads, used when the connection type is unknown
+const SLOW_EFFECTIVE_TYPES = ['slow-2g', '2g']
+
+// Neither API is in the TypeScript DOM lib, and both are missing in Firefox and Safari
+interface NetworkInformationLike extends EventTarget {
+  type?: string
+  effectiveType?: string
+  saveData?: boolean
+}
+
+interface BatteryManagerLike extends EventTarget {
+  charging: boolean
+  level: number
+}
+
+interface NavigatorWithConditions {
+  connection?: NetworkInformationLike
+  getBattery?: () => Promise<BatteryManagerLike>
+}
+
+export interface DownloadConditionCheck {
+  waitingReason: string | null // why a large download has to wait, null if it may run
+  unavailable: string[] // conditions that can't be checked in this browser
+}
+
+function getConnection(): NetworkInformationLike | undefined {
+  return (navigator as unknown as NavigatorWithConditions).connection
+}
+
+async function getBattery(): Promise<BatteryManagerLike | null> {
+  const nav = navigator as unknown as NavigatorWithConditions
+  if (!nav.getBattery) return null
+  try {
+    return await nav.getBattery()
+  } catch {
+    // Blocked by a permissions policy
+    return null
+  }
+}
+
+/**
+ * Get download condition settings from IndexedDB
+ */
+export async function getDownloadConditionSettings(): Promise<DownloadConditionSettings> {
+  const settings = await getSetting<DownloadConditionSettings>(SETTINGS_KEY)
+  return { ...DEFAULT_SETTINGS, ...settings }
+}
+
+/**
+ * Update download condition settings in IndexedDB
+ */
+export async function setDownloadConditionSettings(settings: DownloadConditionSettings): Promise<void> {
+  await putSetting(SETTINGS_KEY, settings)
+}
+
+/**
+ * Read the current network and battery state
+ */
+export async function readDeviceConditions(): Promise<DeviceConditions> {
+  const connection = getConnection()
+  const battery = await getBattery()
+
+  return {
+    connectionType: connection?.type,
+    effectiveType: connection?.effectiveType,
+    saveData: connection?.saveData,
+    charging: battery?.charging,
+    batteryLevel: battery?.level,
+  }
+}
+
+/**
+ * Check whether a download of the given size may run under the current conditions
+ */
+export function checkDownloadConditions(
+  tileCount: number,
+  conditions: DeviceConditions,
+  settings: DownloadConditionSettings
+): DownloadConditionCheck {
+  const unavailable: string[] = []
+  const reasons: string[] = []
+  const connectionType = conditions.connectionType
+
+  if (settings.wifiOnly) {
+    if (connectionType === undefined || UNKNOWN_CONNECTION_TYPES.includes(connectionType)) {
+      if (conditions.effectiveType && SLOW_EFFECTIVE_TYPES.includes(conditions.effectiveType)) {
+        reasons.push(`a faster connection (currently ${conditions.effectiveType})`)
+      } else {
+        unavailable.push('connection type (Wi-Fi only is not enforced)')
+      }
+    } else if (!UNMETERED_CONNECTION_TYPES.includes(connectionType)) {
+      reasons.push(`Wi-Fi (currently on ${connectionType})`)
+    }
+  }
+
+  if (settings.respectDataSaver) {
+    if (conditions.saveData === undefined) {
+      unavailable.push('data saver')
+    } else if (conditions.saveData) {
+      reasons.push('data saver to be turned off')
+    }
+  }
+
+  if (settings.chargingOnly) {
+    if (conditions.charging === undefined) {
+      unavailable.push('battery status (charging only is not enforced)')
+    } else if (!conditions.charging) {
+      reasons.push('charging')
+    }
+  }
+
+  const isLarge = tileCount >= settings.largeDownloadTiles
+  return {
+    waitingReason: isLarge && reasons.length > 0 ? `Waiting for ${reasons.join(', ')}` : null,
+    unavailable,
+  }
+}
+
+/**
+ * Call `onChange` whenever the connection or charging state changes
+ * @returns Function that stops watching
+ */
+export async function watchDeviceConditions(onChange: () => void): Promise<() => void> {
+  const connection = getConnection()
+  const battery = await getBattery()
+
+  connection?.addEventListener('change', onChange)
+  battery?.addEventListener('chargingchange', onChange)
+
+  return () => {
+    connection?.removeEventListener('change', onChange)
+    battery?.removeEventListener('chargingchange', onChange)
+  }
+}
@@ -0,0 +1,158 @@
+import { getAllRecords, getRecord, getRecordsFromIndex, JOB_TILES_BY_JOB_INDEX, putRecord, withStores } from './db'
+import type { BoundingBox, DownloadJob, TileCoord } from '@/types'
+import { countDownloadTiles, filterTileKeysInDownload, iterateDownloadList } from './tileCalculator'
+import { DEFAULT_TILE_SOURCE_ID, getRecordSourceId } from './tileSources'
+
+/**
+ * Keys of tiles a job stored, appended as one chunk per checkpoint
+ * Rewriting the whole list on every checkpoint would grow quadratically with the job
+ */
+export interface JobTilesChunk {
+  id?: number // assigned by the store
+  jobId: string // indexed, see JOB_TILES_BY_JOB_INDEX
+  tileKeys: string[]
+}
+
+/**
+ * Create a new download job record (not yet persisted)
+ * The job ID doubles as the ID of the area created on completion
+ */
+export function createDownloadJob(
+  bbox: BoundingBox,
+  name: string,
+  baseZoom: number,
+  additionalZoomLevels: number,
+  tileUrlTemplate: string,
+  sourceId: string = DEFAULT_TILE_SOURCE_ID
+): DownloadJob {
+  const now = new Date().toISOString()
+  return {
+    id: crypto.randomUUID(),
+    name,
+    bbox: { ...bbox },
+    baseZoom,
+    additionalZoomLevels,
+    tileUrlTemplate,
+    sourceId,
+    completedTileCount: 0,
+    failedTileCount: 0,
+    bytesDownloaded: 0,
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * Save download job to IndexedDB
+ */
+export async function saveDownloadJob(job: DownloadJob): Promise<void> {
+  const jobToStore: DownloadJob = {
+    ...job,
+    // Make sure nested objects are no proxies, which would fail
+    bbox: { ...job.bbox },
+    updatedAt: new Date().toISOString(),
+  }
+
+  await putRecord('jobs', jobToStore)
+}
+
+/**
+ * Save a job checkpoint: the job record and the keys of tiles stored since the last one,
+ * in one transaction
+ */
+export async function saveJobProgress(job: DownloadJob, newTileKeys: string[]): Promise<void> {
+  const jobToStore: DownloadJob = { ...job, bbox: { ...job.bbox }, updatedAt: new Date().toISOString() }
+  await withStores(['jobs', 'jobTiles'], 'readwrite', (transaction) => {
+    transaction.objectStore('jobs').put(jobToStore)
+    if (newTileKeys.length > 0) {
+      transaction.objectStore('jobTiles').put({ jobId: job.id, tileKeys: [...newTileKeys] })
+    }
+  })
+}
+
+/**
+ * Get the keys of all tiles a job stored so far
+ */
+export async function getJobTileKeys(jobId: string): Promise<string[]> {
+  const chunks = await getRecordsFromIndex('jobTiles', JOB_TILES_BY_JOB_INDEX, jobId)
+  return chunks.flatMap((chunk) => chunk.tileKeys)
+}
+
+/**
+ * Get a download job by ID
+ */
+export async function getDownloadJob(jobId: string): Promise<DownloadJob | null> {
+  return (await getRecord('jobs', jobId)) || null
+}
+
+/**
+ * Get all persisted download jobs in queue order
+ * Jobs without a queue position keep their creation order
+ */
+export async function getAllDownloadJobs(): Promise<DownloadJob[]> {
+  const jobs = await getAllRecords('jobs')
+  return jobs.sort(
+    (a, b) => (a.queuePosition ?? 0) - (b.queuePosition ?? 0) || a.createdAt.localeCompare(b.createdAt)
+  )
+}
+
+/**
+ * Get the given tile keys that an unfinished download job covers
+ * Jobs own no tiles until their area is saved, yet rely on the tiles they skipped as
+ * already offline and on the ones they stored, so these must not be deleted meanwhile.
+ * `exceptJobId` leaves out one job, e.g. the one being rolled back
+ */
+export async function getDownloadingTileKeys(tileKeys: string[], exceptJobId?: string): Promise<Set<string>> {
+  const downloading = new Set<string>()
+  for (const job of await getAllRecords('jobs')) {
+    if (job.id === exceptJobId) continue
+    const keys = filterTileKeysInDownload(
+      tileKeys,
+      job.bbox,
+      job.baseZoom,
+      job.additionalZoomLevels,
+      getRecordSourceId(job)
+    )
+    for (const key of keys) downloading.add(key)
+  }
+  return downloading
+}
+
+/**
+ * Delete a download job record and the keys of its stored tiles
+ */
+export async function deleteDownloadJob(jobId: string): Promise<void> {
+  await withStores(['jobs', 'jobTiles'], 'readwrite', (transaction) => {
+    transaction.objectStore('jobs').delete(jobId)
+    const jobTiles = transaction.objectStore('jobTiles')
+    const request = jobTiles.index(JOB_TILES_BY_JOB_INDEX).getAllKeys(jobId)
+    request.onsuccess = () => {
+      for (const key of request.result) jobTiles.delete(key)
+    }
+  })
+}
+
+/**
+ * Iterate all tiles of a job, zoom level by zoom level
+ */
+export function iterateJobTiles(job: DownloadJob): Generator<TileCoord> {
+  return iterateDownloadList(job.bbox, job.baseZoom, job.additionalZoomLevels)
+}
+
+/**
+ * Count the tiles of a job without listing them
+ */
+export function countJobTiles(job: DownloadJob): number {
+  return countDownloadTiles(job.bbox, job.baseZoom, job.additionalZoomLevels)
+}
+
+/**
+ * Iterate the tiles of a job that are not stored yet (pending and failed tiles)
+ */
+export async function iterateRemainingJobTiles(job: DownloadJob): Promise<Generator<TileCoord>> {
+  const completed = new Set(await getJobTileKeys(job.id))
+  return iterateDownloadList(job.bbox, job.baseZoom, job.additionalZoomLevels, {
+    excludeTileKeys: completed,
+    sourceId: getRecordSourceId(job),
+  })
+}
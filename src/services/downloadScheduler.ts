@@ -0,0 +1,164 @@
+/**
+ * Scheduling primitives for bulk tile downloads:
+ * bounded concurrency, semaphores and per-host request rate limiting
+ */
+
+/**
+ * Default number of tiles processed in parallel (browsers allow ~6 connections per host)
+ */
+export const DEFAULT_MAX_CONCURRENCY = 6
+
+/**
+ * Default cap on requests per second sent to a single tile host
+ */
+export const DEFAULT_REQUESTS_PER_SECOND = 20
+
+export interface HostRateLimiter {
+  acquire: (host: string) => Promise<void>
+}
+
+export interface Semaphore {
+  run: <T>(task: () => Promise<T>, signal?: AbortSignal) => Promise<T>
+}
+
+/**
+ * Sleep utility for delays
+ * Rejects early when the optional abort signal fires
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'))
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Create a token bucket rate limiter with one bucket per host
+ * Each host may send up to `burst` requests at once, refilled at `requestsPerSecond`
+ * A non-positive or infinite rate disables limiting
+ */
+export function createHostRateLimiter(
+  requestsPerSecond: number,
+  burst: number = requestsPerSecond
+): HostRateLimiter {
+  const capacity = Math.max(1, burst)
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>()
+
+  async function acquire(host: string): Promise<void> {
+    if (!Number.isFinite(requestsPerSecond) || requestsPerSecond <= 0) {
+      return
+    }
+
+    for (;;) {
+      const now = Date.now()
+      const bucket = buckets.get(host) ?? { tokens: capacity, updatedAt: now }
+
+      // Refill tokens for the time elapsed since the last request
+      bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * requestsPerSecond)
+      bucket.updatedAt = now
+      buckets.set(host, bucket)
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1
+        return
+      }
+
+      // Wait until the next token becomes available
+      await sleep(Math.ceil(((1 - bucket.tokens) / requestsPerSecond) * 1000))
+    }
+  }
+
+  return { acquire }
+}
+
+/**
+ * Create a semaphore letting at most `permits` tasks run at the same time
+ * Waiting tasks start in order; aborting `signal` while a task waits rejects without running it
+ */
+export function createSemaphore(permits: number): Semaphore {
+  const capacity = Math.max(1, permits)
+  const waiting: (() => void)[] = []
+  let running = 0
+
+  function acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('Aborted', 'AbortError'))
+    }
+    if (running < capacity) {
+      running++
+      return Promise.resolve()
+    }
+
+    return new Promise((resolve, reject) => {
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }
+      const onAbort = () => {
+        waiting.splice(waiting.indexOf(start), 1)
+        reject(new DOMException('Aborted', 'AbortError'))
+      }
+      waiting.push(start)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  // A released permit passes straight to the next waiting task
+  function release(): void {
+    const next = waiting.shift()
+    if (next) {
+      next()
+    } else {
+      running--
+    }
+  }
+
+  return {
+    run: async (task, signal) => {
+      await acquire(signal)
+      try {
+        return await task()
+      } finally {
+        release()
+      }
+    },
+  }
+}
+
+/**
+ * Process items with at most `maxConcurrency` workers running at the same time
+ * Items are pulled from the iterable lazily, so nothing is started before a worker is free
+ * When `shouldStop` returns true, no further items are started (running ones finish)
+ */
+export async function runWithConcurrency<T>(
+  items: Iterable<T>,
+  maxConcurrency: number,
+  worker: (item: T) => Promise<void>,
+  shouldStop?: () => boolean
+): Promise<void> {
+  const iterator = items[Symbol.iterator]()
+
+  async function lane(): Promise<void> {
+    for (;;) {
+      if (shouldStop && shouldStop()) return
+      const next = iterator.next()
+      if (next.done) return
+      await worker(next.value)
+    }
+  }
+
+  const laneCount = Math.max(1, Math.floor(maxConcurrency))
+  await Promise.all(Array.from({ length: laneCount }, () => lane()))
+}
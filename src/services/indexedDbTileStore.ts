@@ -0,0 +1,74 @@
+import type { TileMetadata } from '@/types'
+import { getAllKeys, getRecord, getRecords, withStore, withStores } from './db'
+import type { TileStorageData } from './tileDownloader'
+import type { TileStore, TileStoreEntry, TileStoreStats } from './tileStore'
+
+/**
+ * IndexedDB tile store: tiles are records of the tiles object store, keyed by tile key
+ */
+export function createIndexedDbTileStore(): TileStore {
+  async function putMany(entries: TileStoreEntry[]): Promise<void> {
+    if (entries.length === 0) return
+    await withStore('tiles', 'readwrite', (store) => {
+      for (const { key, record } of entries) {
+        store.put(record, key)
+      }
+    })
+  }
+
+  async function putManyWithMetadata(entries: TileStoreEntry[], metadata: TileMetadata[]): Promise<void> {
+    if (entries.length === 0 && metadata.length === 0) return
+    await withStores(['tiles', 'tileMeta'], 'readwrite', (transaction) => {
+      const tiles = transaction.objectStore('tiles')
+      for (const { key, record } of entries) {
+        tiles.put(record, key)
+      }
+      const tileMeta = transaction.objectStore('tileMeta')
+      for (const record of metadata) {
+        tileMeta.put(record)
+      }
+    })
+  }
+
+  async function deleteMany(keys: string[]): Promise<void> {
+    if (keys.length === 0) return
+    await withStore('tiles', 'readwrite', (store) => {
+      for (const key of keys) {
+        store.delete(key)
+      }
+    })
+  }
+
+  async function stats(): Promise<TileStoreStats> {
+    const result: TileStoreStats = { tileCount: 0, bytes: 0 }
+    await withStore('tiles', 'readonly', (store) => {
+      const request = store.openCursor()
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor) return
+        const record = cursor.value as TileStorageData
+        result.tileCount++
+        result.bytes += record.data?.size ?? 0
+        cursor.continue()
+      }
+    })
+    return result
+  }
+
+  return {
+    backend: 'indexeddb',
+    get: (key) => getRecord('tiles', key),
+    put: (key, record) => putMany([{ key, record }]),
+    delete: (key) => deleteMany([key]),
+    list: () => getAllKeys('tiles'),
+    stats,
+    getMany: (keys) => getRecords('tiles', keys),
+    putMany,
+    putManyWithMetadata,
+    deleteMany,
+    clear: () =>
+      withStore('tiles', 'readwrite', (store) => {
+        store.clear()
+      }),
+  }
+}
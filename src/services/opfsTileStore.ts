@@ -0,0 +1,118 @@
+import type { TileStorageData } from './tileDownloader'
+import type { TileStore, TileStoreEntry, TileStoreStats } from './tileStore'
+
+/**
+ * Origin Private File System tile store: one file per tile in the tiles directory
+ *
+ * File layout: header length (uint32, little endian), JSON header with the record fields
+ * and the blob type, then the tile bytes. Reads slice the file, so the tile is not copied.
+ */
+
+const TILES_DIRECTORY = 'tiles'
+const HEADER_LENGTH_BYTES = 4
+
+type TileFileHeader = Omit<TileStorageData, 'data'> & { type: string }
+
+// keys() is declared in lib.dom.asynciterable, which the project does not include
+interface IterableDirectoryHandle extends FileSystemDirectoryHandle {
+  keys(): AsyncIterable<string>
+}
+
+function isNotFoundError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'NotFoundError'
+}
+
+function encodeTileFile(record: TileStorageData): Blob {
+  const { data, ...fields } = record
+  const header = new TextEncoder().encode(JSON.stringify({ ...fields, type: data.type } satisfies TileFileHeader))
+  const length = new Uint8Array(HEADER_LENGTH_BYTES)
+  new DataView(length.buffer).setUint32(0, header.byteLength, true)
+  return new Blob([length, header, data as Blob])
+}
+
+async function decodeTileFile(file: File): Promise<TileStorageData> {
+  const length = new DataView(await file.slice(0, HEADER_LENGTH_BYTES).arrayBuffer()).getUint32(0, true)
+  const headerEnd = HEADER_LENGTH_BYTES + length
+  const { type, ...fields } = JSON.parse(await file.slice(HEADER_LENGTH_BYTES, headerEnd).text()) as TileFileHeader
+  return { ...fields, data: file.slice(headerEnd, file.size, type) }
+}
+
+export function createOpfsTileStore(): TileStore {
+  let directory: Promise<FileSystemDirectoryHandle> | null = null
+
+  function getDirectory(): Promise<FileSystemDirectoryHandle> {
+    directory ??= navigator.storage
+      .getDirectory()
+      .then((root) => root.getDirectoryHandle(TILES_DIRECTORY, { create: true }))
+    return directory
+  }
+
+  async function get(key: string): Promise<TileStorageData | undefined> {
+    try {
+      const handle = await (await getDirectory()).getFileHandle(key)
+      return await decodeTileFile(await handle.getFile())
+    } catch (error) {
+      if (isNotFoundError(error)) return undefined
+      throw error
+    }
+  }
+
+  async function put(key: string, record: TileStorageData): Promise<void> {
+    const handle = await (await getDirectory()).getFileHandle(key, { create: true })
+    const writable = await handle.createWritable()
+    await writable.write(encodeTileFile(record))
+    await writable.close()
+  }
+
+  async function deleteTile(key: string): Promise<void> {
+    try {
+      await (await getDirectory()).removeEntry(key)
+    } catch (error) {
+      if (!isNotFoundError(error)) throw error
+    }
+  }
+
+  async function list(): Promise<string[]> {
+    const keys: string[] = []
+    for await (const name of (await getDirectory() as IterableDirectoryHandle).keys()) {
+      keys.push(name)
+    }
+    return keys
+  }
+
+  async function stats(): Promise<TileStoreStats> {
+    const dir = await getDirectory()
+    let bytes = 0
+    const keys = await list()
+    for (const key of keys) {
+      bytes += (await (await dir.getFileHandle(key)).getFile()).size
+    }
+    return { tileCount: keys.length, bytes }
+  }
+
+  async function clear(): Promise<void> {
+    directory = null
+    try {
+      await (await navigator.storage.getDirectory()).removeEntry(TILES_DIRECTORY, { recursive: true })
+    } catch (error) {
+      if (!isNotFoundError(error)) throw error
+    }
+  }
+
+  return {
+    backend: 'opfs',
+    get,
+    put,
+    delete: deleteTile,
+    list,
+    stats,
+    getMany: (keys) => Promise.all(keys.map(get)),
+    putMany: async (entries: TileStoreEntry[]) => {
+      await Promise.all(entries.map(({ key, record }) => put(key, record)))
+    },
+    deleteMany: async (keys) => {
+      await Promise.all(keys.map(deleteTile))
+    },
+    clear,
+  }
+}
@@ -0,0 +1,350 @@
+import type { DownloadedArea, TileCoord } from '@/types'
+import { getRecords, getSetting, putSetting } from './db'
+import { getTileKey, parseTileKey, type BatchProgressCallback, type TileValidators } from './tileDownloader'
+import { getOwnedTileKeys } from './tileOwnership'
+import { writeTileStore, type TileStoreEntry } from './tileStore'
+import { getRecordSourceId } from './tileSources'
+import { supportsOPFS } from '@/utils/platform'
+
+/**
+ * Packed tile archives: the tiles of a downloaded area are moved out of the tile store
+ * into one append-only file per area with a compact z/x/y index (see tileArchiveFormat.ts),
+ * avoiding the per-record overhead of storing every tile on its own.
+ *
+ * Archives are read and written by workers/tileArchive.worker.ts with
+ * FileSystemSyncAccessHandle. The tile keys of all archives are kept in memory, so
+ * getTileFromStorage() only asks the worker for tiles an archive actually holds.
+ * Tiles keep their HTTP validators in the archive, so packed areas can be revalidated.
+ *
+ * Archives are a fallback of the tile store: if they cannot be read (worker failure,
+ * missing OPFS, files locked by another tab), reads and listings report the error and
+ * find nothing instead of failing. Packing and deleting archives still fail.
+ */
+
+export interface ArchivedTile extends TileValidators {
+  z: number
+  x: number
+  y: number
+  data: ArrayBuffer
+  type: string // MIME type
+}
+
+export interface ArchiveListing {
+  areaId: string
+  sourceId: string
+  tiles: number[] // z, x, y of each archived tile
+}
+
+export type TileArchiveRequest =
+  | { id: number; type: 'append'; areaId: string; sourceId: string; tiles: ArchivedTile[] }
+  | { id: number; type: 'read'; areaId: string; tile: TileCoord }
+  | { id: number; type: 'list' }
+  | { id: number; type: 'compact'; areaId: string }
+  | { id: number; type: 'delete'; areaId: string }
+
+export type TileArchiveResponse =
+  | { id: number; result: ArchivedTile | ArchiveListing[] | boolean | null }
+  | { id: number; error: string }
+
+export interface TileArchiveClient {
+  append: (areaId: string, sourceId: string, tiles: ArchivedTile[]) => Promise<void>
+  read: (areaId: string, tile: TileCoord) => Promise<ArchivedTile | null>
+  list: () => Promise<ArchiveListing[]>
+  compact: (areaId: string) => Promise<boolean> // resolves whether the archive had enough replaced entries to rewrite
+  delete: (areaId: string) => Promise<void>
+  terminate: () => void // stop the worker, rejecting pending requests
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+}
+
+const ENABLED_KEY = 'pack_area_tiles'
+// Tiles read from the tile store and appended per worker request
+const PACK_BATCH_SIZE = 100
+
+let sharedClient: TileArchiveClient | null = null
+// Tile keys per archived area, loaded from the archive indexes on first use
+let archivedKeys: Promise<Map<string, Set<string>>> | null = null
+
+/**
+ * Check if areas can be packed into archives
+ * Sync access handles only exist in workers, so OPFS support is checked on the main thread
+ */
+export function isTileArchiveSupported(): boolean {
+  return typeof Worker !== 'undefined' && supportsOPFS()
+}
+
+function createTileArchiveWorker(): Worker {
+  return new Worker(new URL('../workers/tileArchive.worker.ts', import.meta.url), { type: 'module' })
+}
+
+/**
+ * Create a client of the archive worker
+ * The worker is started on the first request; a crashed worker fails its pending
+ * requests and is replaced on the next one
+ */
+export function createTileArchiveClient(createWorker: () => Worker = createTileArchiveWorker): TileArchiveClient {
+  let worker: Worker | null = null
+  const pending = new Map<number, PendingRequest>()
+  let nextId = 0
+
+  function failPending(error: Error): void {
+    for (const request of pending.values()) {
+      request.reject(error)
+    }
+    pending.clear()
+  }
+
+  function getWorker(): Worker {
+    if (worker) return worker
+
+    const started = createWorker()
+    started.onmessage = (event: MessageEvent<TileArchiveResponse>) => {
+      const response = event.data
+      const request = pending.get(response.id)
+      pending.delete(response.id)
+      if (!request) return
+      if ('error' in response) {
+        request.reject(new Error(`Tile archive: ${response.error}`))
+      } else {
+        request.resolve(response.result)
+      }
+    }
+    started.onerror = (event: ErrorEvent) => {
+      event.preventDefault()
+      started.terminate()
+      worker = null
+      failPending(new Error(`Tile archive worker failed: ${event.message}`))
+    }
+    worker = started
+    return started
+  }
+
+  function send<T>(request: TileArchiveRequest, transfer: Transferable[] = []): Promise<T> {
+    return new Promise((resolve, reject) => {
+      pending.set(request.id, { resolve: resolve as (result: unknown) => void, reject })
+      getWorker().postMessage(request, transfer)
+    })
+  }
+
+  return {
+    append: async (areaId, sourceId, tiles) => {
+      await send({ id: nextId++, type: 'append', areaId, sourceId, tiles }, tiles.map((tile) => tile.data))
+    },
+    read: (areaId, tile) => send({ id: nextId++, type: 'read', areaId, tile }),
+    list: () => send({ id: nextId++, type: 'list' }),
+    compact: (areaId) => send({ id: nextId++, type: 'compact', areaId }),
+    delete: async (areaId) => {
+      await send({ id: nextId++, type: 'delete', areaId })
+    },
+    terminate: () => {
+      worker?.terminate()
+      worker = null
+      failPending(new Error('Tile archive worker terminated'))
+    },
+  }
+}
+
+function getClient(): TileArchiveClient {
+  sharedClient ??= createTileArchiveClient()
+  return sharedClient
+}
+
+/**
+ * Get the tile keys of all archives by area
+ */
+function loadArchivedKeys(): Promise<Map<string, Set<string>>> {
+  if (!isTileArchiveSupported()) {
+    return Promise.resolve(new Map())
+  }
+
+  archivedKeys ??= getClient()
+    .list()
+    .then((listings) => {
+      const keysByArea = new Map<string, Set<string>>()
+      for (const { areaId, sourceId, tiles } of listings) {
+        const keys = new Set<string>()
+        for (let i = 0; i < tiles.length; i += 3) {
+          keys.add(getTileKey({ z: tiles[i]!, x: tiles[i + 1]!, y: tiles[i + 2]! }, sourceId))
+        }
+        keysByArea.set(areaId, keys)
+      }
+      return keysByArea
+    })
+    .catch((error) => {
+      archivedKeys = null
+      throw error
+    })
+  return archivedKeys
+}
+
+/**
+ * Check if packing is enabled for new downloads
+ */
+export async function isTileArchiveEnabled(): Promise<boolean> {
+  return isTileArchiveSupported() && ((await getSetting<boolean>(ENABLED_KEY)) ?? false)
+}
+
+/**
+ * Enable or disable packing of new downloads
+ */
+export async function setTileArchiveEnabled(enabled: boolean): Promise<void> {
+  await putSetting(ENABLED_KEY, enabled)
+}
+
+/**
+ * Get the tile keys of all archives, or none if they cannot be listed
+ */
+async function loadReadableArchivedKeys(): Promise<Map<string, Set<string>>> {
+  try {
+    return await loadArchivedKeys()
+  } catch (error) {
+    console.error('Failed to list archived tiles:', error)
+    return new Map()
+  }
+}
+
+/**
+ * Get the keys of all archived tiles
+ */
+export async function getArchivedTileKeys(): Promise<string[]> {
+  const keys = new Set<string>()
+  for (const areaKeys of (await loadReadableArchivedKeys()).values()) {
+    for (const key of areaKeys) keys.add(key)
+  }
+  return [...keys]
+}
+
+/**
+ * Check if an area has an archive
+ */
+export async function hasTileArchive(areaId: string): Promise<boolean> {
+  return (await loadReadableArchivedKeys()).has(areaId)
+}
+
+/**
+ * Find a tile in the archive holding it; an archive that cannot be read holds nothing
+ */
+async function findArchivedTile(tile: TileCoord, sourceId: string): Promise<ArchivedTile | null> {
+  const key = getTileKey(tile, sourceId)
+  for (const [areaId, keys] of await loadReadableArchivedKeys()) {
+    if (!keys.has(key)) continue
+    try {
+      const archived = await getClient().read(areaId, tile)
+      if (archived) return archived
+    } catch (error) {
+      console.error('Failed to read archived tile:', error)
+    }
+  }
+  return null
+}
+
+/**
+ * Read a tile from the archive holding it, or resolve null if no archive does
+ */
+export async function readArchivedTile(tile: TileCoord, sourceId: string): Promise<Blob | null> {
+  const archived = await findArchivedTile(tile, sourceId)
+  return archived && new Blob([archived.data], { type: archived.type })
+}
+
+/**
+ * Read the HTTP validators of an archived tile, or resolve null if no archive holds it
+ */
+export async function readArchivedTileValidators(tile: TileCoord, sourceId: string): Promise<TileValidators | null> {
+  const archived = await findArchivedTile(tile, sourceId)
+  return archived && { etag: archived.etag, lastModified: archived.lastModified }
+}
+
+/**
+ * Move the tiles of an area from the tile store into its archive
+ * Tiles other areas also use are copied but stay in the tile store for them, so packing an
+ * area again, e.g. after an update, passes only the `changedTileKeys` written since: their new
+ * entries win, and the archive is compacted once replaced entries outweigh the live ones
+ */
+export async function packAreaTiles(
+  area: DownloadedArea,
+  onProgress?: BatchProgressCallback,
+  changedTileKeys?: string[]
+): Promise<void> {
+  const sourceId = getRecordSourceId(area)
+  const client = getClient()
+  const keysByArea = await loadArchivedKeys()
+  const tileKeys = changedTileKeys ?? (await getOwnedTileKeys(area.id))
+
+  await writeTileStore(async (store) => {
+    for (let i = 0; i < tileKeys.length; i += PACK_BATCH_SIZE) {
+      const batch = tileKeys.slice(i, i + PACK_BATCH_SIZE)
+      const records = await store.getMany(batch)
+      const tiles: ArchivedTile[] = []
+      const packedKeys: string[] = []
+      for (const [index, key] of batch.entries()) {
+        const record = records[index]
+        const parsed = parseTileKey(key)
+        if (!record || !parsed) continue
+        tiles.push({
+          ...parsed.tile,
+          data: await (record.data as Blob).arrayBuffer(),
+          type: record.data.type,
+          etag: record.etag,
+          lastModified: record.lastModified,
+        })
+        packedKeys.push(key)
+      }
+
+      await client.append(area.id, sourceId, tiles)
+      const packed = keysByArea.get(area.id) ?? new Set<string>()
+      for (const key of packedKeys) packed.add(key)
+      keysByArea.set(area.id, packed)
+
+      const owners = await getRecords('tileOwners', packedKeys)
+      await store.deleteMany(packedKeys.filter((_, index) => (owners[index]?.areaIds.length ?? 0) <= 1))
+      onProgress?.(i + batch.length, tileKeys.length)
+    }
+  })
+
+  await client.compact(area.id)
+}
+
+/**
+ * Delete the archive of an area
+ * `restoreKeys` are tiles other areas still use: those only held by the archive are
+ * written back to the tile store first
+ */
+export async function deleteTileArchive(areaId: string, restoreKeys: string[] = []): Promise<void> {
+  const keysByArea = await loadArchivedKeys()
+  const packed = keysByArea.get(areaId)
+  if (!packed) return
+
+  const client = getClient()
+  const keys = restoreKeys.filter((key) => packed.has(key))
+  await writeTileStore(async (store) => {
+    for (let i = 0; i < keys.length; i += PACK_BATCH_SIZE) {
+      const batch = keys.slice(i, i + PACK_BATCH_SIZE)
+      const stored = await store.getMany(batch)
+      const entries: TileStoreEntry[] = []
+      for (const [index, key] of batch.entries()) {
+        const parsed = parseTileKey(key)
+        if (stored[index] || !parsed) continue
+        const archived = await client.read(areaId, parsed.tile)
+        if (!archived) continue
+        entries.push({
+          key,
+          record: {
+            data: new Blob([archived.data], { type: archived.type }),
+            storedAt: new Date().toISOString(),
+            sourceId: parsed.sourceId,
+            z: parsed.tile.z,
+            etag: archived.etag,
+            lastModified: archived.lastModified,
+          },
+        })
+      }
+      await store.putMany(entries)
+    }
+  })
+
+  await client.delete(areaId)
+  keysByArea.delete(areaId)
+}
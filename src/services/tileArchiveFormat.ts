@@ -0,0 +1,156 @@
+import type { TileValidators } from './tileDownloader'
+
+/**
+ * File format of packed tile archives, shared by the archive worker and its tests
+ *
+ * Each area has two append-only files in the archives directory of the Origin Private
+ * File System: `<areaId>.tiles` holds the tile bytes back to back, each followed by the
+ * JSON of its HTTP validators if it has any, `<areaId>.index` a header (uint32 length + JSON
+ * with the tile source) followed by one fixed-size entry per tile. A tile written again
+ * gets a new entry; the last entry of a tile wins.
+ *
+ * Compaction rewrites an archive without the entries later ones replaced: the live tiles
+ * are copied into `<areaId>.tiles.compact` and `<areaId>.index.compact`, then an empty
+ * `<areaId>.compacted` marker commits them and they are copied over the archive. An
+ * archive opened with the marker present finishes that copy first.
+ *
+ * Entry layout (24 bytes, little endian): z (uint8), type (uint8), validators length (uint16,
+ * 0 for none and in archives written before validators were kept), x (uint32), y (uint32),
+ * length (uint32), offset (float64, archives may exceed 4 GB)
+ */
+
+export const ARCHIVE_DIRECTORY = 'archives'
+export const INDEX_ENTRY_BYTES = 24
+const HEADER_LENGTH_BYTES = 4
+const FORMAT_VERSION = 1
+
+// Type codes of the index entries; other types are stored as UNKNOWN_TYPE
+const TILE_TYPES = ['image/png', 'image/jpeg', 'image/webp']
+const UNKNOWN_TYPE = 'application/octet-stream'
+const UNKNOWN_TYPE_CODE = 255
+
+export interface ArchiveHeader {
+  version: number
+  sourceId: string
+}
+
+export interface ArchiveIndexEntry {
+  z: number
+  x: number
+  y: number
+  offset: number // byte offset in the tiles file
+  length: number
+  type: string // MIME type of the tile
+  validatorsLength: number // bytes of the validators JSON following the tile
+}
+
+export interface ArchiveIndex {
+  header: ArchiveHeader
+  entries: ArchiveIndexEntry[] // in write order
+}
+
+/**
+ * Get the names of the tiles and index file of an area
+ */
+export function getArchiveFileNames(areaId: string): { tiles: string; index: string } {
+  const name = encodeURIComponent(areaId)
+  return { tiles: `${name}.tiles`, index: `${name}.index` }
+}
+
+/**
+ * Get the names of the files compacting the archive of an area
+ */
+export function getCompactionFileNames(areaId: string): { tiles: string; index: string; marker: string } {
+  const name = encodeURIComponent(areaId)
+  return { tiles: `${name}.tiles.compact`, index: `${name}.index.compact`, marker: `${name}.compacted` }
+}
+
+/**
+ * Get the area ID of an index file name, or null for other files
+ */
+export function getArchiveAreaId(fileName: string): string | null {
+  return fileName.endsWith('.index') ? decodeURIComponent(fileName.slice(0, -'.index'.length)) : null
+}
+
+/**
+ * Encode the header an index file starts with
+ */
+export function encodeArchiveHeader(sourceId: string): Uint8Array {
+  const json = new TextEncoder().encode(JSON.stringify({ version: FORMAT_VERSION, sourceId } satisfies ArchiveHeader))
+  const bytes = new Uint8Array(HEADER_LENGTH_BYTES + json.byteLength)
+  new DataView(bytes.buffer).setUint32(0, json.byteLength, true)
+  bytes.set(json, HEADER_LENGTH_BYTES)
+  return bytes
+}
+
+/**
+ * Encode index entries to append to an index file
+ */
+export function encodeIndexEntries(entries: ArchiveIndexEntry[]): Uint8Array {
+  const bytes = new Uint8Array(entries.length * INDEX_ENTRY_BYTES)
+  const view = new DataView(bytes.buffer)
+  entries.forEach((entry, index) => {
+    const at = index * INDEX_ENTRY_BYTES
+    const typeCode = TILE_TYPES.indexOf(entry.type)
+    view.setUint8(at, entry.z)
+    view.setUint8(at + 1, typeCode === -1 ? UNKNOWN_TYPE_CODE : typeCode)
+    view.setUint16(at + 2, entry.validatorsLength, true)
+    view.setUint32(at + 4, entry.x, true)
+    view.setUint32(at + 8, entry.y, true)
+    view.setUint32(at + 12, entry.length, true)
+    view.setFloat64(at + 16, entry.offset, true)
+  })
+  return bytes
+}
+
+/**
+ * Decode an index file
+ * A trailing partial entry (interrupted write) is ignored
+ */
+export function decodeArchiveIndex(bytes: Uint8Array): ArchiveIndex {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const headerLength = view.getUint32(0, true)
+  const entriesStart = HEADER_LENGTH_BYTES + headerLength
+  const header = JSON.parse(
+    new TextDecoder().decode(bytes.subarray(HEADER_LENGTH_BYTES, entriesStart))
+  ) as ArchiveHeader
+
+  const entries: ArchiveIndexEntry[] = []
+  const entryCount = Math.floor((bytes.byteLength - entriesStart) / INDEX_ENTRY_BYTES)
+  for (let i = 0; i < entryCount; i++) {
+    const at = entriesStart + i * INDEX_ENTRY_BYTES
+    entries.push({
+      z: view.getUint8(at),
+      type: TILE_TYPES[view.getUint8(at + 1)] ?? UNKNOWN_TYPE,
+      validatorsLength: view.getUint16(at + 2, true),
+      x: view.getUint32(at + 4, true),
+      y: view.getUint32(at + 8, true),
+      length: view.getUint32(at + 12, true),
+      offset: view.getFloat64(at + 16, true),
+    })
+  }
+  return { header, entries }
+}
+
+/**
+ * Encode the validators stored after a tile, empty if it has none
+ */
+export function encodeTileValidators(validators: TileValidators): Uint8Array {
+  const { etag, lastModified } = validators
+  if (!etag && !lastModified) return new Uint8Array(0)
+  return new TextEncoder().encode(JSON.stringify({ etag, lastModified }))
+}
+
+/**
+ * Decode the validators stored after a tile
+ */
+export function decodeTileValidators(bytes: Uint8Array): TileValidators {
+  return bytes.byteLength > 0 ? (JSON.parse(new TextDecoder().decode(bytes)) as TileValidators) : {}
+}
+
+/**
+ * Get the lookup key of a tile within an archive
+ */
+export function getArchiveTileId(tile: { z: number; x: number; y: number }): string {
+  return `${tile.z}/${tile.x}/${tile.y}`
+}
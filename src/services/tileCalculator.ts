@@ -1,4 +1,12 @@
 import type { TileCoord, BoundingBox } from '@/types'
+import { getTileKey, parseTileKey } from './tileDownloader'
+import { DEFAULT_TILE_SOURCE_ID } from './tileSources'
+import { estimateTileSizes, type TileSizeEstimateOptions } from './tileSizeStats'
+
+export interface DownloadListOptions {
+  excludeTileKeys?: ReadonlySet<string> // tile keys to leave out, e.g. tiles already stored
+  sourceId?: string // tile source the excluded keys are matched for (default: OSM)
+}
 
 /**
  * Convert longitude/latitude to tile coordinates at a given zoom level
@@ -36,9 +44,20 @@ export function lonLatToTile(
 }
 
 /**
- * Get all tiles within a bounding box at a specific zoom level
+ * Range of tile coordinates covering a bounding box at one zoom level
  */
-export function getTilesInExtent(bbox: BoundingBox, zoom: number): TileCoord[] {
+export interface TileRange {
+  z: number
+  minX: number
+  maxX: number
+  minY: number
+  maxY: number
+}
+
+/**
+ * Get the range of tiles within a bounding box at a specific zoom level
+ */
+export function getTileRange(bbox: BoundingBox, zoom: number): TileRange {
   // Validate bounding box
   if (bbox.west > bbox.east) {
     throw new Error(
@@ -50,43 +69,176 @@ export function getTilesInExtent(bbox: BoundingBox, zoom: number): TileCoord[] {
   const topLeft = lonLatToTile(bbox.west, bbox.north, zoom)
   const bottomRight = lonLatToTile(bbox.east, bbox.south, zoom)
 
-  const tiles: TileCoord[] = []
+  return { z: zoom, minX: topLeft.x, maxX: bottomRight.x, minY: topLeft.y, maxY: bottomRight.y }
+}
+
+function isTileInRange(tile: TileCoord, range: TileRange): boolean {
+  return (
+    tile.z === range.z &&
+    tile.x >= range.minX &&
+    tile.x <= range.maxX &&
+    tile.y >= range.minY &&
+    tile.y <= range.maxY
+  )
+}
+
+/**
+ * Count the tiles within a bounding box at a specific zoom level without listing them
+ */
+export function countTilesInExtent(bbox: BoundingBox, zoom: number): number {
+  const range = getTileRange(bbox, zoom)
+  return Math.max(0, range.maxX - range.minX + 1) * Math.max(0, range.maxY - range.minY + 1)
+}
+
+/**
+ * Iterate the tiles within a bounding box at a specific zoom level
+ */
+export function* iterateTilesInExtent(bbox: BoundingBox, zoom: number): Generator<TileCoord> {
+  const range = getTileRange(bbox, zoom)
 
   // Iterate through all tiles in the bounding box
-  for (let x = topLeft.x; x <= bottomRight.x; x++) {
-    for (let y = topLeft.y; y <= bottomRight.y; y++) {
-      tiles.push({ z: zoom, x, y })
+  for (let x = range.minX; x <= range.maxX; x++) {
+    for (let y = range.minY; y <= range.maxY; y++) {
+      yield { z: zoom, x, y }
     }
   }
+}
+
+/**
+ * Get all tiles within a bounding box at a specific zoom level
+ */
+export function getTilesInExtent(bbox: BoundingBox, zoom: number): TileCoord[] {
+  return [...iterateTilesInExtent(bbox, zoom)]
+}
+
+/**
+ * Iterate all tiles to download for a bounding box and zoom range, zoom level by zoom level
+ * Tiles listed in `options.excludeTileKeys` are left out
+ */
+export function* iterateDownloadList(
+  bbox: BoundingBox,
+  baseZoom: number,
+  additionalLevels: number,
+  options: DownloadListOptions = {}
+): Generator<TileCoord> {
+  const maxZoom = baseZoom + additionalLevels
+  const exclude = options.excludeTileKeys
 
-  return tiles
+  for (let z = baseZoom; z <= maxZoom; z++) {
+    for (const tile of iterateTilesInExtent(bbox, z)) {
+      if (!exclude || exclude.size === 0 || !exclude.has(getTileKey(tile, options.sourceId))) {
+        yield tile
+      }
+    }
+  }
 }
 
 /**
  * Calculate list of all tiles to download for a bounding box and zoom range
+ * Tiles listed in `options.excludeTileKeys` are left out
+ * Large areas at high zoom levels have millions of tiles: prefer iterateDownloadList()
+ * and countDownloadTilesPerZoom() where the list is not needed as a whole
  */
 export function calculateDownloadList(
   bbox: BoundingBox,
   baseZoom: number,
-  additionalLevels: number
+  additionalLevels: number,
+  options: DownloadListOptions = {}
 ): TileCoord[] {
-  const allTiles: TileCoord[] = []
-  const maxZoom = baseZoom + additionalLevels
+  return [...iterateDownloadList(bbox, baseZoom, additionalLevels, options)]
+}
 
-  // Collect tiles for each zoom level
-  for (let z = baseZoom; z <= maxZoom; z++) {
-    const tilesAtZoom = getTilesInExtent(bbox, z)
-    allTiles.push(...tilesAtZoom)
+/**
+ * Count the tiles of a download per zoom level in O(zoom levels)
+ */
+export function countDownloadTilesPerZoom(
+  bbox: BoundingBox,
+  baseZoom: number,
+  additionalLevels: number
+): Map<number, number> {
+  const tilesPerZoom = new Map<number, number>()
+  for (let z = baseZoom; z <= baseZoom + additionalLevels; z++) {
+    tilesPerZoom.set(z, countTilesInExtent(bbox, z))
   }
+  return tilesPerZoom
+}
 
-  return allTiles
+/**
+ * Count the tiles of a download without listing them
+ */
+export function countDownloadTiles(bbox: BoundingBox, baseZoom: number, additionalLevels: number): number {
+  let count = 0
+  for (const zoomCount of countDownloadTilesPerZoom(bbox, baseZoom, additionalLevels).values()) {
+    count += zoomCount
+  }
+  return count
+}
+
+/**
+ * Get the tile range of each zoom level of a download
+ */
+export function getDownloadTileRanges(bbox: BoundingBox, baseZoom: number, additionalLevels: number): TileRange[] {
+  return Array.from({ length: additionalLevels + 1 }, (_, index) => getTileRange(bbox, baseZoom + index))
+}
+
+/**
+ * Iterate the tile keys of a source that fall within a download, with their zoom level
+ */
+function* iterateTileKeysInDownload(
+  tileKeys: Iterable<string>,
+  bbox: BoundingBox,
+  baseZoom: number,
+  additionalLevels: number,
+  sourceId: string
+): Generator<{ key: string; z: number }> {
+  const ranges = new Map(getDownloadTileRanges(bbox, baseZoom, additionalLevels).map((range) => [range.z, range]))
+
+  for (const key of tileKeys) {
+    const parsed = parseTileKey(key)
+    const range = parsed && ranges.get(parsed.tile.z)
+    if (parsed && range && parsed.sourceId === sourceId && isTileInRange(parsed.tile, range)) {
+      yield { key, z: range.z }
+    }
+  }
+}
+
+/**
+ * Count the tile keys of a source that fall within a download, per zoom level
+ * Walks the keys instead of the download, e.g. to subtract tiles already stored from
+ * countDownloadTilesPerZoom() without listing the download
+ */
+export function countTileKeysInDownload(
+  tileKeys: Iterable<string>,
+  bbox: BoundingBox,
+  baseZoom: number,
+  additionalLevels: number,
+  sourceId: string = DEFAULT_TILE_SOURCE_ID
+): Map<number, number> {
+  const counts = new Map<number, number>()
+  for (const { z } of iterateTileKeysInDownload(tileKeys, bbox, baseZoom, additionalLevels, sourceId)) {
+    counts.set(z, (counts.get(z) ?? 0) + 1)
+  }
+  return counts
+}
+
+/**
+ * Get the tile keys of a source that fall within a download
+ */
+export function filterTileKeysInDownload(
+  tileKeys: Iterable<string>,
+  bbox: BoundingBox,
+  baseZoom: number,
+  additionalLevels: number,
+  sourceId: string = DEFAULT_TILE_SOURCE_ID
+): string[] {
+  return [...iterateTileKeysInDownload(tileKeys, bbox, baseZoom, additionalLevels, sourceId)].map(({ key }) => key)
 }
 
 /**
- * Estimate download size in bytes based on tile count
- * Assumes average tile size of 20KB (typical for OSM PNG tiles)
+ * Estimate download size in bytes
+ * Uses the learned tile sizes in `options.stats`, otherwise 20KB per tile (typical for OSM PNG tiles)
+ * See estimateTileSizes() for the range of the estimate
  */
-export function estimateDownloadSize(tiles: TileCoord[]): number {
-  const avgTileSizeBytes = 20 * 1024 // 20 KB
-  return tiles.length * avgTileSizeBytes
+export function estimateDownloadSize(tiles: TileCoord[], options: TileSizeEstimateOptions = {}): number {
+  return estimateTileSizes(tiles, options).bytes
 }
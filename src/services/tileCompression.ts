@@ -4,6 +4,7 @@ import type {
   CompressionProfileConfig,
   CompressedTile,
 } from '@/types'
+import { getCompressionWorkerPool, isWorkerCompressionSupported } from './compressionWorkerPool'
 
 /**
  * Compression profile configurations
@@ -55,50 +56,60 @@ export async function detectBestCompressionFormat(): Promise<CompressionFormat>
 }
 
 /**
- * Load blob into an Image element
+ * A decoded tile image; bitmaps should be closed once drawn to free their memory
+ */
+export type DecodedTileImage = ImageBitmap | HTMLImageElement
+
+/**
+ * Load blob into an Image element through an object URL
+ * Fallback for browsers without createImageBitmap (Safari < 15)
  */
 async function blobToImage(blob: Blob): Promise<HTMLImageElement> {
-  return new Promise(async (resolve, reject) => {
-    const img = new Image()
-
-    // Convert blob to ArrayBuffer then to base64 data URL (works in both browser and Node.js)
-    try {
-      const arrayBuffer = await blob.arrayBuffer()
-      const base64 = btoa(
-        String.fromCharCode(...new Uint8Array(arrayBuffer))
-      )
-      const dataUrl = `data:${blob.type};base64,${base64}`
-
-      img.onload = () => {
-        resolve(img)
-      }
-
-      img.onerror = () => {
-        reject(new Error('Failed to load image from blob'))
-      }
-
-      img.src = dataUrl
-    } catch (error) {
-      reject(error)
-    }
-  })
+  const url = URL.createObjectURL(blob)
+  try {
+    return await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image()
+      img.onload = () => resolve(img)
+      img.onerror = () => reject(new Error('Failed to load image from blob'))
+      img.src = url
+    })
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+/**
+ * Decode a tile blob into an image that can be drawn to a canvas
+ * createImageBitmap decodes the compressed bytes directly, without a data URL or an image element
+ */
+export async function decodeTileImage(blob: Blob): Promise<DecodedTileImage> {
+  if (typeof createImageBitmap === 'function') {
+    return createImageBitmap(blob)
+  }
+  return blobToImage(blob)
 }
 
 /**
- * Convert image to canvas
+ * Draw a decoded image to a new canvas, releasing the bitmap
  */
-function imageToCanvas(img: HTMLImageElement): HTMLCanvasElement {
+function imageToCanvas(image: DecodedTileImage): HTMLCanvasElement {
   const canvas = document.createElement('canvas')
-  canvas.width = img.width
-  canvas.height = img.height
+  canvas.width = image.width
+  canvas.height = image.height
 
-  const ctx = canvas.getContext('2d')
-  if (!ctx) {
-    throw new Error('Failed to get canvas context')
-  }
+  try {
+    const ctx = canvas.getContext('2d')
+    if (!ctx) {
+      throw new Error('Failed to get canvas context')
+    }
 
-  ctx.drawImage(img, 0, 0)
-  return canvas
+    ctx.drawImage(image, 0, 0)
+    return canvas
+  } finally {
+    if ('close' in image) {
+      image.close()
+    }
+  }
 }
 
 /**
@@ -124,8 +135,19 @@ async function canvasToBlob(
   })
 }
 
+/**
+ * Re-encode a tile on the main thread with a DOM canvas
+ * Fallback for browsers without OffscreenCanvas
+ */
+async function compressOnMainThread(blob: Blob, format: CompressionFormat, quality: number): Promise<Blob> {
+  const image = await decodeTileImage(blob)
+  const canvas = imageToCanvas(image)
+  return canvasToBlob(canvas, format, quality)
+}
+
 /**
  * Compress a tile blob using the specified format and profile
+ * Runs in the compression worker pool where OffscreenCanvas is available
  */
 export async function compressTile(
   originalBlob: Blob,
@@ -147,14 +169,9 @@ export async function compressTile(
     }
   }
 
-  // Load image from blob
-  const img = await blobToImage(originalBlob)
-
-  // Convert to canvas
-  const canvas = imageToCanvas(img)
-
-  // Compress using canvas.toBlob
-  const compressedBlob = await canvasToBlob(canvas, format, profileConfig.quality)
+  const compressedBlob = isWorkerCompressionSupported()
+    ? await (await getCompressionWorkerPool()).compress(originalBlob, format, profileConfig.quality)
+    : await compressOnMainThread(originalBlob, format, profileConfig.quality)
   const compressedSize = compressedBlob.size
   const compressionRatio = compressedSize / originalSize
 
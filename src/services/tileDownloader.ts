@@ -1,28 +1,173 @@
-import { get, set, del, keys } from 'idb-keyval'
-import type { TileCoord, CompressionProfile } from '@/types'
+import type { TileCoord, CompressionProfile, TileMetadata, TileSizeProfile, TileUsagePolicy } from '@/types'
+import { putRecords, withStores } from './db'
 import { compressTileAuto } from './tileCompression'
-import { saveTileMetadata } from './tileMetadata'
+import { createTileMetadata } from './tileMetadata'
 import { getDefaultProfile } from './compressionSettings'
+import {
+  DEFAULT_MAX_CONCURRENCY,
+  DEFAULT_REQUESTS_PER_SECOND,
+  createHostRateLimiter,
+  createSemaphore,
+  runWithConcurrency,
+  sleep,
+  type HostRateLimiter,
+  type Semaphore,
+} from './downloadScheduler'
+import { expandTileUrl } from './tileUrlTemplate'
+import { DEFAULT_TILE_SOURCE_ID } from './tileSources'
+import {
+  assertUsagePolicy,
+  getPolicyRequestsPerSecond,
+  summarizeBulkDownload,
+  type BulkDownloadSummary,
+} from './tileUsagePolicy'
+import { flushTileSizeStats, recordTileSize } from './tileSizeStats'
+import { getTileStore, writeTileStore } from './tileStore'
+import { getArchivedTileKeys, readArchivedTile, readArchivedTileValidators } from './tileArchive'
 
 export interface TileStorageData {
   data: Blob | { type: string; size: number } // Blob or plain object for testing
   storedAt: string
+  sourceId: string
+  z: number
+  // HTTP validators of the response, used to revalidate the tile later
+  etag?: string
+  lastModified?: string
+}
+
+export interface TileValidators {
+  etag?: string
+  lastModified?: string
+}
+
+export interface SaveTileOptions {
+  sourceId?: string // tile source (default: OSM)
+  validators?: TileValidators // HTTP validators of the response
+}
+
+// Tiles written or deleted per batch (one transaction with the IndexedDB backend)
+export const TILE_BATCH_SIZE = 250
+
+/**
+ * A tile ready to be written, see prepareTileForStorage()
+ */
+export interface TileWrite {
+  tile: TileCoord
+  key: string // storage key, see getTileKey()
+  record: TileStorageData
+  metadata?: TileMetadata // compressed tiles only
+  size: number // stored size in bytes
+}
+
+export interface BatchProgressCallback {
+  (done: number, total: number): void
+}
+
+export interface ParsedTileKey {
+  tile: TileCoord
+  sourceId: string
+}
+
+export interface DownloadProgressStats {
+  downloaded: number
+  failed: number
+  total: number
+  bytesDownloaded: number
+  queued: number // tiles waiting for a free download slot
+  active: number // tiles currently being fetched, compressed or stored
 }
 
 export interface DownloadProgressCallback {
-  (progress: { downloaded: number; failed: number; total: number; bytesDownloaded: number }): void
+  (progress: DownloadProgressStats): void
+}
+
+export interface TileDownloadResult {
+  tile: TileCoord
+  ok: boolean
+  bytes: number // stored size, 0 for failed and not modified tiles
+  error?: string
+  notModified?: boolean // revalidation only: server answered 304, the stored tile was kept
+}
+
+export interface DownloadTilesOptions {
+  maxConcurrency?: number // parallel tile downloads (default: 6)
+  requestsPerSecond?: number // cap per tile host (default: 20)
+  onTileComplete?: (result: TileDownloadResult) => void
+  shouldStop?: () => boolean // stop starting new tiles, e.g. when the download is paused
+  signal?: AbortSignal // aborts in-flight requests and stops the queue
+  revalidate?: boolean // send stored ETag/Last-Modified; tiles answered with 304 are kept as is
+  sourceId?: string // tile source the tiles are stored for (default: OSM)
+  subdomains?: string[] // values for {s} in the URL template
+  usagePolicy?: TileUsagePolicy // limits of the tile source, enforced for the whole download
+  waitUntilReady?: () => Promise<void> // awaited before each tile is started, e.g. while download conditions are not met
+  summary?: BulkDownloadSummary // tile count and max zoom of lazily generated tiles, so they are generated only once
 }
 
 /**
- * Get tile from IndexedDB storage
+ * Request settings of a single tile fetch
  */
-export async function getTileFromStorage(tile: TileCoord): Promise<Blob | null> {
-  const key = `tile_${tile.z}_${tile.x}_${tile.y}`
-  const stored = await get<TileStorageData>(key)
+interface TileRequestOptions {
+  headers?: Record<string, string> // conditional request headers
+  referrerPolicy?: ReferrerPolicy
+  acquire?: () => Promise<void> // waits for the rate limiters, before every attempt
+}
 
-  if (!stored || !stored.data) {
+/**
+ * Usage policy limits of a tile source
+ */
+interface SourceLimits {
+  policy: TileUsagePolicy
+  limiter: HostRateLimiter // paces requests to the policy's minimum interval
+  slots: Semaphore // requests in flight, up to the policy's concurrency
+}
+
+// A 429 asking to wait longer than this fails the tile instead of stalling the download
+const MAX_RETRY_AFTER_MS = 60_000
+
+// Usage policy limits by source ID, shared by all downloads from a source at once
+// (download queue, area retries and updates, size samples)
+const sourceLimits = new Map<string, SourceLimits>()
+
+/**
+ * Get the storage key of a tile
+ * Tiles of the default source use tile_z_x_y, other sources tile_<sourceId>_z_x_y
+ */
+export function getTileKey(tile: TileCoord, sourceId: string = DEFAULT_TILE_SOURCE_ID): string {
+  const source = sourceId === DEFAULT_TILE_SOURCE_ID ? '' : `${sourceId}_`
+  return `tile_${source}${tile.z}_${tile.x}_${tile.y}`
+}
+
+// tile_meta_ keys belong to tile metadata, not to a source called "meta"
+const TILE_KEY_PATTERN = /^tile_(?!meta_)(?:([a-z][a-z0-9-]*)_)?(\d+)_(\d+)_(\d+)$/
+
+/**
+ * Parse a tile storage key back into tile coordinates and source
+ */
+export function parseTileKey(key: string): ParsedTileKey | null {
+  const match = key.match(TILE_KEY_PATTERN)
+  if (!match) {
     return null
   }
+  return {
+    tile: { z: parseInt(match[2]!), x: parseInt(match[3]!), y: parseInt(match[4]!) },
+    sourceId: match[1] ?? DEFAULT_TILE_SOURCE_ID,
+  }
+}
+
+/**
+ * Get tile from storage, falling back to the archives of packed areas
+ */
+export async function getTileFromStorage(
+  tile: TileCoord,
+  sourceId: string = DEFAULT_TILE_SOURCE_ID
+): Promise<Blob | null> {
+  const key = getTileKey(tile, sourceId)
+  const stored = await (await getTileStore()).get(key)
+
+  // Tiles of packed areas live in their archive
+  if (!stored || !stored.data) {
+    return readArchivedTile(tile, sourceId)
+  }
 
   // Handle both real Blobs and fake-indexeddb serialized Blobs (for testing)
   if (stored.data instanceof Blob) {
@@ -35,76 +180,207 @@ export async function getTileFromStorage(tile: TileCoord): Promise<Blob | null>
 }
 
 /**
- * Save tile blob to IndexedDB storage
- * Optionally compresses the tile using the specified profile
- * Returns the size of the stored blob in bytes
+ * Compress a tile if requested and build its storage record and metadata
+ * The tile size is recorded for download estimates; the tile itself is not written yet
  */
-export async function saveTileToStorage(
+export async function prepareTileForStorage(
   tile: TileCoord,
   blob: Blob,
   compress: boolean = false,
-  profile?: CompressionProfile
-): Promise<number> {
-  const key = `tile_${tile.z}_${tile.x}_${tile.y}`
+  profile?: CompressionProfile,
+  options: SaveTileOptions = {}
+): Promise<TileWrite> {
+  const sourceId = options.sourceId ?? DEFAULT_TILE_SOURCE_ID
   let finalBlob = blob
+  let sizeProfile: TileSizeProfile = 'uncompressed'
+  let metadata: TileMetadata | undefined
 
   // Compress if requested
   if (compress) {
     const compressionProfile = profile || (await getDefaultProfile())
     const compressed = await compressTileAuto(blob, compressionProfile)
     finalBlob = compressed.blob
-
-    // Save metadata
-    await saveTileMetadata(
+    sizeProfile = compressed.profile
+    metadata = createTileMetadata(
       tile,
       compressed.format,
       compressed.profile,
       compressed.originalSize,
       compressed.compressedSize,
-      compressed.compressionRatio
+      compressed.compressionRatio,
+      sourceId
     )
   }
 
-  const data: TileStorageData = {
-    data: finalBlob,
-    storedAt: new Date().toISOString(),
+  await recordTileSize(tile, finalBlob.size, sizeProfile, sourceId)
+
+  return {
+    tile,
+    key: getTileKey(tile, sourceId),
+    record: {
+      data: finalBlob,
+      storedAt: new Date().toISOString(),
+      sourceId,
+      z: tile.z,
+      ...options.validators,
+    },
+    metadata,
+    size: finalBlob.size,
   }
+}
 
-  await set(key, data)
-  return finalBlob.size
+/**
+ * Write prepared tiles and their metadata, TILE_BATCH_SIZE tiles per batch
+ * The IndexedDB backend writes a batch in one transaction. Other backends cannot share a
+ * transaction with the metadata, so it is written first: a failed tile write may leave
+ * metadata without its tile (replaced when the tile is written again), never a tile without it
+ */
+export async function saveTilesToStorage(writes: TileWrite[], onProgress?: BatchProgressCallback): Promise<void> {
+  await writeTileStore(async (store) => {
+    for (let i = 0; i < writes.length; i += TILE_BATCH_SIZE) {
+      const batch = writes.slice(i, i + TILE_BATCH_SIZE)
+      const entries = batch.map(({ key, record }) => ({ key, record }))
+      const metadata = batch.flatMap((write) => (write.metadata ? [write.metadata] : []))
+      if (store.putManyWithMetadata) {
+        await store.putManyWithMetadata(entries, metadata)
+      } else {
+        await putRecords('tileMeta', metadata)
+        await store.putMany(entries)
+      }
+      onProgress?.(i + batch.length, writes.length)
+    }
+  })
 }
 
 /**
- * Delete tile from IndexedDB storage
+ * Save tile blob to storage
+ * Optionally compresses the tile using the specified profile
+ * Returns the size of the stored blob in bytes
  */
-export async function deleteTileFromStorage(tile: TileCoord): Promise<void> {
-  const key = `tile_${tile.z}_${tile.x}_${tile.y}`
-  await del(key)
+export async function saveTileToStorage(
+  tile: TileCoord,
+  blob: Blob,
+  compress: boolean = false,
+  profile?: CompressionProfile,
+  options: SaveTileOptions = {}
+): Promise<number> {
+  const write = await prepareTileForStorage(tile, blob, compress, profile, options)
+  await saveTilesToStorage([write])
+  return write.size
+}
+
+/**
+ * Delete tile from storage
+ */
+export async function deleteTileFromStorage(
+  tile: TileCoord,
+  sourceId: string = DEFAULT_TILE_SOURCE_ID
+): Promise<void> {
+  await writeTileStore((store) => store.delete(getTileKey(tile, sourceId)))
 }
 
 /**
- * Get all stored tile keys
+ * Delete tiles, their metadata and browse cache entries by storage key, TILE_BATCH_SIZE tiles per batch
+ */
+export async function deleteTilesFromStorage(tileKeys: string[], onProgress?: BatchProgressCallback): Promise<void> {
+  await writeTileStore(async (store) => {
+    for (let i = 0; i < tileKeys.length; i += TILE_BATCH_SIZE) {
+      const batch = tileKeys.slice(i, i + TILE_BATCH_SIZE)
+      await store.deleteMany(batch)
+      await withStores(['tileMeta', 'browseCache'], 'readwrite', (transaction) => {
+        for (const key of batch) {
+          transaction.objectStore('tileMeta').delete(key)
+          transaction.objectStore('browseCache').delete(key)
+        }
+      })
+      onProgress?.(i + batch.length, tileKeys.length)
+    }
+  })
+}
+
+/**
+ * Collect the tile writes of parallel downloads into shared batches
+ * The first tile is written right away; tiles prepared while a batch is written
+ * are written together in the next one. `add` waits while a full batch is queued.
+ */
+function createTileWriteQueue(onCommitted: (writes: TileWrite[], error?: Error) => void) {
+  const queue: TileWrite[] = []
+  let committing: Promise<void> | null = null
+
+  async function commitQueued(): Promise<void> {
+    while (queue.length > 0) {
+      const batch = queue.splice(0, TILE_BATCH_SIZE)
+      try {
+        await saveTilesToStorage(batch)
+        onCommitted(batch)
+      } catch (error) {
+        onCommitted(batch, error as Error)
+      }
+    }
+    committing = null
+  }
+
+  return {
+    async add(write: TileWrite): Promise<void> {
+      queue.push(write)
+      committing ??= commitQueued()
+      if (queue.length >= TILE_BATCH_SIZE) {
+        await committing
+      }
+    },
+    async drain(): Promise<void> {
+      await committing
+    },
+  }
+}
+
+/**
+ * Get all stored tile keys of all sources, including tiles of packed areas
  */
 export async function getAllStoredTileKeys(): Promise<string[]> {
-  const allKeys = await keys()
-  return allKeys.filter((key) => typeof key === 'string' && key.startsWith('tile_')) as string[]
+  const keys = await (await getTileStore()).list()
+  const archivedKeys = await getArchivedTileKeys()
+  if (archivedKeys.length === 0) {
+    return keys
+  }
+  const stored = new Set(keys)
+  return [...keys, ...archivedKeys.filter((key) => !stored.has(key))]
+}
+
+/**
+ * Check if an error means the storage quota is used up
+ * Firefox reports a full quota as NS_ERROR_DOM_QUOTA_REACHED
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+  )
+}
+
+/**
+ * Create the error a download stops with when the storage is full
+ */
+export function createStorageFullError(message: string): DOMException {
+  return new DOMException(message, 'QuotaExceededError')
 }
 
 /**
- * Sleep utility for delays
+ * Get the host a tile is requested from (used as rate limiting key)
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms))
+function getTileHost(url: string): string {
+  try {
+    return new URL(url).host
+  } catch {
+    return url
+  }
 }
 
 /**
  * Download a single tile from the given URL template
  */
 export async function downloadTile(tile: TileCoord, urlTemplate: string): Promise<Blob> {
-  const url = urlTemplate
-    .replace('{z}', tile.z.toString())
-    .replace('{x}', tile.x.toString())
-    .replace('{y}', tile.y.toString())
+  const url = expandTileUrl(urlTemplate, tile)
 
   const response = await fetch(url)
 
@@ -118,26 +394,75 @@ export async function downloadTile(tile: TileCoord, urlTemplate: string): Promis
 /**
  * Download a single tile with retry logic and exponential backoff
  * @param tile - The tile coordinates to download
- * @param urlTemplate - URL template with {z}, {x}, {y} placeholders
+ * @param urlTemplate - URL template, see tileUrlTemplate.ts for placeholders
  * @param maxRetries - Maximum number of retry attempts (default: 3)
  * @param baseDelay - Base delay in milliseconds for exponential backoff (default: 1000)
+ * @param signal - Optional abort signal; aborting cancels the request and any pending retry
  */
 export async function downloadTileWithRetry(
   tile: TileCoord,
   urlTemplate: string,
   maxRetries = 3,
-  baseDelay = 1000
+  baseDelay = 1000,
+  signal?: AbortSignal
 ): Promise<Blob> {
+  const url = expandTileUrl(urlTemplate, tile)
+  const response = await fetchTileWithRetry(tile, url, maxRetries, baseDelay, signal)
+  return await response.blob()
+}
+
+/**
+ * Read the delay a 429 response asks for, in seconds or as an HTTP date
+ * Returns null without a valid Retry-After header
+ */
+function getRetryAfterMs(response: Response): number | null {
+  // Mocked responses in tests may come without headers
+  const value = response.headers?.get('Retry-After')
+  if (!value) return null
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+/**
+ * Fetch a tile with retry logic and exponential backoff
+ * Resolves with the successful response; with conditional headers a 304 response counts as success
+ * `request.acquire` is awaited before every attempt, so retries respect the rate limits too;
+ * a 429 waits at least as long as its Retry-After header asks
+ */
+async function fetchTileWithRetry(
+  tile: TileCoord,
+  url: string,
+  maxRetries = 3,
+  baseDelay = 1000,
+  signal?: AbortSignal,
+  request: TileRequestOptions = {}
+): Promise<Response> {
   let lastError: Error | null = null
+  const { headers, referrerPolicy } = request
+
+  const init: RequestInit = { signal }
+  if (referrerPolicy) {
+    init.referrerPolicy = referrerPolicy
+  }
+  if (headers) {
+    // Conditional requests bypass the HTTP cache so the 304 reaches us
+    init.headers = headers
+    init.cache = 'no-store'
+  }
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      const url = urlTemplate
-        .replace('{z}', tile.z.toString())
-        .replace('{x}', tile.x.toString())
-        .replace('{y}', tile.y.toString())
+      await request.acquire?.()
+      const response = await fetch(url, init)
 
-      const response = await fetch(url)
+      if (headers && response.status === 304) {
+        return response
+      }
 
       if (!response.ok) {
         const error = new Error(`Failed to download tile ${tile.z}/${tile.x}/${tile.y}: ${response.status}`)
@@ -150,18 +475,28 @@ export async function downloadTileWithRetry(
         // Retry on server errors (5xx) and rate limits (429)
         lastError = error
 
+        const retryAfter = response.status === 429 ? getRetryAfterMs(response) : null
+        if (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS) {
+          break
+        }
+
         // Don't sleep on last attempt
         if (attempt < maxRetries) {
-          const delay = baseDelay * Math.pow(2, attempt - 1)
-          await sleep(delay)
+          const delay = Math.max(baseDelay * Math.pow(2, attempt - 1), retryAfter ?? 0)
+          await sleep(delay, signal)
         }
         continue
       }
 
-      return await response.blob()
+      return response
     } catch (error) {
       lastError = error as Error
 
+      // Never retry a cancelled download
+      if (signal?.aborted) {
+        throw error
+      }
+
       // If this is a non-retryable error (like 4xx), rethrow immediately
       if (error instanceof Error && error.message.includes(': 4')) {
         const status = parseInt(error.message.match(/: (\d+)$/)?.[1] || '0')
@@ -177,48 +512,211 @@ export async function downloadTileWithRetry(
 
       // Exponential backoff: baseDelay * 2^(attempt-1)
       const delay = baseDelay * Math.pow(2, attempt - 1)
-      await sleep(delay)
+      await sleep(delay, signal)
     }
   }
 
   throw lastError || new Error(`Failed to download tile ${tile.z}/${tile.x}/${tile.y} after ${maxRetries} attempts`)
 }
 
+/**
+ * Read the HTTP validators of a tile response
+ * ETag is only readable cross-origin when the server exposes it; Last-Modified always is
+ */
+function getResponseValidators(response: Response): TileValidators {
+  // Mocked responses in tests may come without headers
+  const etag = response.headers?.get('ETag') ?? undefined
+  const lastModified = response.headers?.get('Last-Modified') ?? undefined
+  return {
+    ...(etag ? { etag } : {}),
+    ...(lastModified ? { lastModified } : {}),
+  }
+}
+
+/**
+ * Get the validators of a stored tile, from the tile store or the archive of a packed area
+ */
+async function getStoredValidators(tile: TileCoord, sourceId: string): Promise<TileValidators | null> {
+  const stored = await (await getTileStore()).get(getTileKey(tile, sourceId))
+  return stored ?? readArchivedTileValidators(tile, sourceId)
+}
+
+/**
+ * Build conditional request headers from stored validators
+ * Returns null if the tile has no validators (it can only be downloaded again)
+ */
+function getConditionalHeaders(stored: TileValidators | null): Record<string, string> | null {
+  if (!stored) return null
+
+  const headers: Record<string, string> = {}
+  if (stored.etag) headers['If-None-Match'] = stored.etag
+  if (stored.lastModified) headers['If-Modified-Since'] = stored.lastModified
+  return Object.keys(headers).length > 0 ? headers : null
+}
+
+/**
+ * Get the shared limits of a source's usage policy; they start over when the policy changes
+ */
+function getSourceLimits(sourceId: string, policy: TileUsagePolicy): SourceLimits {
+  const limits = sourceLimits.get(sourceId)
+  if (
+    limits &&
+    limits.policy.minRequestIntervalMs === policy.minRequestIntervalMs &&
+    limits.policy.maxConcurrency === policy.maxConcurrency
+  ) {
+    return limits
+  }
+
+  const created: SourceLimits = {
+    policy,
+    limiter: createHostRateLimiter(getPolicyRequestsPerSecond(policy), 1),
+    slots: createSemaphore(policy.maxConcurrency),
+  }
+  sourceLimits.set(sourceId, created)
+  return created
+}
+
 /**
  * Download multiple tiles with progress tracking
- * Uses Promise.allSettled to handle failures gracefully
+ * Tiles are pulled from a queue by a bounded number of parallel workers,
+ * and requests are rate limited per tile host
  * Includes retry logic with exponential backoff for failed downloads
  * Optionally compresses tiles before storage
+ * Tiles finished while a write is committing are written together in the next batch
+ * Aborting `options.signal` cancels requests in flight and stores no further tiles
+ * With `options.revalidate`, stored tiles are requested conditionally and only replaced when changed
+ * With `options.usagePolicy`, downloads breaking the policy are refused before any request,
+ * and requests are paced to the policy's concurrency and minimum interval, together with all
+ * other downloads from the same source
+ * When the storage quota is used up, no further tiles are started and the download rejects
+ * with the quota error once the tiles in flight are done; tiles that could not be stored
+ * count as neither downloaded nor failed
+ * `tiles` may be generated lazily (e.g. by iterateDownloadList()) when `options.summary` describes them;
+ * other iterables are listed up front
  */
 export async function downloadTiles(
-  tiles: TileCoord[],
+  tiles: Iterable<TileCoord>,
   urlTemplate: string,
   onProgress?: DownloadProgressCallback,
   compress: boolean = true,
-  profile?: CompressionProfile
+  profile?: CompressionProfile,
+  options: DownloadTilesOptions = {}
 ): Promise<void> {
+  const policy = options.usagePolicy
+  const tileList = options.summary || Array.isArray(tiles) ? tiles : [...tiles]
+  const summary = options.summary ?? summarizeBulkDownload(tileList)
+  assertUsagePolicy(summary, policy)
+
+  const maxConcurrency = Math.min(options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY, policy?.maxConcurrency ?? Infinity)
+  const rateLimiter = createHostRateLimiter(options.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND)
+  const sourceId = options.sourceId ?? DEFAULT_TILE_SOURCE_ID
+  // The policy applies to the source as a whole, across all of its subdomains and downloads
+  const limits = policy ? getSourceLimits(sourceId, policy) : null
+
   let downloaded = 0
   let failed = 0
   let bytesDownloaded = 0
-  const total = tiles.length
+  let started = 0
+  let active = 0
+  const total = summary.tileCount
+  const signal = options.signal
+  // Set by the first write that fails because the storage is full
+  let quotaError: unknown = null
+  const shouldStop = () =>
+    !!signal?.aborted || quotaError !== null || (!!options.shouldStop && options.shouldStop())
+  const reportProgress = () => {
+    onProgress?.({ downloaded, failed, total, bytesDownloaded, queued: total - started, active })
+  }
+
+  // Tiles count as downloaded (and stay active) until their batch is written
+  const writeQueue = createTileWriteQueue((writes, error) => {
+    const storageFull = isQuotaExceededError(error)
+    if (storageFull) {
+      quotaError ??= error
+    }
+    for (const write of writes) {
+      active--
+      // Tiles that did not fit into the storage are left for a later run
+      if (storageFull) continue
+      if (error) {
+        failed++
+        options.onTileComplete?.({ tile: write.tile, ok: false, bytes: 0, error: error.message })
+      } else {
+        downloaded++
+        bytesDownloaded += write.size
+        options.onTileComplete?.({ tile: write.tile, ok: true, bytes: write.size })
+      }
+    }
+    reportProgress()
+  })
 
-  const downloadPromises = tiles.map(async (tile) => {
+  await runWithConcurrency(tileList, maxConcurrency, async (tile) => {
+    if (options.waitUntilReady) {
+      await options.waitUntilReady()
+      // Paused or cancelled while waiting
+      if (shouldStop()) return
+    }
+
+    started++
+    active++
+    let queued = false
     try {
-      const blob = await downloadTileWithRetry(tile, urlTemplate)
-      const size = await saveTileToStorage(tile, blob, compress, profile)
-      downloaded++
-      bytesDownloaded += size
-      if (onProgress) {
-        onProgress({ downloaded, failed, total, bytesDownloaded })
+      const url = expandTileUrl(urlTemplate, tile, { subdomains: options.subdomains })
+      const host = getTileHost(url)
+
+      const stored = options.revalidate ? await getStoredValidators(tile, sourceId) : null
+      const headers = getConditionalHeaders(stored) ?? undefined
+
+      // A tile holds its slot of the source until its response is read, retries included
+      const fetchTile = async () => {
+        const response = await fetchTileWithRetry(tile, url, undefined, undefined, signal, {
+          headers,
+          referrerPolicy: policy?.referrerPolicy,
+          acquire: async () => {
+            await rateLimiter.acquire(host)
+            await limits?.limiter.acquire(sourceId)
+          },
+        })
+        return { response, blob: response.status === 304 ? null : await response.blob() }
+      }
+      const { response, blob } = limits ? await limits.slots.run(fetchTile, signal) : await fetchTile()
+      if (!blob) {
+        downloaded++
+        options.onTileComplete?.({ tile, ok: true, bytes: 0, notModified: true })
+        return
       }
+
+      // Don't write tiles that arrive after cancellation
+      if (signal?.aborted) return
+
+      const write = await prepareTileForStorage(tile, blob, compress, profile, {
+        sourceId,
+        validators: getResponseValidators(response),
+      })
+      queued = true
+      await writeQueue.add(write)
     } catch (error) {
-      failed++
-      if (onProgress) {
-        onProgress({ downloaded, failed, total, bytesDownloaded })
+      // Aborted tiles count as neither downloaded nor failed
+      if (signal?.aborted) return
+      // Neither do tiles that did not fit into the storage
+      if (isQuotaExceededError(error)) {
+        quotaError ??= error
+        return
       }
+
+      failed++
+      options.onTileComplete?.({ tile, ok: false, bytes: 0, error: (error as Error).message })
       // Don't rethrow - let other downloads continue
+    } finally {
+      if (!queued) {
+        active--
+      }
+      reportProgress()
     }
-  })
-
-  await Promise.allSettled(downloadPromises)
+  }, shouldStop)
+  await writeQueue.drain()
+  await flushTileSizeStats()
+  if (quotaError !== null) {
+    throw quotaError
+  }
 }
@@ -1,27 +1,22 @@
-import { get, set, del } from 'idb-keyval'
 import type { TileCoord, TileMetadata, CompressionFormat, CompressionProfile } from '@/types'
+import { deleteRecord, getRecord, getRecords, putRecord } from './db'
+import { getTileKey } from './tileDownloader'
+import { DEFAULT_TILE_SOURCE_ID } from './tileSources'
 
 /**
- * Generate storage key for tile metadata
+ * Create the metadata record of a compressed tile
  */
-function getMetadataKey(tile: TileCoord): string {
-  return `tile_meta_${tile.z}_${tile.x}_${tile.y}`
-}
-
-/**
- * Save tile metadata to IndexedDB
- */
-export async function saveTileMetadata(
+export function createTileMetadata(
   tile: TileCoord,
   format: CompressionFormat,
   profile: CompressionProfile,
   originalSize: number,
   compressedSize: number,
-  compressionRatio: number
-): Promise<void> {
-  const key = getMetadataKey(tile)
-  const metadata: TileMetadata = {
-    tileKey: `tile_${tile.z}_${tile.x}_${tile.y}`,
+  compressionRatio: number,
+  sourceId: string = DEFAULT_TILE_SOURCE_ID
+): TileMetadata {
+  return {
+    tileKey: getTileKey(tile, sourceId),
     format,
     profile,
     originalSize,
@@ -29,48 +24,72 @@ export async function saveTileMetadata(
     compressionRatio,
     compressedAt: new Date().toISOString(),
   }
+}
 
-  await set(key, metadata)
+/**
+ * Save tile metadata to IndexedDB
+ */
+export async function saveTileMetadata(
+  tile: TileCoord,
+  format: CompressionFormat,
+  profile: CompressionProfile,
+  originalSize: number,
+  compressedSize: number,
+  compressionRatio: number,
+  sourceId: string = DEFAULT_TILE_SOURCE_ID
+): Promise<void> {
+  await putRecord(
+    'tileMeta',
+    createTileMetadata(tile, format, profile, originalSize, compressedSize, compressionRatio, sourceId)
+  )
 }
 
 /**
  * Get tile metadata from IndexedDB
  */
-export async function getTileMetadata(tile: TileCoord): Promise<TileMetadata | null> {
-  const key = getMetadataKey(tile)
-  return (await get<TileMetadata>(key)) || null
+export async function getTileMetadata(
+  tile: TileCoord,
+  sourceId: string = DEFAULT_TILE_SOURCE_ID
+): Promise<TileMetadata | null> {
+  return (await getRecord('tileMeta', getTileKey(tile, sourceId))) || null
 }
 
 /**
  * Delete tile metadata from IndexedDB
  */
-export async function deleteTileMetadata(tile: TileCoord): Promise<void> {
-  const key = getMetadataKey(tile)
-  await del(key)
+export async function deleteTileMetadata(tile: TileCoord, sourceId: string = DEFAULT_TILE_SOURCE_ID): Promise<void> {
+  await deleteRecord('tileMeta', getTileKey(tile, sourceId))
 }
 
 /**
  * Get metadata for multiple tiles
  */
-export async function getTilesMetadata(tiles: TileCoord[]): Promise<Map<string, TileMetadata>> {
+export async function getTilesMetadata(
+  tiles: TileCoord[],
+  sourceId: string = DEFAULT_TILE_SOURCE_ID
+): Promise<Map<string, TileMetadata>> {
   const metadataMap = new Map<string, TileMetadata>()
-
-  await Promise.all(
-    tiles.map(async (tile) => {
-      const metadata = await getTileMetadata(tile)
-      if (metadata) {
-        metadataMap.set(metadata.tileKey, metadata)
-      }
-    })
+  const records = await getRecords(
+    'tileMeta',
+    tiles.map((tile) => getTileKey(tile, sourceId))
   )
 
+  for (const metadata of records) {
+    if (metadata) {
+      metadataMap.set(metadata.tileKey, metadata)
+    }
+  }
+
   return metadataMap
 }
 
 /**
  * Calculate compression statistics for a set of tiles
  */
-export async function getCompressionStats(tiles: TileCoord[]): Promise<{
+export async function getCompressionStats(
+  tiles: TileCoord[],
+  sourceId: string = DEFAULT_TILE_SOURCE_ID
+): Promise<{
   totalOriginalSize: number
   totalCompressedSize: number
   averageCompressionRatio: number
@@ -80,16 +99,11 @@ export async function getCompressionStats(tiles: TileCoord[]): Promise<{
   let totalCompressedSize = 0
   let tilesWithMetadata = 0
 
-  await Promise.all(
-    tiles.map(async (tile) => {
-      const metadata = await getTileMetadata(tile)
-      if (metadata) {
-        totalOriginalSize += metadata.originalSize
-        totalCompressedSize += metadata.compressedSize
-        tilesWithMetadata++
-      }
-    })
-  )
+  for (const metadata of (await getTilesMetadata(tiles, sourceId)).values()) {
+    totalOriginalSize += metadata.originalSize
+    totalCompressedSize += metadata.compressedSize
+    tilesWithMetadata++
+  }
 
   const averageCompressionRatio =
     tilesWithMetadata > 0 ? totalCompressedSize / totalOriginalSize : 1.0
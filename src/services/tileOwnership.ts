@@ -0,0 +1,148 @@
+import type { DownloadedArea } from '@/types'
+import {
+  deleteRecords,
+  getAllKeys,
+  getKeysFromIndex,
+  getRecord,
+  getRecords,
+  getSetting,
+  OWNERS_BY_AREA_INDEX,
+  putRecords,
+  putSetting,
+  withStores,
+} from './db'
+import { iterateDownloadList } from './tileCalculator'
+import { getTileKey } from './tileDownloader'
+import { getRecordSourceId } from './tileSources'
+
+/**
+ * Tile ownership index: one record per tile in the tileOwners store listing the IDs of
+ * the areas that use it. A tile may only be deleted once no area references it.
+ */
+const INDEX_VERSION_KEY = 'ownership_index_version'
+const INDEX_VERSION = 1
+// Tiles registered per transaction, areas can own millions of tiles
+const OWNER_BATCH_SIZE = 500
+
+export interface TileOwnersRecord {
+  tileKey: string
+  areaIds: string[] // indexed per area, see OWNERS_BY_AREA_INDEX
+}
+
+/**
+ * Iterate the keys of the tiles an area owns: every tile of its extent except failed ones
+ * Tiles a partial area has not tried yet are included, they are only counted on the area
+ */
+export function* iterateAreaTileKeys(area: DownloadedArea): Generator<string> {
+  const sourceId = getRecordSourceId(area)
+  const failed = new Set((area.failedTiles ?? []).map((failedTile) => getTileKey(failedTile.tile, sourceId)))
+  for (const tile of iterateDownloadList(area.bbox, area.baseZoom, area.additionalZoomLevels)) {
+    const key = getTileKey(tile, sourceId)
+    if (!failed.has(key)) yield key
+  }
+}
+
+/**
+ * Register an area as owner of the given tiles, OWNER_BATCH_SIZE tiles per batch
+ * `tileKeys` may be generated lazily (e.g. by iterateAreaTileKeys()); their browse cache entries are dropped
+ */
+export async function addTileOwner(areaId: string, tileKeys: Iterable<string>): Promise<void> {
+  let batch: string[] = []
+  for (const tileKey of tileKeys) {
+    batch.push(tileKey)
+    if (batch.length === OWNER_BATCH_SIZE) {
+      await addTileOwnerBatch(areaId, batch)
+      batch = []
+    }
+  }
+  await addTileOwnerBatch(areaId, batch)
+}
+
+async function addTileOwnerBatch(areaId: string, tileKeys: string[]): Promise<void> {
+  if (tileKeys.length === 0) return
+  const current = await getRecords('tileOwners', tileKeys)
+
+  const records: TileOwnersRecord[] = []
+  tileKeys.forEach((tileKey, index) => {
+    const owners = current[index]?.areaIds ?? []
+    if (!owners.includes(areaId)) {
+      records.push({ tileKey, areaIds: [...owners, areaId] })
+    }
+  })
+
+  // Tiles an area owns no longer count toward the browse cache
+  await withStores(['tileOwners', 'browseCache'], 'readwrite', (transaction) => {
+    const owners = transaction.objectStore('tileOwners')
+    for (const record of records) owners.put(record)
+    const browseCache = transaction.objectStore('browseCache')
+    for (const tileKey of tileKeys) browseCache.delete(tileKey)
+  })
+}
+
+/**
+ * Remove an area as owner of the given tiles
+ * @returns Keys of the tiles no area references anymore (safe to delete)
+ */
+export async function removeTileOwner(areaId: string, tileKeys: string[]): Promise<string[]> {
+  const current = await getRecords('tileOwners', tileKeys)
+
+  const orphaned: string[] = []
+  const updates: TileOwnersRecord[] = []
+  tileKeys.forEach((tileKey, index) => {
+    const owners = (current[index]?.areaIds ?? []).filter((owner) => owner !== areaId)
+    if (owners.length === 0) {
+      orphaned.push(tileKey)
+    } else {
+      updates.push({ tileKey, areaIds: owners })
+    }
+  })
+
+  await putRecords('tileOwners', updates)
+  await deleteRecords('tileOwners', orphaned)
+
+  return orphaned
+}
+
+/**
+ * Get the IDs of the areas owning a tile
+ */
+export async function getTileOwners(tileKey: string): Promise<string[]> {
+  return (await getRecord('tileOwners', tileKey))?.areaIds ?? []
+}
+
+/**
+ * Get the keys of the tiles an area is registered as owner of
+ */
+export async function getOwnedTileKeys(areaId: string): Promise<string[]> {
+  return getKeysFromIndex('tileOwners', OWNERS_BY_AREA_INDEX, areaId)
+}
+
+/**
+ * Get the given tile keys that no area owns
+ */
+export async function getUnownedTileKeys(tileKeys: string[]): Promise<string[]> {
+  const current = await getRecords('tileOwners', tileKeys)
+  return tileKeys.filter((_, index) => !current[index] || current[index]!.areaIds.length === 0)
+}
+
+/**
+ * Get the keys of all tiles owned by at least one area
+ */
+export async function getAllOwnedTileKeys(): Promise<Set<string>> {
+  return new Set(await getAllKeys('tileOwners'))
+}
+
+/**
+ * Build the index for areas saved before it existed (runs once)
+ */
+export async function ensureOwnershipIndex(loadAreas: () => Promise<DownloadedArea[]>): Promise<void> {
+  const version = await getSetting<number>(INDEX_VERSION_KEY)
+  if (version === INDEX_VERSION) {
+    return
+  }
+
+  for (const area of await loadAreas()) {
+    await addTileOwner(area.id, iterateAreaTileKeys(area))
+  }
+  await putSetting(INDEX_VERSION_KEY, INDEX_VERSION)
+}
@@ -0,0 +1,280 @@
+import type { TileCoord, TileSizeEstimate } from '@/types'
+import type { TileRange } from './tileCalculator'
+
+/**
+ * Sample-based size estimate: a stratified random sample of the tiles of a download is
+ * fetched and stored, and the measured sizes are extrapolated to the whole download.
+ *
+ * Strata are zoom levels split into a grid over the extent, so the sample covers every
+ * zoom level and both e.g. the sea and the city part of an area. Strata are sized from the
+ * tile ranges and sample tiles drawn within them, so the download is never listed as a whole.
+ */
+
+export const DEFAULT_SAMPLE_SIZE = 40
+
+// Grid cells per axis each zoom level is split into
+const SPATIAL_STRATA = 4
+// Sampled tiles per zoom level at least, two are needed for the size spread
+const MIN_SAMPLES_PER_ZOOM = 2
+// Range of a zoom level whose sample tiles all failed, estimated from the other zoom levels
+const UNSAMPLED_RANGE_FACTORS = [0.5, 2] as const
+// z value of the 95% range
+const RANGE_Z = 1.96
+
+export interface TileSizeSample {
+  tile: TileCoord
+  bytes: number // stored (compressed) size
+  originalBytes: number // size as downloaded
+}
+
+export interface SampledSizeEstimate extends TileSizeEstimate {
+  originalBytes: number // extrapolated size before compression
+  failedTiles: number // sample tiles that could not be downloaded
+}
+
+export interface StratifiedSampleOptions {
+  sampleSize?: number // tiles to select (default: 40)
+  excludeTiles?: Iterable<TileCoord> // tiles of the ranges left out, e.g. tiles already stored
+  random?: () => number
+}
+
+/**
+ * Grid cell of a zoom level with the tiles it has and the excluded ones among them
+ */
+interface SampleCell {
+  z: number
+  minX: number
+  maxX: number
+  minY: number
+  maxY: number
+  excluded: Set<string> // x/y of excluded tiles
+  count: number // tiles that are not excluded
+}
+
+/**
+ * Split `total` proportionally to `counts` (largest remainder method)
+ * Each entry gets at least `minimum` (capped at its count)
+ */
+function allocateProportionally(counts: number[], total: number, minimum = 0): number[] {
+  const allocation = counts.map((count) => Math.min(count, minimum))
+  const remaining = total - allocation.reduce((sum, value) => sum + value, 0)
+  const capacities = counts.map((count, index) => count - allocation[index]!)
+  const totalCapacity = capacities.reduce((sum, value) => sum + value, 0)
+  if (remaining <= 0 || totalCapacity === 0) {
+    return allocation
+  }
+
+  const quotas = capacities.map((capacity) => (remaining * capacity) / totalCapacity)
+  quotas.forEach((quota, index) => {
+    allocation[index]! += Math.floor(quota)
+  })
+
+  let leftover = remaining - quotas.reduce((sum, quota) => sum + Math.floor(quota), 0)
+  const byRemainder = quotas
+    .map((quota, index) => ({ index, fraction: quota - Math.floor(quota) }))
+    .sort((a, b) => b.fraction - a.fraction)
+  for (const { index } of byRemainder) {
+    if (leftover === 0) break
+    if (allocation[index]! < counts[index]!) {
+      allocation[index]!++
+      leftover--
+    }
+  }
+  return allocation
+}
+
+/**
+ * Pick `count` random items without replacement (partial Fisher-Yates shuffle)
+ */
+function pickRandom<T>(items: T[], count: number, random: () => number): T[] {
+  const pool = [...items]
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (pool.length - i))
+    ;[pool[i], pool[j]] = [pool[j]!, pool[i]!]
+  }
+  return pool.slice(0, count)
+}
+
+/**
+ * Bounds of the grid cells along one axis of a range: cell i holds the coordinates
+ * with floor((c - min) * SPATIAL_STRATA / size) === i; cells of small ranges may be empty
+ */
+function getCellBounds(min: number, max: number): [number, number][] {
+  const size = max - min + 1
+  return Array.from({ length: SPATIAL_STRATA }, (_, i): [number, number] => [
+    min + Math.ceil((i * size) / SPATIAL_STRATA),
+    min + Math.ceil(((i + 1) * size) / SPATIAL_STRATA) - 1,
+  ]).filter(([from, to]) => from <= to)
+}
+
+/**
+ * Split the tile range of one zoom level into grid cells, counting the tiles left in each
+ */
+function getSampleCells(range: TileRange, excludeTiles: TileCoord[]): SampleCell[] {
+  const cells: SampleCell[] = []
+  for (const [minY, maxY] of getCellBounds(range.minY, range.maxY)) {
+    for (const [minX, maxX] of getCellBounds(range.minX, range.maxX)) {
+      cells.push({ z: range.z, minX, maxX, minY, maxY, excluded: new Set(), count: 0 })
+    }
+  }
+
+  const findCell = (tile: TileCoord) =>
+    cells.find((cell) => tile.x >= cell.minX && tile.x <= cell.maxX && tile.y >= cell.minY && tile.y <= cell.maxY)
+  for (const tile of excludeTiles) {
+    if (tile.z === range.z) {
+      findCell(tile)?.excluded.add(`${tile.x}/${tile.y}`)
+    }
+  }
+
+  for (const cell of cells) {
+    cell.count = (cell.maxX - cell.minX + 1) * (cell.maxY - cell.minY + 1) - cell.excluded.size
+  }
+  return cells.filter((cell) => cell.count > 0)
+}
+
+/**
+ * List the tiles of a cell that are not excluded
+ * Only used when the cell has few tiles left, so the list is at most about twice the excluded tiles
+ */
+function listCellTiles(cell: SampleCell): TileCoord[] {
+  const tiles: TileCoord[] = []
+  for (let x = cell.minX; x <= cell.maxX; x++) {
+    for (let y = cell.minY; y <= cell.maxY; y++) {
+      if (!cell.excluded.has(`${x}/${y}`)) tiles.push({ z: cell.z, x, y })
+    }
+  }
+  return tiles
+}
+
+/**
+ * Pick `count` random tiles of a cell that are not excluded
+ * Mostly unexcluded cells are drawn from at random, others are listed first
+ */
+function pickCellTiles(cell: SampleCell, count: number, random: () => number): TileCoord[] {
+  const width = cell.maxX - cell.minX + 1
+  const height = cell.maxY - cell.minY + 1
+  if (count >= cell.count || cell.count * 2 < width * height) {
+    return pickRandom(listCellTiles(cell), Math.min(count, cell.count), random)
+  }
+
+  const picked = new Map<string, TileCoord>()
+  while (picked.size < count) {
+    const x = cell.minX + Math.floor(random() * width)
+    const y = cell.minY + Math.floor(random() * height)
+    const key = `${x}/${y}`
+    if (!cell.excluded.has(key) && !picked.has(key)) {
+      picked.set(key, { z: cell.z, x, y })
+    }
+  }
+  return [...picked.values()]
+}
+
+/**
+ * Select a stratified random sample of about `options.sampleSize` tiles of the given tile ranges
+ * Zoom levels get a share proportional to their tile count (at least two tiles each),
+ * which is spread over grid cells of the extent the same way
+ */
+export function selectStratifiedSample(ranges: TileRange[], options: StratifiedSampleOptions = {}): TileCoord[] {
+  const sampleSize = options.sampleSize ?? DEFAULT_SAMPLE_SIZE
+  const random = options.random ?? Math.random
+  const excludeTiles = [...(options.excludeTiles ?? [])]
+
+  const zoomCells = ranges.map((range) => getSampleCells(range, excludeTiles))
+  const zoomCounts = zoomCells.map((cells) => cells.reduce((total, cell) => total + cell.count, 0))
+  const zoomAllocation =
+    zoomCounts.reduce((total, count) => total + count, 0) <= sampleSize
+      ? zoomCounts
+      : allocateProportionally(zoomCounts, sampleSize, MIN_SAMPLES_PER_ZOOM)
+
+  const sample: TileCoord[] = []
+  zoomCells.forEach((cells, zoomIndex) => {
+    const cellAllocation = allocateProportionally(
+      cells.map((cell) => cell.count),
+      zoomAllocation[zoomIndex]!
+    )
+    cells.forEach((cell, cellIndex) => {
+      sample.push(...pickCellTiles(cell, cellAllocation[cellIndex]!, random))
+    })
+  })
+  return sample
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0)
+}
+
+function mean(values: number[]): number {
+  return sum(values) / values.length
+}
+
+function sampleVariance(values: number[]): number {
+  if (values.length < 2) return 0
+  const average = mean(values)
+  return sum(values.map((value) => (value - average) ** 2)) / (values.length - 1)
+}
+
+/**
+ * Extrapolate the measured sample sizes to all tiles of a download
+ *
+ * Sampled tiles count with their real size; the other tiles of a zoom level with the
+ * mean size of its samples. The range covers the size spread and the uncertainty of the mean.
+ * Zoom levels without a measured sample use the mean of all samples with a wide range.
+ * `tilesPerZoom` counts the tiles of the download per zoom level, samples included
+ */
+export function extrapolateSampleSizes(
+  tilesPerZoom: ReadonlyMap<number, number>,
+  samples: TileSizeSample[],
+  failedTiles: number = 0
+): SampledSizeEstimate {
+  if (samples.length === 0) {
+    throw new Error('Sampling failed: none of the sample tiles could be downloaded')
+  }
+
+  const samplesPerZoom = new Map<number, TileSizeSample[]>()
+  for (const sample of samples) {
+    const zoomSamples = samplesPerZoom.get(sample.tile.z) ?? []
+    zoomSamples.push(sample)
+    samplesPerZoom.set(sample.tile.z, zoomSamples)
+  }
+  const overallMean = mean(samples.map((sample) => sample.bytes))
+  const overallOriginalMean = mean(samples.map((sample) => sample.originalBytes))
+
+  let measuredBytes = 0
+  let variance = 0
+  let unsampledBytes = 0
+  let originalBytes = 0
+  const bytesPerZoom: Record<number, number> = {}
+
+  for (const [zoom, tileCount] of tilesPerZoom) {
+    const zoomSamples = samplesPerZoom.get(zoom) ?? []
+    const remaining = tileCount - zoomSamples.length
+
+    if (zoomSamples.length === 0) {
+      bytesPerZoom[zoom] = Math.round(remaining * overallMean)
+      unsampledBytes += remaining * overallMean
+      originalBytes += remaining * overallOriginalMean
+      continue
+    }
+
+    const sizes = zoomSamples.map((sample) => sample.bytes)
+    const sizeVariance = sampleVariance(sizes)
+    bytesPerZoom[zoom] = Math.round(sum(sizes) + remaining * mean(sizes))
+    measuredBytes += sum(sizes) + remaining * mean(sizes)
+    variance += remaining * sizeVariance + (remaining * remaining * sizeVariance) / sizes.length
+
+    const originalSizes = zoomSamples.map((sample) => sample.originalBytes)
+    originalBytes += sum(originalSizes) + remaining * mean(originalSizes)
+  }
+
+  const [lowFactor, highFactor] = UNSAMPLED_RANGE_FACTORS
+  const margin = RANGE_Z * Math.sqrt(variance)
+  return {
+    bytes: Math.round(measuredBytes + unsampledBytes),
+    lowBytes: Math.round(Math.max(0, measuredBytes - margin) + unsampledBytes * lowFactor),
+    highBytes: Math.round(measuredBytes + margin + unsampledBytes * highFactor),
+    sampledTiles: samples.length,
+    bytesPerZoom,
+    originalBytes: Math.round(originalBytes),
+    failedTiles,
+  }
+}
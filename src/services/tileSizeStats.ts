@@ -0,0 +1,278 @@
+import { getSetting, updateSetting } from './db'
+import type { TileCoord, TileSizeEstimate, TileSizeProfile, TileSizeStat, TileSizeStats } from '@/types'
+import { getAllStoredTileKeys, parseTileKey } from './tileDownloader'
+import { getTileMetadata } from './tileMetadata'
+import { DEFAULT_TILE_SOURCE_ID } from './tileSources'
+import { getTileStore } from './tileStore'
+
+/**
+ * Tile size statistics: running mean and variance of stored tile sizes per source, zoom
+ * and compression profile, used to estimate how much storage a download needs.
+ *
+ * Tile sizes vary a lot (sea tiles are a few hundred bytes, city tiles 50 KB and more),
+ * so estimates come with a range. Without samples the estimate falls back to 20 KB per tile.
+ */
+
+const STATS_KEY = 'tile_size_stats'
+
+export const DEFAULT_TILE_SIZE_BYTES = 20 * 1024
+
+// Range of the default tile size, used while no tiles of a source are stored
+const DEFAULT_RANGE_FACTORS = [0.25, 2.5] as const
+// Range of a mean borrowed from a nearby zoom level
+const NEIGHBOUR_RANGE_FACTORS = [0.5, 2] as const
+// Zoom levels with fewer samples borrow the mean of the nearest zoom level with enough samples
+const MIN_SAMPLES = 10
+const MAX_NEIGHBOUR_ZOOM_DISTANCE = 3
+// z value of the 95% range
+const RANGE_Z = 1.96
+
+// Samples are written in batches, tiles are stored in parallel
+const FLUSH_SAMPLES = 25
+const REBUILD_BATCH_SIZE = 500
+
+export interface TileSizeEstimateOptions {
+  stats?: TileSizeStats // learned statistics, see getTileSizeStats()
+  sourceId?: string // tile source the tiles are stored for (default: OSM)
+  profile?: TileSizeProfile // profile the tiles are stored with, undefined matches any profile
+}
+
+let pendingStats: TileSizeStats = {}
+let pendingSamples = 0
+let rebuilding: Promise<void> | null = null
+
+function getStatKey(sourceId: string, zoom: number, profile: TileSizeProfile): string {
+  return `${sourceId}/${zoom}/${profile}`
+}
+
+function addSample(stat: TileSizeStat | undefined, bytes: number): TileSizeStat {
+  const count = (stat?.count ?? 0) + 1
+  const delta = bytes - (stat?.mean ?? 0)
+  const mean = (stat?.mean ?? 0) + delta / count
+  return { count, mean, m2: (stat?.m2 ?? 0) + delta * (bytes - mean) }
+}
+
+function mergeStat(a: TileSizeStat, b: TileSizeStat): TileSizeStat {
+  const count = a.count + b.count
+  const delta = b.mean - a.mean
+  return {
+    count,
+    mean: a.mean + (delta * b.count) / count,
+    m2: a.m2 + b.m2 + (delta * delta * a.count * b.count) / count,
+  }
+}
+
+function mergeStats(target: TileSizeStats, source: TileSizeStats): TileSizeStats {
+  const merged = { ...target }
+  for (const [key, stat] of Object.entries(source)) {
+    merged[key] = merged[key] ? mergeStat(merged[key]!, stat) : stat
+  }
+  return merged
+}
+
+function getVariance(stat: TileSizeStat): number {
+  return stat.count > 1 ? stat.m2 / (stat.count - 1) : 0
+}
+
+/**
+ * Build the statistics from the tiles stored before they existed
+ * Compressed tiles are read from their metadata, other tiles from the stored blob size
+ */
+async function rebuildTileSizeStats(): Promise<TileSizeStats> {
+  const stats: TileSizeStats = {}
+  const tileKeys = await getAllStoredTileKeys()
+  const store = await getTileStore()
+
+  for (let i = 0; i < tileKeys.length; i += REBUILD_BATCH_SIZE) {
+    const batch = tileKeys.slice(i, i + REBUILD_BATCH_SIZE).map((key) => ({ key, parsed: parseTileKey(key)! }))
+    const metadata = await Promise.all(batch.map(({ parsed }) => getTileMetadata(parsed.tile, parsed.sourceId)))
+    const uncompressed = batch.filter((_, index) => !metadata[index])
+    const stored = await store.getMany(uncompressed.map(({ key }) => key))
+
+    batch.forEach(({ parsed }, index) => {
+      const tileMetadata = metadata[index]
+      if (tileMetadata) {
+        const key = getStatKey(parsed.sourceId, parsed.tile.z, tileMetadata.profile)
+        stats[key] = addSample(stats[key], tileMetadata.compressedSize)
+      }
+    })
+    uncompressed.forEach(({ parsed }, index) => {
+      const size = stored[index]?.data?.size
+      if (size !== undefined) {
+        const key = getStatKey(parsed.sourceId, parsed.tile.z, 'uncompressed')
+        stats[key] = addSample(stats[key], size)
+      }
+    })
+  }
+
+  return stats
+}
+
+/**
+ * Create the statistics for tiles stored before they existed (runs once)
+ */
+async function ensureTileSizeStats(): Promise<void> {
+  if ((await getSetting<TileSizeStats>(STATS_KEY)) !== undefined) {
+    return
+  }
+
+  rebuilding ??= rebuildTileSizeStats()
+    .then((stats) => updateSetting<TileSizeStats>(STATS_KEY, (current) => current ?? stats))
+    .finally(() => {
+      rebuilding = null
+    })
+  await rebuilding
+}
+
+/**
+ * Record the stored size of a tile
+ * Call before the tile is written, so the one-time rebuild does not count it twice
+ */
+export async function recordTileSize(
+  tile: TileCoord,
+  bytes: number,
+  profile: TileSizeProfile,
+  sourceId: string = DEFAULT_TILE_SOURCE_ID
+): Promise<void> {
+  await ensureTileSizeStats()
+
+  const key = getStatKey(sourceId, tile.z, profile)
+  pendingStats[key] = addSample(pendingStats[key], bytes)
+  pendingSamples++
+
+  if (pendingSamples >= FLUSH_SAMPLES) {
+    await flushTileSizeStats()
+  }
+}
+
+/**
+ * Write recorded samples to IndexedDB
+ */
+export async function flushTileSizeStats(): Promise<void> {
+  if (pendingSamples === 0) {
+    return
+  }
+
+  const samples = pendingStats
+  pendingStats = {}
+  pendingSamples = 0
+  await updateSetting<TileSizeStats>(STATS_KEY, (current) => mergeStats(current ?? {}, samples))
+}
+
+/**
+ * Get the tile size statistics from IndexedDB
+ */
+export async function getTileSizeStats(): Promise<TileSizeStats> {
+  await ensureTileSizeStats()
+  await flushTileSizeStats()
+  return (await getSetting<TileSizeStats>(STATS_KEY)) ?? {}
+}
+
+/**
+ * Get the statistics of a zoom level, merging all profiles if none is given
+ */
+function findStat(
+  stats: TileSizeStats,
+  sourceId: string,
+  zoom: number,
+  profile: TileSizeProfile | undefined
+): TileSizeStat | undefined {
+  if (profile) {
+    return stats[getStatKey(sourceId, zoom, profile)]
+  }
+
+  const prefix = `${sourceId}/${zoom}/`
+  let merged: TileSizeStat | undefined
+  for (const [key, stat] of Object.entries(stats)) {
+    if (key.startsWith(prefix)) {
+      merged = merged ? mergeStat(merged, stat) : stat
+    }
+  }
+  return merged
+}
+
+/**
+ * Find the nearest zoom level with enough samples
+ */
+function findNeighbourStat(
+  stats: TileSizeStats,
+  sourceId: string,
+  zoom: number,
+  profile: TileSizeProfile | undefined
+): TileSizeStat | undefined {
+  for (let distance = 1; distance <= MAX_NEIGHBOUR_ZOOM_DISTANCE; distance++) {
+    for (const neighbourZoom of [zoom - distance, zoom + distance]) {
+      const stat = findStat(stats, sourceId, neighbourZoom, profile)
+      if (stat && stat.count >= MIN_SAMPLES) {
+        return stat
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Estimate the storage size of tiles with a 95% range
+ *
+ * Zoom levels with enough samples use their mean; the range covers the size spread of
+ * single tiles and the uncertainty of the mean. Other zoom levels borrow the mean of a
+ * nearby zoom level or fall back to 20 KB per tile, with a wide fixed range.
+ */
+export function estimateTileSizes(tiles: TileCoord[], options: TileSizeEstimateOptions = {}): TileSizeEstimate {
+  const tilesPerZoom = new Map<number, number>()
+  for (const tile of tiles) {
+    tilesPerZoom.set(tile.z, (tilesPerZoom.get(tile.z) ?? 0) + 1)
+  }
+  return estimateTileSizesPerZoom(tilesPerZoom, options)
+}
+
+/**
+ * Estimate the storage size of tiles from their count per zoom level
+ * Same as estimateTileSizes(), for downloads too large to list their tiles
+ */
+export function estimateTileSizesPerZoom(
+  tilesPerZoom: ReadonlyMap<number, number>,
+  options: TileSizeEstimateOptions = {}
+): TileSizeEstimate {
+  const stats = options.stats ?? {}
+  const sourceId = options.sourceId ?? DEFAULT_TILE_SOURCE_ID
+
+  let learnedBytes = 0
+  let learnedVariance = 0
+  let fallbackBytes = 0
+  let fallbackLowBytes = 0
+  let fallbackHighBytes = 0
+  let sampledTiles = 0
+  const bytesPerZoom: Record<number, number> = {}
+
+  for (const [zoom, count] of tilesPerZoom) {
+    if (count === 0) continue
+    const stat = findStat(stats, sourceId, zoom, options.profile)
+    if (stat && stat.count >= MIN_SAMPLES) {
+      const variance = getVariance(stat)
+      bytesPerZoom[zoom] = Math.round(count * stat.mean)
+      learnedBytes += count * stat.mean
+      learnedVariance += count * variance + (count * count * variance) / stat.count
+      sampledTiles += stat.count
+      continue
+    }
+
+    const neighbour = findNeighbourStat(stats, sourceId, zoom, options.profile)
+    const mean = neighbour?.mean ?? DEFAULT_TILE_SIZE_BYTES
+    const [lowFactor, highFactor] = neighbour ? NEIGHBOUR_RANGE_FACTORS : DEFAULT_RANGE_FACTORS
+    bytesPerZoom[zoom] = Math.round(count * mean)
+    fallbackBytes += count * mean
+    fallbackLowBytes += count * mean * lowFactor
+    fallbackHighBytes += count * mean * highFactor
+    sampledTiles += neighbour?.count ?? 0
+  }
+
+  const margin = RANGE_Z * Math.sqrt(learnedVariance)
+  return {
+    bytes: Math.round(learnedBytes + fallbackBytes),
+    lowBytes: Math.round(Math.max(0, learnedBytes - margin) + fallbackLowBytes),
+    highBytes: Math.round(learnedBytes + margin + fallbackHighBytes),
+    sampledTiles,
+    bytesPerZoom,
+  }
+}
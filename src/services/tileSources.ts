@@ -0,0 +1,118 @@
+import type { TileSource, TileUsagePolicy } from '@/types'
+
+/**
+ * Registry of the tile sources (basemaps) that can be shown and downloaded
+ * Tiles are stored per source; the default source keeps the original tile_z_x_y keys
+ */
+
+export const DEFAULT_TILE_SOURCE_ID = 'osm'
+
+const OSM_ATTRIBUTION =
+  '&#169; <a href="https://www.openstreetmap.org/copyright" target="_blank">OpenStreetMap</a> contributors'
+
+// Zoom 17+ bulk downloads are forbidden by the OSMF tile usage policy; the community hosted
+// servers below have far less capacity, so they get stricter limits
+const OSM_USAGE_POLICY: TileUsagePolicy = {
+  maxTilesPerJob: 1000,
+  maxBulkZoom: 16,
+  minRequestIntervalMs: 100,
+  maxConcurrency: 2,
+  referrerPolicy: 'strict-origin-when-cross-origin',
+}
+
+const COMMUNITY_USAGE_POLICY: TileUsagePolicy = {
+  ...OSM_USAGE_POLICY,
+  maxTilesPerJob: 500,
+  maxBulkZoom: 15,
+  minRequestIntervalMs: 250,
+}
+
+const BUILT_IN_SOURCES: TileSource[] = [
+  {
+    id: DEFAULT_TILE_SOURCE_ID,
+    name: 'OpenStreetMap',
+    urlTemplate: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: OSM_ATTRIBUTION,
+    minZoom: 0,
+    maxZoom: 19,
+    tileSize: 256,
+    usagePolicyUrl: 'https://operations.osmfoundation.org/policies/tiles/',
+    usagePolicy: OSM_USAGE_POLICY,
+  },
+  {
+    id: 'opentopomap',
+    name: 'OpenTopoMap',
+    urlTemplate: 'https://{a-c}.tile.opentopomap.org/{z}/{x}/{y}.png',
+    attribution: `${OSM_ATTRIBUTION}, SRTM | Map style: &#169; <a href="https://opentopomap.org" target="_blank">OpenTopoMap</a> (CC-BY-SA)`,
+    minZoom: 0,
+    maxZoom: 17,
+    tileSize: 256,
+    usagePolicyUrl: 'https://opentopomap.org/about',
+    usagePolicy: COMMUNITY_USAGE_POLICY,
+  },
+  {
+    id: 'cyclosm',
+    name: 'CyclOSM',
+    urlTemplate: 'https://{a-c}.tile-cyclosm.openstreetmap.fr/cyclosm/{z}/{x}/{y}.png',
+    attribution: `<a href="https://www.cyclosm.org" target="_blank">CyclOSM</a> | ${OSM_ATTRIBUTION}`,
+    minZoom: 0,
+    maxZoom: 20,
+    tileSize: 256,
+    usagePolicy: COMMUNITY_USAGE_POLICY,
+  },
+]
+
+// Source IDs become part of storage keys (tile_<id>_z_x_y), "meta" is taken by tile metadata
+const SOURCE_ID_PATTERN = /^[a-z][a-z0-9-]*$/
+const RESERVED_SOURCE_IDS = ['meta']
+
+const sources = new Map<string, TileSource>()
+
+/**
+ * Add a tile source to the registry
+ */
+export function registerTileSource(source: TileSource): void {
+  if (!SOURCE_ID_PATTERN.test(source.id) || RESERVED_SOURCE_IDS.includes(source.id)) {
+    throw new Error(`Invalid tile source ID: ${source.id}`)
+  }
+  if (sources.has(source.id)) {
+    throw new Error(`Tile source already registered: ${source.id}`)
+  }
+  sources.set(source.id, source)
+}
+
+/**
+ * Get all registered tile sources in registration order
+ */
+export function getTileSources(): TileSource[] {
+  return [...sources.values()]
+}
+
+/**
+ * Get a tile source by ID, or undefined if it is not registered
+ */
+export function findTileSource(sourceId: string): TileSource | undefined {
+  return sources.get(sourceId)
+}
+
+/**
+ * Get a tile source by ID
+ */
+export function getTileSource(sourceId: string): TileSource {
+  const source = sources.get(sourceId)
+  if (!source) {
+    throw new Error(`Unknown tile source: ${sourceId}`)
+  }
+  return source
+}
+
+/**
+ * Get the source ID of an area or job; records from before sources existed use the default source
+ */
+export function getRecordSourceId(record: { sourceId?: string }): string {
+  return record.sourceId ?? DEFAULT_TILE_SOURCE_ID
+}
+
+for (const source of BUILT_IN_SOURCES) {
+  registerTileSource(source)
+}
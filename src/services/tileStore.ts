@@ -0,0 +1,202 @@
+import type { TileMetadata } from '@/types'
+import { countRecords, getSetting, putSetting } from './db'
+import type { TileStorageData } from './tileDownloader'
+import { createIndexedDbTileStore } from './indexedDbTileStore'
+import { createCacheStorageTileStore } from './cacheStorageTileStore'
+import { createOpfsTileStore } from './opfsTileStore'
+import { getPlatformInfo, type PlatformInfo } from '@/utils/platform'
+
+/**
+ * Tile storage backends: tile blobs live in IndexedDB, Cache Storage or the Origin Private
+ * File System behind one TileStore interface. Metadata, ownership and areas stay in IndexedDB.
+ *
+ * Quotas differ per browser (iOS Safari gives the Cache API about 50 MB but IndexedDB
+ * 500 MB and more), so the backend is picked per platform on first use and kept in the
+ * settings. Tiles can be moved to another backend with migrateTileStore().
+ */
+
+export type TileStoreBackend = 'indexeddb' | 'cache' | 'opfs'
+
+export interface TileStoreEntry {
+  key: string // storage key, see getTileKey()
+  record: TileStorageData
+}
+
+export interface TileStoreStats {
+  tileCount: number
+  bytes: number // stored size of all tiles
+}
+
+export interface TileStore {
+  readonly backend: TileStoreBackend
+  get(key: string): Promise<TileStorageData | undefined>
+  put(key: string, record: TileStorageData): Promise<void>
+  delete(key: string): Promise<void>
+  list(): Promise<string[]>
+  stats(): Promise<TileStoreStats>
+  // Batch operations, in one transaction where the backend has them
+  getMany(keys: string[]): Promise<(TileStorageData | undefined)[]>
+  putMany(entries: TileStoreEntry[]): Promise<void>
+  deleteMany(keys: string[]): Promise<void>
+  clear(): Promise<void>
+  // Tiles and their metadata in one transaction, only backends in the metadata database have it
+  putManyWithMetadata?(entries: TileStoreEntry[], metadata: TileMetadata[]): Promise<void>
+}
+
+export interface TileStoreMigrationProgress {
+  (done: number, total: number): void
+}
+
+const BACKEND_KEY = 'tile_store_backend'
+// Tiles copied per batch while migrating between backends
+const MIGRATION_BATCH_SIZE = 100
+
+let activeStore: Promise<TileStore> | null = null
+// Running migration to another backend, and writes started before it
+let migration: Promise<void> | null = null
+const pendingWrites = new Set<Promise<unknown>>()
+
+/**
+ * Get the backends this browser supports
+ */
+export function getSupportedTileStoreBackends(platform: PlatformInfo = getPlatformInfo()): TileStoreBackend[] {
+  const backends: TileStoreBackend[] = ['indexeddb']
+  if (platform.supportsOPFS) backends.push('opfs')
+  if (platform.supportsCacheStorage) backends.push('cache')
+  return backends
+}
+
+/**
+ * Pick the backend for a platform without stored tiles
+ * iOS keeps IndexedDB (largest quota there); elsewhere OPFS stores blobs as plain files
+ */
+export function selectTileStoreBackend(platform: PlatformInfo = getPlatformInfo()): TileStoreBackend {
+  if (platform.isIOS) {
+    return 'indexeddb'
+  }
+  return platform.supportsOPFS ? 'opfs' : 'indexeddb'
+}
+
+/**
+ * Create the store of a backend
+ */
+export function createTileStore(backend: TileStoreBackend): TileStore {
+  switch (backend) {
+    case 'indexeddb':
+      return createIndexedDbTileStore()
+    case 'cache':
+      return createCacheStorageTileStore()
+    case 'opfs':
+      return createOpfsTileStore()
+  }
+}
+
+/**
+ * Get the backend tiles are stored in, choosing one on first use
+ * Tiles stored before backends were selectable stay in IndexedDB
+ */
+async function resolveTileStoreBackend(): Promise<TileStoreBackend> {
+  const supported = getSupportedTileStoreBackends()
+  const stored = await getSetting<TileStoreBackend>(BACKEND_KEY)
+  if (stored && supported.includes(stored)) {
+    return stored
+  }
+
+  const backend = (await countRecords('tiles')) > 0 ? 'indexeddb' : selectTileStoreBackend()
+  await putSetting(BACKEND_KEY, backend)
+  return backend
+}
+
+/**
+ * Get the store tiles are read from and written to
+ */
+export function getTileStore(): Promise<TileStore> {
+  activeStore ??= resolveTileStoreBackend()
+    .then(createTileStore)
+    .catch((error) => {
+      activeStore = null
+      throw error
+    })
+  return activeStore
+}
+
+/**
+ * Write to or delete from the tile store
+ * Waits while tiles move to another backend, and a migration waits for the writes already
+ * running, so no tile lands in a backend after it was copied
+ */
+export async function writeTileStore<T>(run: (store: TileStore) => Promise<T>): Promise<T> {
+  while (migration) {
+    await migration.catch(() => undefined)
+  }
+  const write = getTileStore().then(run)
+  pendingWrites.add(write)
+  try {
+    return await write
+  } finally {
+    pendingWrites.delete(write)
+  }
+}
+
+/**
+ * Copy all tiles of one store into another, in batches
+ */
+export async function copyTiles(
+  source: TileStore,
+  target: TileStore,
+  onProgress?: TileStoreMigrationProgress
+): Promise<void> {
+  const keys = await source.list()
+  for (let i = 0; i < keys.length; i += MIGRATION_BATCH_SIZE) {
+    const batch = keys.slice(i, i + MIGRATION_BATCH_SIZE)
+    const records = await source.getMany(batch)
+    const entries: TileStoreEntry[] = []
+    batch.forEach((key, index) => {
+      const record = records[index]
+      if (record) entries.push({ key, record })
+    })
+    await target.putMany(entries)
+    onProgress?.(i + batch.length, keys.length)
+  }
+}
+
+/**
+ * Move all tiles to another backend
+ * Tiles are copied before the switch, so an interrupted migration leaves the current
+ * backend intact. Writes through writeTileStore() wait until the tiles have moved.
+ */
+export async function migrateTileStore(
+  backend: TileStoreBackend,
+  onProgress?: TileStoreMigrationProgress
+): Promise<void> {
+  if (!getSupportedTileStoreBackends().includes(backend)) {
+    throw new Error(`Tile storage: backend ${backend} is not supported by this browser`)
+  }
+  if (migration) {
+    throw new Error('Tile storage: tiles are already moving to another backend')
+  }
+
+  migration = moveTiles(backend, onProgress)
+  try {
+    await migration
+  } finally {
+    migration = null
+  }
+}
+
+async function moveTiles(backend: TileStoreBackend, onProgress?: TileStoreMigrationProgress): Promise<void> {
+  const source = await getTileStore()
+  if (source.backend === backend) {
+    return
+  }
+  await Promise.allSettled(pendingWrites)
+
+  const target = createTileStore(backend)
+  // Drop leftovers of an earlier, interrupted migration
+  await target.clear()
+  await copyTiles(source, target, onProgress)
+
+  await putSetting(BACKEND_KEY, backend)
+  activeStore = Promise.resolve(target)
+  await source.clear()
+}
@@ -0,0 +1,175 @@
+import type { TileCoord } from '@/types'
+
+/**
+ * Tile URL templates
+ *
+ * Supported placeholders:
+ * - {z}, {x}, {y}: XYZ tile coordinates
+ * - {-y}: TMS row (y counted from the bottom)
+ * - {quadkey}: Bing Maps quadkey
+ * - {s}: subdomain from `subdomains` (default a, b, c)
+ * - {a-c}, {1-4}: subdomain from a character range
+ * - {r}: "@2x" for retina tiles, empty otherwise
+ *
+ * Subdomains rotate per tile, so the same tile always maps to the same URL (cache friendly).
+ * Unknown placeholders (e.g. an unfilled {apikey}) are left as they are.
+ */
+
+export interface TileUrlOptions {
+  subdomains?: string[] // values for {s}
+  retina?: boolean // replace {r} with "@2x"
+}
+
+const DEFAULT_SUBDOMAINS = ['a', 'b', 'c']
+const PLACEHOLDER_PATTERN = /\{([^{}]+)\}/g
+const RANGE_PATTERN = /^([a-z0-9])-([a-z0-9])$/i
+
+/**
+ * Expand a character range placeholder like a-c into its characters
+ */
+function expandRange(placeholder: string): string[] | null {
+  const match = placeholder.match(RANGE_PATTERN)
+  if (!match) return null
+
+  const start = match[1]!.charCodeAt(0)
+  const end = match[2]!.charCodeAt(0)
+  if (end < start) return null
+
+  return Array.from({ length: end - start + 1 }, (_, i) => String.fromCharCode(start + i))
+}
+
+function pickSubdomain(subdomains: string[], tile: TileCoord): string {
+  return subdomains[Math.abs(tile.x + tile.y) % subdomains.length] ?? ''
+}
+
+/**
+ * Convert tile coordinates to a Bing Maps quadkey
+ */
+export function tileToQuadkey(tile: TileCoord): string {
+  let quadkey = ''
+  for (let i = tile.z; i > 0; i--) {
+    const mask = 1 << (i - 1)
+    let digit = 0
+    if ((tile.x & mask) !== 0) digit += 1
+    if ((tile.y & mask) !== 0) digit += 2
+    quadkey += digit.toString()
+  }
+  return quadkey
+}
+
+/**
+ * Convert a Bing Maps quadkey back to tile coordinates
+ */
+export function quadkeyToTile(quadkey: string): TileCoord | null {
+  if (!/^[0-3]*$/.test(quadkey)) return null
+
+  let x = 0
+  let y = 0
+  const z = quadkey.length
+  for (let i = z; i > 0; i--) {
+    const mask = 1 << (i - 1)
+    const digit = quadkey[z - i]!
+    if (digit === '1' || digit === '3') x |= mask
+    if (digit === '2' || digit === '3') y |= mask
+  }
+  return { z, x, y }
+}
+
+/**
+ * Build the request URL of a tile from a URL template
+ */
+export function expandTileUrl(template: string, tile: TileCoord, options: TileUrlOptions = {}): string {
+  const subdomains = options.subdomains ?? DEFAULT_SUBDOMAINS
+
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    switch (name) {
+      case 'z':
+        return tile.z.toString()
+      case 'x':
+        return tile.x.toString()
+      case 'y':
+        return tile.y.toString()
+      case '-y':
+        return ((1 << tile.z) - 1 - tile.y).toString()
+      case 'quadkey':
+        return tileToQuadkey(tile)
+      case 's':
+        return pickSubdomain(subdomains, tile)
+      case 'r':
+        return options.retina ? '@2x' : ''
+      default: {
+        const range = expandRange(name)
+        return range ? pickSubdomain(range, tile) : placeholder
+      }
+    }
+  })
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Parse tile coordinates from a URL generated with the given template
+ * Returns null if the URL does not match the template
+ */
+export function parseTileUrl(template: string, url: string): TileCoord | null {
+  const captures: string[] = []
+  let pattern = ''
+  let lastIndex = 0
+
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    pattern += escapeRegExp(template.slice(lastIndex, match.index))
+    lastIndex = match.index! + match[0].length
+
+    const name = match[1]!
+    switch (name) {
+      case 'z':
+      case 'x':
+      case 'y':
+      case '-y':
+        captures.push(name)
+        pattern += '(\\d+)'
+        break
+      case 'quadkey':
+        captures.push(name)
+        pattern += '([0-3]*)'
+        break
+      case 's':
+        pattern += '[^./]+'
+        break
+      case 'r':
+        pattern += '(?:@2x)?'
+        break
+      default:
+        pattern += expandRange(name) ? `[${escapeRegExp(name)}]` : escapeRegExp(match[0])
+    }
+  }
+  pattern += escapeRegExp(template.slice(lastIndex))
+
+  const match = url.match(new RegExp(`^${pattern}$`))
+  if (!match) return null
+
+  const values = new Map<string, string>()
+  captures.forEach((name, index) => values.set(name, match[index + 1]!))
+
+  const quadkey = values.get('quadkey')
+  if (quadkey !== undefined) {
+    return quadkeyToTile(quadkey)
+  }
+
+  const z = values.get('z')
+  const x = values.get('x')
+  const y = values.get('y')
+  const tmsY = values.get('-y')
+  if (z === undefined || x === undefined || (y === undefined && tmsY === undefined)) {
+    return null
+  }
+
+  const zoom = parseInt(z)
+  return {
+    z: zoom,
+    x: parseInt(x),
+    y: y !== undefined ? parseInt(y) : (1 << zoom) - 1 - parseInt(tmsY!),
+  }
+}
@@ -0,0 +1,73 @@
+import type { TileCoord, TileUsagePolicy } from '@/types'
+
+/**
+ * Tile usage policies of tile providers
+ *
+ * Providers like the OSM Foundation forbid heavy bulk downloading. downloadTiles() refuses
+ * downloads that break the source's policy and paces its requests accordingly.
+ *
+ * User-Agent: tile requests never set one, the browser sends its own (faked ones get clients blocked).
+ * Referer: sent according to the policy's referrerPolicy, so the provider can tell which app is asking.
+ */
+
+export interface BulkDownloadSummary {
+  tileCount: number // tiles that will actually be requested
+  maxZoom: number
+}
+
+/**
+ * Describe the tiles of a download for a policy check
+ */
+export function summarizeBulkDownload(tiles: Iterable<TileCoord>): BulkDownloadSummary {
+  let tileCount = 0
+  let maxZoom = 0
+  for (const tile of tiles) {
+    tileCount++
+    maxZoom = Math.max(maxZoom, tile.z)
+  }
+  return { tileCount, maxZoom }
+}
+
+/**
+ * Check a download against a usage policy
+ * @returns Reason the download is not allowed, or null if it is (or there is no policy)
+ */
+export function getUsagePolicyViolation(
+  download: BulkDownloadSummary,
+  policy: TileUsagePolicy | undefined
+): string | null {
+  if (!policy || download.tileCount === 0) {
+    return null
+  }
+  if (download.maxZoom > policy.maxBulkZoom) {
+    return `Bulk downloads are limited to zoom level ${policy.maxBulkZoom} (requested up to ${download.maxZoom})`
+  }
+  if (download.tileCount > policy.maxTilesPerJob) {
+    return `Bulk downloads are limited to ${policy.maxTilesPerJob} tiles (requested ${download.tileCount})`
+  }
+  return null
+}
+
+/**
+ * Throw if downloading the given tiles (or a download summarized by summarizeBulkDownload())
+ * would break the usage policy
+ */
+export function assertUsagePolicy(
+  download: TileCoord[] | BulkDownloadSummary,
+  policy: TileUsagePolicy | undefined
+): void {
+  const violation = getUsagePolicyViolation(
+    Array.isArray(download) ? summarizeBulkDownload(download) : download,
+    policy
+  )
+  if (violation) {
+    throw new Error(`Tile usage policy: ${violation}`)
+  }
+}
+
+/**
+ * Requests per second the policy allows (Infinity without a minimum interval)
+ */
+export function getPolicyRequestsPerSecond(policy: TileUsagePolicy): number {
+  return policy.minRequestIntervalMs > 0 ? 1000 / policy.minRequestIntervalMs : Infinity
+}
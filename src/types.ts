@@ -22,6 +22,35 @@ export interface BoundingBox {
   north: number // max latitude
 }
 
+export interface TileSource {
+  id: string // lowercase letters, digits and dashes; part of the tile storage keys
+  name: string
+  urlTemplate: string // see services/tileUrlTemplate.ts for placeholders
+  attribution: string // HTML, shown on the map
+  minZoom: number
+  maxZoom: number
+  tileSize: number // pixels
+  subdomains?: string[] // values for {s} in the URL template
+  usagePolicyUrl?: string // provider's tile usage policy
+  usagePolicy?: TileUsagePolicy // bulk download limits, none if omitted
+}
+
+/**
+ * Bulk download limits of a tile source, see services/tileUsagePolicy.ts
+ */
+export interface TileUsagePolicy {
+  maxTilesPerJob: number // tiles a single download may request
+  maxBulkZoom: number // highest zoom level that may be bulk downloaded
+  minRequestIntervalMs: number // minimum time between two requests to the source
+  maxConcurrency: number // parallel requests to the source
+  referrerPolicy: ReferrerPolicy // Referer sent with tile requests, identifies the app to the provider
+}
+
+export interface FailedTile {
+  tile: TileCoord
+  reason: string // error message of the last attempt
+}
+
 export interface DownloadedArea {
   id: string
   name: string
@@ -34,11 +63,16 @@ export interface DownloadedArea {
   sizeBytes: number
   downloadedAt: string // ISO 8601 string
   tileUrlTemplate: string
+  sourceId?: string // tile source of the area; missing for areas saved before sources existed (OSM)
   // Compression stats (optional for backward compatibility)
   compressionEnabled?: boolean
   compressionProfile?: CompressionProfile
   originalSizeBytes?: number // Uncompressed size
   compressionRatio?: number // Average compression ratio
+  isPartial?: boolean // some tiles are missing (failed or download cancelled)
+  failedTiles?: FailedTile[] // tiles that are not stored, can be retried
+  remainingTileCount?: number // tiles a partial area has not tried yet; not listed, derived from its extent and the stored tiles on retry
+  updatedAt?: string // ISO 8601 string, last revalidation of the stored tiles
 }
 
 export interface DownloadProgress {
@@ -50,9 +84,49 @@ export interface DownloadProgress {
   currentTile?: TileCoord
   estimatedTimeRemaining?: number // milliseconds
   bytesDownloaded: number
+  queued?: number // tiles waiting in the download queue
+  active?: number // tiles currently in flight
   startTime?: number // timestamp for speed calculation
+  resumedFrom?: { tiles: number; bytes: number } // set when continuing an interrupted job
+  alreadyOffline?: number // tiles skipped because they were already stored (counted in downloaded)
+  waitingReason?: string // set while a large download waits for its download conditions (Wi-Fi, charging)
+  storageFull?: boolean // the download stopped because the storage quota was used up
+  zoomLevels?: ZoomLevelProgress[] // progress per zoom level, lowest zoom first
   isComplete: boolean
   isCancelled: boolean
+  isPaused: boolean
+}
+
+/**
+ * Progress of the tiles of one zoom level; skipped tiles count as downloaded
+ */
+export interface ZoomLevelProgress {
+  zoom: number
+  total: number
+  downloaded: number
+  failed: number
+}
+
+export type DownloadJobStatus = 'queued' | 'downloading' | 'paused' | 'failed'
+
+export interface DownloadJob {
+  id: string // becomes the area ID once the download completes
+  name: string
+  bbox: BoundingBox
+  baseZoom: number
+  additionalZoomLevels: number
+  tileUrlTemplate: string
+  sourceId?: string // tile source of the job; missing for jobs created before sources existed (OSM)
+  completedTileCount: number // tiles already stored; their keys are in the jobTiles store, see getJobTileKeys()
+  failedTileCount: number // tiles that failed in the last run
+  bytesDownloaded: number
+  // Download queue state (optional for backward compatibility)
+  status?: DownloadJobStatus
+  queuePosition?: number // lower runs first
+  error?: string // reason of the last failed run
+  storageFull?: boolean // the last run stopped because the storage quota was used up
+  createdAt: string // ISO 8601 string
+  updatedAt: string // ISO 8601 string
 }
 
 export interface StorageQuota {
@@ -91,7 +165,76 @@ export interface TileMetadata {
   compressedAt: string // ISO 8601 string
 }
 
+/**
+ * Running size statistics of stored tiles (Welford), see services/tileSizeStats.ts
+ */
+export interface TileSizeStat {
+  count: number // tiles sampled
+  mean: number // mean stored size in bytes
+  m2: number // sum of squared differences from the mean
+}
+
+// Compression profile a tile was stored with, 'uncompressed' for tiles stored as downloaded
+export type TileSizeProfile = CompressionProfile | 'uncompressed'
+
+// Keyed by sourceId/zoom/profile
+export type TileSizeStats = Record<string, TileSizeStat>
+
+/**
+ * Estimated storage size of a set of tiles with a 95% range
+ */
+export interface TileSizeEstimate {
+  bytes: number
+  lowBytes: number
+  highBytes: number
+  sampledTiles: number // stored tiles the estimate is based on, 0 if it only uses the default tile size
+  bytesPerZoom: Record<number, number> // estimate split by zoom level
+}
+
+/**
+ * When large downloads may run, see services/downloadConditions.ts
+ */
+export interface DownloadConditionSettings {
+  wifiOnly: boolean // wait for an unmetered connection (Wi-Fi, Ethernet)
+  chargingOnly: boolean // wait until the device is charging
+  respectDataSaver: boolean // wait while the browser's data saver is on
+  largeDownloadTiles: number // downloads with at least this many tiles are subject to the conditions
+}
+
+/**
+ * Current network and battery state; undefined values are not reported by the browser
+ */
+export interface DeviceConditions {
+  connectionType?: string // Network Information API type: wifi, ethernet, cellular, ...
+  effectiveType?: string // slow-2g, 2g, 3g or 4g
+  saveData?: boolean
+  charging?: boolean
+  batteryLevel?: number // 0 - 1
+}
+
 export interface CompressionSettings {
   defaultProfile: CompressionProfile
   cacheProfile: CompressionProfile // Always 'high' for cached tiles
+  workerPoolSize?: number // compression workers, default depends on the CPU cores
+}
+
+/**
+ * What happens to tiles fetched while browsing the map, see services/browseCache.ts
+ * - off: browsed tiles are not stored
+ * - session: stored until the app is opened again
+ * - persistent: stored until evicted to stay within the budget
+ */
+export type BrowseCacheMode = 'off' | 'session' | 'persistent'
+
+export interface BrowseCacheSettings {
+  mode: BrowseCacheMode
+  maxBytes: number // budget of browsed tiles; least recently used tiles are evicted beyond it
+}
+
+export interface BrowseCacheStats {
+  hits: number // browsed tiles served from the browse cache
+  misses: number // browsed tiles fetched from the network
+  evictions: number // tiles evicted to stay within the budget
+  tileCount: number // tiles in the browse cache
+  bytes: number
 }
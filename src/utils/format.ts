@@ -2,6 +2,8 @@
  * Format utilities for displaying human-readable data
  */
 
+import type { DownloadProgress } from '@/types'
+
 /**
  * Convert bytes to human-readable format (Bytes, KB, MB, GB, TB)
  * @param bytes - Number of bytes to format
@@ -16,3 +18,34 @@ export function formatBytes(bytes: number): string {
 
   return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`
 }
+
+/**
+ * Convert a duration in seconds to a short label (e.g. "45s", "3m 20s")
+ * @param seconds - Duration in seconds, undefined while unknown
+ * @returns Formatted string, or "Calculating..." when unknown
+ */
+export function formatDuration(seconds: number | undefined): string {
+  if (!seconds) return 'Calculating...'
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  const secs = seconds % 60
+  return `${minutes}m ${secs}s`
+}
+
+/**
+ * Format the download speed of the current session (bytes per second)
+ * Bytes from an earlier session of a resumed download are not counted
+ * @param progress - Download progress with start time and byte counts
+ * @param now - Current timestamp in milliseconds
+ * @returns Formatted speed, or "Calculating..." when not enough data
+ */
+export function formatDownloadSpeed(progress: DownloadProgress, now: number = Date.now()): string {
+  if (!progress.startTime || progress.downloaded === 0 || progress.bytesDownloaded === 0) {
+    return 'Calculating...'
+  }
+  const elapsed = (now - progress.startTime) / 1000 // seconds
+  if (elapsed <= 0) return 'Calculating...'
+
+  const sessionBytes = progress.bytesDownloaded - (progress.resumedFrom?.bytes ?? 0)
+  return `${formatBytes(sessionBytes / elapsed)}/s`
+}
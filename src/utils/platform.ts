@@ -7,6 +7,8 @@ export interface PlatformInfo {
   isIOSVersion17OrHigher: boolean
   isPWA: boolean
   supportsStoragePersist: boolean
+  supportsOPFS: boolean
+  supportsCacheStorage: boolean
 }
 
 /**
@@ -67,6 +69,24 @@ export function supportsStoragePersist(): boolean {
   return !!(navigator.storage && navigator.storage.persist)
 }
 
+/**
+ * Check if browser supports the Origin Private File System with writable file streams
+ */
+export function supportsOPFS(): boolean {
+  return (
+    !!(navigator.storage && navigator.storage.getDirectory) &&
+    typeof FileSystemFileHandle !== 'undefined' &&
+    'createWritable' in FileSystemFileHandle.prototype
+  )
+}
+
+/**
+ * Check if browser supports the Cache API (secure contexts only)
+ */
+export function supportsCacheStorage(): boolean {
+  return typeof caches !== 'undefined'
+}
+
 /**
  * Get comprehensive platform information
  */
@@ -76,6 +96,8 @@ export function getPlatformInfo(): PlatformInfo {
     isIOSVersion17OrHigher: isIOSVersion17OrHigher(),
     isPWA: isPWA(),
     supportsStoragePersist: supportsStoragePersist(),
+    supportsOPFS: supportsOPFS(),
+    supportsCacheStorage: supportsCacheStorage(),
   }
 }
 
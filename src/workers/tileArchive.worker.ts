@@ -0,0 +1,359 @@
+import type { ArchivedTile, ArchiveListing, TileArchiveRequest, TileArchiveResponse } from '@/services/tileArchive'
+import {
+  ARCHIVE_DIRECTORY,
+  decodeArchiveIndex,
+  decodeTileValidators,
+  encodeArchiveHeader,
+  encodeIndexEntries,
+  encodeTileValidators,
+  getArchiveAreaId,
+  getArchiveFileNames,
+  getArchiveTileId,
+  getCompactionFileNames,
+  type ArchiveIndexEntry,
+} from '@/services/tileArchiveFormat'
+
+/**
+ * Tile archive worker: owns the packed archive files of all areas and reads and appends
+ * tiles with FileSystemSyncAccessHandle, which only exists in workers. A handle locks its
+ * file against the workers of other tabs, so handles are closed once the worker has been
+ * idle for a moment and archives are opened again, with the entries appended since, on
+ * the next request. A tab finding an archive locked fails that request only.
+ *
+ * Requests are handled one at a time, so a compaction never misses tiles appended while
+ * it copies the archive.
+ */
+
+// Declared in lib.webworker; the app is type-checked with the DOM lib
+interface SyncAccessHandle {
+  read(buffer: Uint8Array, options: { at: number }): number
+  write(buffer: Uint8Array, options: { at: number }): number
+  getSize(): number
+  truncate(size: number): void
+  flush(): void
+  close(): void
+}
+
+interface SyncAccessFileHandle extends FileSystemFileHandle {
+  createSyncAccessHandle(): Promise<SyncAccessHandle>
+}
+
+// keys() is declared in lib.dom.asynciterable, which the project does not include
+interface IterableDirectoryHandle extends FileSystemDirectoryHandle {
+  keys(): AsyncIterable<string>
+}
+
+interface OpenArchive {
+  sourceId: string
+  tiles: SyncAccessHandle
+  index: SyncAccessHandle
+  entries: Map<string, ArchiveIndexEntry> // by z/x/y, last write wins
+}
+
+// Idle time after which open archives are closed
+const IDLE_CLOSE_MS = 2000
+// Bytes copied at a time when a compaction is applied
+const COPY_CHUNK_BYTES = 1024 * 1024
+
+const archives = new Map<string, Promise<OpenArchive>>()
+let queue: Promise<unknown> = Promise.resolve()
+let activeRequests = 0
+let idleTimer: ReturnType<typeof setTimeout> | null = null
+let directory: Promise<FileSystemDirectoryHandle> | null = null
+
+function getDirectory(): Promise<FileSystemDirectoryHandle> {
+  directory ??= navigator.storage
+    .getDirectory()
+    .then((root) => root.getDirectoryHandle(ARCHIVE_DIRECTORY, { create: true }))
+  return directory
+}
+
+async function openHandle(name: string, create: boolean): Promise<SyncAccessHandle> {
+  const handle = (await (await getDirectory()).getFileHandle(name, { create })) as SyncAccessFileHandle
+  return handle.createSyncAccessHandle()
+}
+
+async function fileExists(name: string): Promise<boolean> {
+  try {
+    await (await getDirectory()).getFileHandle(name)
+    return true
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'NotFoundError') return false
+    throw error
+  }
+}
+
+async function removeFile(name: string): Promise<void> {
+  try {
+    await (await getDirectory()).removeEntry(name)
+  } catch (error) {
+    if (!(error instanceof DOMException && error.name === 'NotFoundError')) throw error
+  }
+}
+
+function copyFile(from: SyncAccessHandle, to: SyncAccessHandle): void {
+  const size = from.getSize()
+  const chunk = new Uint8Array(Math.min(COPY_CHUNK_BYTES, size))
+  for (let at = 0; at < size; ) {
+    const read = from.read(chunk, { at })
+    if (read === 0) break
+    to.write(chunk.subarray(0, read), { at })
+    at += read
+  }
+  to.truncate(size)
+  to.flush()
+}
+
+/**
+ * Copy a committed compaction over the archive files and remove it
+ * An interrupted copy starts over the next time the archive is opened, until the marker is
+ * gone; compaction files without the marker are left for the next compaction to overwrite
+ */
+async function finishCompaction(areaId: string, tiles: SyncAccessHandle, index: SyncAccessHandle): Promise<void> {
+  const names = getCompactionFileNames(areaId)
+  if (!(await fileExists(names.marker))) return
+
+  for (const [name, target] of [
+    [names.tiles, tiles],
+    [names.index, index],
+  ] as const) {
+    const compacted = await openHandle(name, false)
+    try {
+      copyFile(compacted, target)
+    } finally {
+      compacted.close()
+    }
+  }
+  await removeFile(names.marker)
+  await removeFile(names.tiles)
+  await removeFile(names.index)
+}
+
+async function loadArchive(areaId: string, sourceId?: string): Promise<OpenArchive> {
+  const names = getArchiveFileNames(areaId)
+  const create = sourceId !== undefined
+  const index = await openHandle(names.index, create)
+  let tiles: SyncAccessHandle
+  try {
+    tiles = await openHandle(names.tiles, create)
+  } catch (error) {
+    index.close()
+    throw error
+  }
+
+  try {
+    await finishCompaction(areaId, tiles, index)
+  } catch (error) {
+    tiles.close()
+    index.close()
+    throw error
+  }
+
+  if (index.getSize() === 0) {
+    index.write(encodeArchiveHeader(sourceId ?? ''), { at: 0 })
+    index.flush()
+  }
+  const bytes = new Uint8Array(index.getSize())
+  index.read(bytes, { at: 0 })
+  const { header, entries } = decodeArchiveIndex(bytes)
+
+  const entryMap = new Map<string, ArchiveIndexEntry>()
+  for (const entry of entries) {
+    entryMap.set(getArchiveTileId(entry), entry)
+  }
+  return { sourceId: header.sourceId, tiles, index, entries: entryMap }
+}
+
+/**
+ * Open an archive once; `sourceId` creates it if it does not exist
+ */
+function openArchive(areaId: string, sourceId?: string): Promise<OpenArchive> {
+  let archive = archives.get(areaId)
+  if (!archive) {
+    archive = loadArchive(areaId, sourceId)
+    archive.catch(() => archives.delete(areaId))
+    archives.set(areaId, archive)
+  }
+  return archive
+}
+
+/**
+ * Append tiles and their validators: the tile bytes are flushed before their index
+ * entries, so the index never points past the written data
+ */
+async function appendTiles(areaId: string, sourceId: string, tiles: ArchivedTile[]): Promise<void> {
+  const archive = await openArchive(areaId, sourceId)
+  let offset = archive.tiles.getSize()
+  const entries: ArchiveIndexEntry[] = []
+  for (const tile of tiles) {
+    const data = new Uint8Array(tile.data)
+    const validators = encodeTileValidators(tile)
+    archive.tiles.write(data, { at: offset })
+    archive.tiles.write(validators, { at: offset + data.byteLength })
+    entries.push({
+      z: tile.z,
+      x: tile.x,
+      y: tile.y,
+      offset,
+      length: data.byteLength,
+      type: tile.type,
+      validatorsLength: validators.byteLength,
+    })
+    offset += data.byteLength + validators.byteLength
+  }
+  archive.tiles.flush()
+
+  archive.index.write(encodeIndexEntries(entries), { at: archive.index.getSize() })
+  archive.index.flush()
+  for (const entry of entries) {
+    archive.entries.set(getArchiveTileId(entry), entry)
+  }
+}
+
+/**
+ * Rewrite an archive without the entries later ones replaced, once those take more space
+ * than the live entries; resolves whether it did
+ */
+async function compactArchive(areaId: string): Promise<boolean> {
+  const archive = await openArchive(areaId)
+  const live = [...archive.entries.values()].sort((a, b) => a.offset - b.offset)
+  const liveBytes = live.reduce((total, entry) => total + entry.length + entry.validatorsLength, 0)
+  if (archive.tiles.getSize() - liveBytes <= liveBytes) return false
+
+  const names = getCompactionFileNames(areaId)
+  const tiles = await openHandle(names.tiles, true)
+  let index: SyncAccessHandle
+  try {
+    index = await openHandle(names.index, true)
+  } catch (error) {
+    tiles.close()
+    throw error
+  }
+
+  const entries: ArchiveIndexEntry[] = []
+  try {
+    tiles.truncate(0)
+    let offset = 0
+    for (const entry of live) {
+      const bytes = new Uint8Array(entry.length + entry.validatorsLength)
+      archive.tiles.read(bytes, { at: entry.offset })
+      tiles.write(bytes, { at: offset })
+      entries.push({ ...entry, offset })
+      offset += bytes.byteLength
+    }
+    tiles.flush()
+
+    const header = encodeArchiveHeader(archive.sourceId)
+    index.truncate(0)
+    index.write(header, { at: 0 })
+    index.write(encodeIndexEntries(entries), { at: header.byteLength })
+    index.flush()
+  } finally {
+    tiles.close()
+    index.close()
+  }
+
+  // From here on the compaction is applied even if the worker stops before it is done
+  await (await getDirectory()).getFileHandle(names.marker, { create: true })
+  await finishCompaction(areaId, archive.tiles, archive.index)
+  archive.entries = new Map(entries.map((entry) => [getArchiveTileId(entry), entry]))
+  return true
+}
+
+async function readTile(areaId: string, tile: { z: number; x: number; y: number }): Promise<ArchivedTile | null> {
+  const archive = await openArchive(areaId)
+  const entry = archive.entries.get(getArchiveTileId(tile))
+  if (!entry) return null
+
+  const data = new Uint8Array(entry.length)
+  archive.tiles.read(data, { at: entry.offset })
+  const validators = new Uint8Array(entry.validatorsLength)
+  archive.tiles.read(validators, { at: entry.offset + entry.length })
+  return { ...tile, data: data.buffer, type: entry.type, ...decodeTileValidators(validators) }
+}
+
+async function listArchives(): Promise<ArchiveListing[]> {
+  const listings: ArchiveListing[] = []
+  for await (const name of ((await getDirectory()) as IterableDirectoryHandle).keys()) {
+    const areaId = getArchiveAreaId(name)
+    if (!areaId) continue
+
+    const archive = await openArchive(areaId)
+    const tiles: number[] = []
+    for (const entry of archive.entries.values()) {
+      tiles.push(entry.z, entry.x, entry.y)
+    }
+    listings.push({ areaId, sourceId: archive.sourceId, tiles })
+  }
+  return listings
+}
+
+/**
+ * Close all open archives, releasing their files
+ */
+async function closeArchives(): Promise<void> {
+  const open = [...archives.values()]
+  archives.clear()
+  for (const archive of await Promise.allSettled(open)) {
+    if (archive.status !== 'fulfilled') continue
+    archive.value.tiles.close()
+    archive.value.index.close()
+  }
+}
+
+async function deleteArchive(areaId: string): Promise<void> {
+  const archive = archives.get(areaId)
+  archives.delete(areaId)
+  if (archive) {
+    const { tiles, index } = await archive
+    tiles.close()
+    index.close()
+  }
+
+  // The marker goes first, so an interrupted delete never applies a compaction again
+  const compaction = getCompactionFileNames(areaId)
+  const names = getArchiveFileNames(areaId)
+  for (const name of [compaction.marker, compaction.tiles, compaction.index, names.tiles, names.index]) {
+    await removeFile(name)
+  }
+}
+
+async function handleRequest(request: TileArchiveRequest): Promise<TileArchiveResponse> {
+  switch (request.type) {
+    case 'append':
+      await appendTiles(request.areaId, request.sourceId, request.tiles)
+      return { id: request.id, result: null }
+    case 'read':
+      return { id: request.id, result: await readTile(request.areaId, request.tile) }
+    case 'list':
+      return { id: request.id, result: await listArchives() }
+    case 'compact':
+      return { id: request.id, result: await compactArchive(request.areaId) }
+    case 'delete':
+      await deleteArchive(request.areaId)
+      return { id: request.id, result: null }
+  }
+}
+
+self.onmessage = async (event: MessageEvent<TileArchiveRequest>) => {
+  const request = event.data
+  activeRequests++
+  if (idleTimer) clearTimeout(idleTimer)
+
+  let response: TileArchiveResponse
+  const handled = queue.then(() => handleRequest(request))
+  queue = handled.catch(() => undefined)
+  try {
+    response = await handled
+  } catch (error) {
+    response = { id: request.id, error: error instanceof Error ? error.message : String(error) }
+  }
+
+  activeRequests--
+  if (activeRequests === 0) {
+    idleTimer = setTimeout(() => void closeArchives(), IDLE_CLOSE_MS)
+  }
+  const result = 'result' in response ? response.result : null
+  const tile = typeof result === 'object' && result && 'data' in result ? result : null
+  self.postMessage(response, { transfer: tile ? [tile.data] : [] })
+}
@@ -0,0 +1,33 @@
+import type { CompressionWorkerRequest, CompressionWorkerResponse } from '@/services/compressionWorkerPool'
+
+/**
+ * Compression worker: decodes a tile with createImageBitmap and re-encodes it
+ * with OffscreenCanvas.convertToBlob, so the main thread stays free for the map
+ */
+
+async function compressImage(request: CompressionWorkerRequest): Promise<Blob> {
+  const bitmap = await createImageBitmap(request.blob)
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) {
+      throw new Error('Failed to get canvas context')
+    }
+
+    ctx.drawImage(bitmap, 0, 0)
+    return await canvas.convertToBlob({ type: `image/${request.format}`, quality: request.quality })
+  } finally {
+    bitmap.close()
+  }
+}
+
+self.onmessage = async (event: MessageEvent<CompressionWorkerRequest>) => {
+  const request = event.data
+  let response: CompressionWorkerResponse
+  try {
+    response = { id: request.id, blob: await compressImage(request) }
+  } catch (error) {
+    response = { id: request.id, error: error instanceof Error ? error.message : String(error) }
+  }
+  self.postMessage(response)
+}
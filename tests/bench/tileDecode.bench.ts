@@ -0,0 +1,46 @@
+import { bench, describe } from 'vitest'
+import { Canvas } from 'canvas'
+import { decodeTileImage } from '@/services/tileCompression'
+
+/**
+ * Tile decode throughput: createImageBitmap against the previous base64 data URL path
+ * Run with `bun bench`
+ */
+
+// Noise doesn't compress: a 128px noise PNG is about as large as a detailed 256px tile,
+// and small enough not to overflow the call stack in the previous path
+function createNoiseTileBlob(size = 128): Blob {
+  const canvas = new Canvas(size, size)
+  const ctx = canvas.getContext('2d')
+  const imageData = ctx.createImageData(size, size)
+  for (let i = 0; i < imageData.data.length; i++) {
+    imageData.data[i] = Math.floor(Math.random() * 256)
+  }
+  ctx.putImageData(imageData, 0, 0)
+  return new Blob([canvas.toBuffer('image/png')], { type: 'image/png' })
+}
+
+// The decode path before createImageBitmap: bytes -> binary string -> base64 -> data URL -> image
+async function decodeViaDataUrl(blob: Blob): Promise<HTMLImageElement> {
+  const arrayBuffer = await blob.arrayBuffer()
+  const base64 = btoa(String.fromCharCode(...new Uint8Array(arrayBuffer)))
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error('Failed to load image from blob'))
+    img.src = `data:${blob.type};base64,${base64}`
+  })
+}
+
+const tile = createNoiseTileBlob()
+
+describe(`decode a ${Math.round(tile.size / 1024)} KB tile`, () => {
+  bench('base64 data URL (previous)', async () => {
+    await decodeViaDataUrl(tile)
+  })
+
+  bench('createImageBitmap', async () => {
+    const bitmap = await decodeTileImage(tile)
+    if ('close' in bitmap) bitmap.close()
+  })
+})
@@ -0,0 +1,71 @@
+import type {
+  ArchivedTile,
+  ArchiveListing,
+  TileArchiveRequest,
+  TileArchiveResponse,
+} from '@/services/tileArchive'
+import { getArchiveTileId } from '@/services/tileArchiveFormat'
+
+interface MemoryArchive {
+  sourceId: string
+  tiles: Map<string, ArchivedTile> // by z/x/y, last write wins
+  bytes: number // tile bytes appended, like the size of the tiles file
+}
+
+/**
+ * Stand-in for the archive worker keeping archives in memory
+ * Archives are shared by all instances, like files outlive a crashed worker;
+ * clear them with MemoryArchiveWorker.archives.clear()
+ */
+export class MemoryArchiveWorker {
+  static archives = new Map<string, MemoryArchive>()
+
+  onmessage: ((event: MessageEvent<TileArchiveResponse>) => void) | null = null
+  onerror: ((event: ErrorEvent) => void) | null = null
+
+  postMessage(request: TileArchiveRequest) {
+    queueMicrotask(() => {
+      this.onmessage?.(new MessageEvent('message', { data: this.handle(request) }))
+    })
+  }
+
+  terminate() {}
+
+  private handle(request: TileArchiveRequest): TileArchiveResponse {
+    const archives = MemoryArchiveWorker.archives
+    switch (request.type) {
+      case 'append': {
+        const archive = archives.get(request.areaId) ?? { sourceId: request.sourceId, tiles: new Map(), bytes: 0 }
+        for (const tile of request.tiles) {
+          archive.tiles.set(getArchiveTileId(tile), tile)
+          archive.bytes += tile.data.byteLength
+        }
+        archives.set(request.areaId, archive)
+        return { id: request.id, result: null }
+      }
+      case 'read': {
+        const tile = archives.get(request.areaId)?.tiles.get(getArchiveTileId(request.tile))
+        return { id: request.id, result: tile ? { ...tile, data: tile.data.slice(0) } : null }
+      }
+      case 'list': {
+        const listings: ArchiveListing[] = [...archives].map(([areaId, { sourceId, tiles }]) => ({
+          areaId,
+          sourceId,
+          tiles: [...tiles.values()].flatMap(({ z, x, y }) => [z, x, y]),
+        }))
+        return { id: request.id, result: listings }
+      }
+      case 'compact': {
+        const archive = archives.get(request.areaId)
+        if (!archive) return { id: request.id, error: 'NotFoundError' }
+        const liveBytes = [...archive.tiles.values()].reduce((total, tile) => total + tile.data.byteLength, 0)
+        if (archive.bytes - liveBytes <= liveBytes) return { id: request.id, result: false }
+        archive.bytes = liveBytes
+        return { id: request.id, result: true }
+      }
+      case 'delete':
+        archives.delete(request.areaId)
+        return { id: request.id, result: null }
+    }
+  }
+}
@@ -43,12 +43,18 @@ beforeEach(async () => {
   // Get all databases
   const dbs = await indexedDB.databases()
 
-  // Delete each database
-  for (const db of dbs) {
-    if (db.name) {
-      indexedDB.deleteDatabase(db.name)
-    }
-  }
+  // Delete each database; wait for it, or writes at the start of a test may land in the old one
+  // (a connection left open, e.g. by idb-keyval, blocks deletion: don't wait for those)
+  await Promise.all(
+    dbs.map(
+      (db) =>
+        new Promise<void>((resolve) => {
+          if (!db.name) return resolve()
+          const request = indexedDB.deleteDatabase(db.name)
+          request.onsuccess = request.onerror = request.onblocked = () => resolve()
+        })
+    )
+  )
 })
 
 // Mock navigator.storage API
@@ -99,6 +105,22 @@ global.Image = class extends CanvasImage {
   }
 
   set src(value: string) {
+    // Handle object URLs created by the URL.createObjectURL mock
+    if (value.startsWith('blob:')) {
+      const blob = objectURLMap.get(value)
+      const loaded = blob ? blob.arrayBuffer() : Promise.reject(new Error(`Unknown object URL: ${value}`))
+      loaded
+        .then((arrayBuffer) => {
+          // @ts-expect-error - node-canvas Image has src setter that accepts Buffer
+          super.src = Buffer.from(arrayBuffer)
+          this._onload?.call(this, new Event('load'))
+        })
+        .catch((error: Error) => {
+          this._onerror?.call(this, 'Error loading image', '', 0, 0, error)
+        })
+      return
+    }
+
     // Handle data URLs
     if (value.startsWith('data:')) {
       const base64 = value.split(',')[1]
@@ -161,3 +183,19 @@ if (typeof Blob.prototype.arrayBuffer === 'undefined') {
     })
   }
 }
+
+// Mock createImageBitmap: decode blobs with node-canvas, which can be drawn to the mocked 2d contexts
+global.createImageBitmap = async function (source: ImageBitmapSource) {
+  if (!(source instanceof Blob)) {
+    throw new TypeError('createImageBitmap mock only supports Blob sources')
+  }
+  const image = new CanvasImage()
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve()
+    image.onerror = (error) => reject(new DOMException(error.message, 'InvalidStateError'))
+    source.arrayBuffer().then((arrayBuffer) => {
+      image.src = Buffer.from(arrayBuffer)
+    }, reject)
+  })
+  return Object.assign(image, { close: () => {} }) as unknown as ImageBitmap
+} as typeof createImageBitmap
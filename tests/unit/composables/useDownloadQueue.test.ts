@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { clearDatabase } from '@/services/db'
+import { useDownloadQueue } from '@/composables/useDownloadQueue'
+import { useDownloadedAreas } from '@/composables/useDownloadedAreas'
+import { createDownloadJob, getAllDownloadJobs, saveDownloadJob } from '@/services/downloadJobs'
+import { getTileStore } from '@/services/tileStore'
+import { createMockBoundingBox } from '../../helpers/mockTiles'
+import type { BoundingBox } from '@/types'
+
+const TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png'
+
+// Mock tile compression to avoid image loading issues in tests
+vi.mock('@/services/tileCompression', () => ({
+  compressTileAuto: vi.fn(async (blob: Blob, profile: string) => ({
+    blob,
+    format: 'png' as const,
+    profile,
+    originalSize: blob.size,
+    compressedSize: blob.size,
+    compressionRatio: 1.0,
+  })),
+  detectWebPSupport: vi.fn(async () => false),
+  detectBestCompressionFormat: vi.fn(async () => 'png' as const),
+}))
+
+const okResponse = () => ({ ok: true, blob: async () => new Blob(['tile data'], { type: 'image/png' }) })
+
+describe('useDownloadQueue', () => {
+  const largeBbox: BoundingBox = { west: 9.0, south: 48.5, east: 10.0, north: 49.5 }
+
+  beforeEach(async () => {
+    await clearDatabase()
+    global.fetch = vi.fn().mockResolvedValue(okResponse())
+  })
+
+  describe('enqueueArea', () => {
+    it('should download queued areas one after another and save them', async () => {
+      const onJobFinished = vi.fn()
+      const { enqueueArea, waitForIdle, items } = useDownloadQueue({ onJobFinished })
+      const { getAllAreas } = useDownloadedAreas()
+
+      const first = await enqueueArea(createMockBoundingBox(), 'First', 8, 0)
+      const second = await enqueueArea(createMockBoundingBox(), 'Second', 8, 0)
+      await waitForIdle()
+
+      expect(onJobFinished.mock.calls.map((call) => call[0])).toEqual([first.id, second.id])
+      expect((await getAllAreas()).map((area) => area.name).sort()).toEqual(['First', 'Second'])
+      expect(items.value).toEqual([])
+      expect(await getAllDownloadJobs()).toEqual([])
+    })
+
+    it('should list queued jobs with their progress', async () => {
+      // Keep the first job running so the second stays queued
+      let release!: () => void
+      const blocked = new Promise<void>((resolve) => {
+        release = resolve
+      })
+      global.fetch = vi.fn().mockImplementation(async () => {
+        await blocked
+        return okResponse()
+      })
+
+      const { enqueueArea, waitForIdle, items, activeJobId } = useDownloadQueue()
+      const first = await enqueueArea(createMockBoundingBox(), 'First', 8, 0)
+      const second = await enqueueArea(createMockBoundingBox(), 'Second', 8, 0)
+      await vi.waitFor(() => expect(activeJobId.value).toBe(first.id))
+
+      expect(items.value.map((item) => item.job.id)).toEqual([first.id, second.id])
+      expect(items.value[0]!.isActive).toBe(true)
+      expect(items.value[1]!.job.status).toBe('queued')
+      expect(items.value[1]!.progress.total).toBeGreaterThan(0)
+      expect(items.value[1]!.progress.downloaded).toBe(0)
+
+      release()
+      await waitForIdle()
+    })
+  })
+
+  describe('moveJob', () => {
+    it('should run jobs in their new order', async () => {
+      // Keep the first job running while the others wait in the queue
+      let release!: () => void
+      const blocked = new Promise<void>((resolve) => {
+        release = resolve
+      })
+      global.fetch = vi.fn().mockImplementation(async () => {
+        await blocked
+        return okResponse()
+      })
+
+      const onJobFinished = vi.fn()
+      const { enqueueArea, moveJob, waitForIdle, items } = useDownloadQueue({ onJobFinished })
+
+      const running = await enqueueArea(createMockBoundingBox(), 'Running', 8, 0)
+      const first = await enqueueArea(createMockBoundingBox(), 'First', 8, 0)
+      const second = await enqueueArea(createMockBoundingBox(), 'Second', 8, 0)
+
+      await moveJob(second.id, -1)
+      expect(items.value.map((item) => item.job.name)).toEqual(['Running', 'Second', 'First'])
+
+      release()
+      await waitForIdle()
+
+      expect(onJobFinished.mock.calls.map((call) => call[0])).toEqual([running.id, second.id, first.id])
+    })
+
+    it('should persist the queue order', async () => {
+      const { enqueueArea, pauseJob, moveJob, waitForIdle } = useDownloadQueue()
+
+      const first = await enqueueArea(createMockBoundingBox(), 'First', 8, 0)
+      await pauseJob(first.id)
+      await waitForIdle()
+      const second = await enqueueArea(createMockBoundingBox(), 'Second', 8, 0)
+      await pauseJob(second.id)
+      await waitForIdle()
+
+      await moveJob(second.id, -1)
+
+      const jobs = await getAllDownloadJobs()
+      expect(jobs.map((job) => job.name)).toEqual(['Second', 'First'])
+    })
+  })
+
+  describe('pauseJob / resumeJob', () => {
+    it('should pause the running job and keep it in the queue', async () => {
+      const { enqueueArea, pauseJob, waitForIdle, items } = useDownloadQueue()
+
+      let first: { id: string } | null = null
+      global.fetch = vi.fn().mockImplementation(async () => {
+        if (first) await pauseJob(first.id)
+        return okResponse()
+      })
+
+      first = await enqueueArea(largeBbox, 'Large', 8, 2)
+      await waitForIdle()
+
+      expect(items.value).toHaveLength(1)
+      expect(items.value[0]!.job.status).toBe('paused')
+      expect(items.value[0]!.progress.isPaused).toBe(true)
+      expect(items.value[0]!.progress.downloaded).toBeGreaterThan(0)
+      expect(items.value[0]!.progress.downloaded).toBeLessThan(items.value[0]!.progress.total)
+    })
+
+    it('should finish a paused job once resumed', async () => {
+      const onJobFinished = vi.fn()
+      const { enqueueArea, pauseJob, resumeJob, waitForIdle, items } = useDownloadQueue({ onJobFinished })
+
+      const job = await enqueueArea(createMockBoundingBox(), 'Area', 8, 0)
+      await pauseJob(job.id)
+      await waitForIdle()
+      expect(items.value[0]!.job.status).toBe('paused')
+
+      await resumeJob(job.id)
+      await waitForIdle()
+
+      expect(items.value).toEqual([])
+      expect(onJobFinished).toHaveBeenCalledWith(job.id, expect.objectContaining({ isComplete: true }))
+    })
+  })
+
+  describe('storage full', () => {
+    it('should keep a job stopped by full storage to resume it later', async () => {
+      const { enqueueArea, waitForIdle, items } = useDownloadQueue()
+      const putManyWithMetadata = vi
+        .spyOn(await getTileStore(), 'putManyWithMetadata')
+        .mockRejectedValue(new DOMException('The quota has been exceeded.', 'QuotaExceededError'))
+
+      try {
+        await enqueueArea(largeBbox, 'Large', 8, 1)
+        await waitForIdle()
+      } finally {
+        putManyWithMetadata.mockRestore()
+      }
+
+      expect(items.value).toHaveLength(1)
+      expect(items.value[0]!.job.status).toBe('failed')
+      expect(items.value[0]!.job.storageFull).toBe(true)
+      expect(items.value[0]!.job.error).toContain('Storage full')
+    })
+  })
+
+  describe('removeJob', () => {
+    it('should drop a queued job without downloading it', async () => {
+      const { enqueueArea, pauseJob, removeJob, waitForIdle, items } = useDownloadQueue()
+
+      const job = await enqueueArea(createMockBoundingBox(), 'Area', 8, 0)
+      await pauseJob(job.id)
+      await waitForIdle()
+      await removeJob(job.id)
+
+      expect(items.value).toEqual([])
+      expect(await getAllDownloadJobs()).toEqual([])
+    })
+
+    it('should cancel the running job', async () => {
+      const { enqueueArea, removeJob, waitForIdle, items } = useDownloadQueue()
+      const { getAllAreas } = useDownloadedAreas()
+
+      let jobId: string | null = null
+      let calls = 0
+      global.fetch = vi.fn().mockImplementation(async () => {
+        if (++calls === 5 && jobId) void removeJob(jobId)
+        return okResponse()
+      })
+
+      jobId = (await enqueueArea(largeBbox, 'Large', 8, 2)).id
+      await waitForIdle()
+
+      expect(items.value).toEqual([])
+      expect(await getAllAreas()).toEqual([])
+      expect(await getAllDownloadJobs()).toEqual([])
+    })
+  })
+
+  describe('loadQueue', () => {
+    it('should restore persisted jobs as paused', async () => {
+      const job = createDownloadJob(createMockBoundingBox(), 'Interrupted', 8, 0, TILE_URL)
+      job.status = 'downloading'
+      await saveDownloadJob(job)
+
+      const { loadQueue, items } = useDownloadQueue()
+      await loadQueue()
+
+      expect(items.value).toHaveLength(1)
+      expect(items.value[0]!.job.status).toBe('paused')
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -1,12 +1,12 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { useDownloadedAreas } from '@/composables/useDownloadedAreas'
-import { clear } from 'idb-keyval'
+import { clearDatabase, putRecord } from '@/services/db'
 import type { DownloadedArea } from '@/types'
-import { createMockBoundingBox } from '../../helpers/mockTiles'
+import { createMockBoundingBox, createMockDownloadedArea } from '../../helpers/mockTiles'
 
 describe('useDownloadedAreas', () => {
   beforeEach(async () => {
-    await clear()
+    await clearDatabase()
   })
 
   describe('saveAreaMetadata', () => {
@@ -251,6 +251,92 @@ describe('useDownloadedAreas', () => {
       expect(tilesAfter.length).toBe(0)
     })
 
+    it('should keep tiles shared with another area', async () => {
+      const { saveAreaMetadata, deleteArea } = useDownloadedAreas()
+      const { saveTileToStorage, getAllStoredTileKeys, getTileKey } = await import('@/services/tileDownloader')
+      const { calculateDownloadList } = await import('@/services/tileCalculator')
+
+      const smallBbox = { west: 9.0, south: 48.5, east: 9.1, north: 48.6 }
+      const largeBbox = { west: 9.0, south: 48.5, east: 10.5, north: 49.5 }
+      const small = createMockDownloadedArea({ id: 'small', bbox: smallBbox, additionalZoomLevels: 1 })
+      const large = createMockDownloadedArea({ id: 'large', bbox: largeBbox, additionalZoomLevels: 1 })
+
+      const smallTiles = calculateDownloadList(smallBbox, 8, 1)
+      const largeTiles = calculateDownloadList(largeBbox, 8, 1)
+      const blob = new Blob(['tile data'], { type: 'image/png' })
+      for (const tile of [...smallTiles, ...largeTiles]) {
+        await saveTileToStorage(tile, blob)
+      }
+      await saveAreaMetadata(small)
+      await saveAreaMetadata(large)
+
+      await deleteArea('large')
+
+      const remaining = (await getAllStoredTileKeys()).sort()
+      expect(remaining).toEqual(smallTiles.map((tile) => getTileKey(tile)).sort())
+    })
+
+    it('should keep tiles an unfinished download covers', async () => {
+      const { saveAreaMetadata, deleteArea } = useDownloadedAreas()
+      const { saveTileToStorage, getAllStoredTileKeys } = await import('@/services/tileDownloader')
+      const { calculateDownloadList } = await import('@/services/tileCalculator')
+      const { createDownloadJob, saveDownloadJob } = await import('@/services/downloadJobs')
+
+      const bbox = { west: 9.0, south: 48.5, east: 9.1, north: 48.6 }
+      const blob = new Blob(['tile data'], { type: 'image/png' })
+      for (const tile of calculateDownloadList(bbox, 8, 1)) {
+        await saveTileToStorage(tile, blob)
+      }
+      await saveAreaMetadata(createMockDownloadedArea({ id: 'area-1', bbox, additionalZoomLevels: 1 }))
+      // A paused download of the same extent skipped these tiles as already offline
+      await saveDownloadJob(createDownloadJob(bbox, 'Paused', 8, 1, 'https://tile.openstreetmap.org/{z}/{x}/{y}.png'))
+
+      await deleteArea('area-1')
+
+      expect(await getAllStoredTileKeys()).toHaveLength(calculateDownloadList(bbox, 8, 1).length)
+    })
+
+    it('should not delete tiles of areas saved before the ownership index existed', async () => {
+      const { saveAreaMetadata, deleteArea } = useDownloadedAreas()
+      const { saveTileToStorage, getAllStoredTileKeys } = await import('@/services/tileDownloader')
+      const { calculateDownloadList } = await import('@/services/tileCalculator')
+
+      const bbox = { west: 9.0, south: 48.5, east: 9.1, north: 48.6 }
+      const blob = new Blob(['tile data'], { type: 'image/png' })
+      for (const tile of calculateDownloadList(bbox, 8, 0)) {
+        await saveTileToStorage(tile, blob)
+      }
+
+      // Legacy area: stored directly, without ownership entries
+      const legacy = createMockDownloadedArea({ id: 'legacy', bbox, additionalZoomLevels: 0 })
+      await putRecord('areas', legacy)
+      await saveAreaMetadata(createMockDownloadedArea({ id: 'newer', bbox, additionalZoomLevels: 0 }))
+
+      await deleteArea('newer')
+
+      expect((await getAllStoredTileKeys()).length).toBeGreaterThan(0)
+    })
+
+    it('should report the deleted tiles while deleting an area', async () => {
+      const { saveAreaMetadata, deleteArea } = useDownloadedAreas()
+      const { saveTileToStorage, getAllStoredTileKeys } = await import('@/services/tileDownloader')
+      const { calculateDownloadList } = await import('@/services/tileCalculator')
+
+      const bbox = { west: 9.0, south: 48.5, east: 9.1, north: 48.6 }
+      const tiles = calculateDownloadList(bbox, 8, 2)
+      const blob = new Blob(['tile data'], { type: 'image/png' })
+      for (const tile of tiles) {
+        await saveTileToStorage(tile, blob)
+      }
+      await saveAreaMetadata(createMockDownloadedArea({ id: 'area-1', bbox, additionalZoomLevels: 2 }))
+      const onProgress = vi.fn()
+
+      await deleteArea('area-1', onProgress)
+
+      expect(await getAllStoredTileKeys()).toHaveLength(0)
+      expect(onProgress).toHaveBeenLastCalledWith(tiles.length, tiles.length)
+    })
+
     it('should not throw error when deleting non-existent area', async () => {
       const { deleteArea } = useDownloadedAreas()
 
@@ -345,6 +431,50 @@ describe('useDownloadedAreas', () => {
     })
   })
 
+  describe('getCachedTiles', () => {
+    it('should only count stored tiles no area owns', async () => {
+      const { saveAreaMetadata, getCachedTiles } = useDownloadedAreas()
+      const { saveTileToStorage } = await import('@/services/tileDownloader')
+      const { calculateDownloadList } = await import('@/services/tileCalculator')
+
+      const bbox = { west: 9.0, south: 48.5, east: 9.1, north: 48.6 }
+      const blob = new Blob(['tile data'], { type: 'image/png' })
+      for (const tile of calculateDownloadList(bbox, 8, 0)) {
+        await saveTileToStorage(tile, blob)
+      }
+      await saveTileToStorage({ z: 3, x: 1, y: 1 }, blob)
+      await saveAreaMetadata(createMockDownloadedArea({ bbox, additionalZoomLevels: 0 }))
+
+      const cached = await getCachedTiles()
+
+      expect(cached.tileKeys).toEqual(['tile_3_1_1'])
+      expect(cached.count).toBe(1)
+    })
+
+    it('should leave out tiles an unfinished download stored', async () => {
+      const { getCachedTiles, deleteCachedTiles } = useDownloadedAreas()
+      const { saveTileToStorage, getAllStoredTileKeys, getTileKey } = await import('@/services/tileDownloader')
+      const { calculateDownloadList } = await import('@/services/tileCalculator')
+      const { createDownloadJob, saveDownloadJob, saveJobProgress } = await import('@/services/downloadJobs')
+
+      const bbox = { west: 9.0, south: 48.5, east: 9.1, north: 48.6 }
+      const blob = new Blob(['tile data'], { type: 'image/png' })
+      const jobTiles = calculateDownloadList(bbox, 8, 0)
+      for (const tile of jobTiles) {
+        await saveTileToStorage(tile, blob)
+      }
+      await saveTileToStorage({ z: 3, x: 1, y: 1 }, blob)
+      const job = createDownloadJob(bbox, 'Paused', 8, 0, 'https://tile.openstreetmap.org/{z}/{x}/{y}.png')
+      await saveDownloadJob(job)
+      await saveJobProgress(job, jobTiles.map((tile) => getTileKey(tile)))
+
+      expect((await getCachedTiles()).tileKeys).toEqual(['tile_3_1_1'])
+      await deleteCachedTiles()
+
+      expect(await getAllStoredTileKeys()).toHaveLength(jobTiles.length)
+    })
+  })
+
   describe('getAreaById', () => {
     it('should return null for non-existent area', async () => {
       const { getAreaById } = useDownloadedAreas()
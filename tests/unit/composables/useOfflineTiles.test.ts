@@ -1,9 +1,28 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { useOfflineTiles } from '@/composables/useOfflineTiles'
+import { useDownloadedAreas } from '@/composables/useDownloadedAreas'
+import { createDownloadJob, getJobTileKeys, iterateJobTiles, saveDownloadJob, saveJobProgress } from '@/services/downloadJobs'
+import { getTileKey, getTileFromStorage } from '@/services/tileDownloader'
+import { calculateDownloadList } from '@/services/tileCalculator'
+import { getTileStore } from '@/services/tileStore'
+import { getDownloadConditionSettings, setDownloadConditionSettings } from '@/services/downloadConditions'
+import { deleteTileArchive, readArchivedTileValidators, setTileArchiveEnabled } from '@/services/tileArchive'
+import { getBrowseCacheStats } from '@/services/browseCache'
 import { createMockBoundingBox } from '../../helpers/mockTiles'
-import { clear } from 'idb-keyval'
+import { MemoryArchiveWorker } from '../../helpers/mockArchiveWorker'
+import { clearDatabase, getAllKeys } from '@/services/db'
 import type { BoundingBox } from '@/types'
 
+const TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png'
+
+// Areas are only packed where OPFS is supported, see isTileArchiveSupported()
+const archiveSupport = vi.hoisted(() => ({ opfs: false }))
+
+vi.mock('@/utils/platform', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/platform')>()),
+  supportsOPFS: () => archiveSupport.opfs,
+}))
+
 // Mock tile compression to avoid image loading issues in tests
 vi.mock('@/services/tileCompression', () => ({
   compressTileAuto: vi.fn(async (blob: Blob, profile: string) => ({
@@ -20,7 +39,7 @@ vi.mock('@/services/tileCompression', () => ({
 
 describe('useOfflineTiles', () => {
   beforeEach(async () => {
-    await clear()
+    await clearDatabase()
     // Mock fetch for tile downloads
     global.fetch = vi.fn().mockResolvedValue({
       ok: true,
@@ -140,6 +159,748 @@ describe('useOfflineTiles', () => {
       expect(downloadProgress.value.isCancelled).toBe(true)
       expect(downloadProgress.value.isComplete).toBe(false)
     })
+
+    it('should download from the selected tile source and store its tiles separately', async () => {
+      const { downloadArea } = useOfflineTiles()
+      const { getAllAreas } = useDownloadedAreas()
+      const bbox = createMockBoundingBox()
+
+      await downloadArea(bbox, 'Topo Area', 8, 0, undefined, { sourceId: 'opentopomap' })
+
+      const [tile] = calculateDownloadList(bbox, 8, 0)
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringMatching(/^https:\/\/[abc]\.tile\.opentopomap\.org\/8\//),
+        expect.anything()
+      )
+      expect(await getTileFromStorage(tile!, 'opentopomap')).toBeTruthy()
+      expect(await getTileFromStorage(tile!)).toBeNull()
+
+      const [area] = await getAllAreas()
+      expect(area?.sourceId).toBe('opentopomap')
+    })
+
+    it('should reject unknown tile sources', async () => {
+      const { downloadArea } = useOfflineTiles()
+
+      await expect(
+        downloadArea(createMockBoundingBox(), 'Test Area', 8, 0, undefined, { sourceId: 'missing' })
+      ).rejects.toThrow('Unknown tile source: missing')
+    })
+
+    it('should refuse downloads beyond the tile usage policy without keeping a job', async () => {
+      const { downloadArea, getResumableJobs } = useOfflineTiles()
+
+      const smallBbox: BoundingBox = { west: 9.0, south: 48.5, east: 9.001, north: 48.501 }
+
+      await expect(downloadArea(smallBbox, 'Too Detailed', 17, 0)).rejects.toThrow('Tile usage policy')
+
+      expect(global.fetch).not.toHaveBeenCalled()
+      expect(await getResumableJobs()).toEqual([])
+    })
+  })
+
+  describe('resumable downloads', () => {
+    it('should remove the job record after a completed download', async () => {
+      const { downloadArea, getResumableJobs } = useOfflineTiles()
+
+      await downloadArea(createMockBoundingBox(), 'Test Area', 8, 0)
+
+      expect(await getResumableJobs()).toEqual([])
+    })
+
+    it('should only fetch tiles still missing when resuming a job', async () => {
+      const { resumeJob, downloadProgress } = useOfflineTiles()
+      const job = createDownloadJob(createMockBoundingBox(), 'Interrupted Area', 8, 1, TILE_URL)
+      const allTiles = [...iterateJobTiles(job)]
+      job.completedTileCount = 2
+      job.bytesDownloaded = 2048
+      await saveJobProgress(job, allTiles.slice(0, 2).map((tile) => getTileKey(tile)))
+
+      await resumeJob(job.id)
+
+      expect(global.fetch).toHaveBeenCalledTimes(allTiles.length - 2)
+      expect(downloadProgress.value.isComplete).toBe(true)
+      expect(downloadProgress.value.downloaded).toBe(allTiles.length)
+      expect(downloadProgress.value.resumedFrom).toEqual({ tiles: 2, bytes: 2048 })
+    })
+
+    it('should save the area and drop the job when a resumed job completes', async () => {
+      const { resumeJob, getResumableJobs } = useOfflineTiles()
+      const { getAreaById } = useDownloadedAreas()
+      const job = createDownloadJob(createMockBoundingBox(), 'Interrupted Area', 8, 0, TILE_URL)
+      await saveDownloadJob(job)
+
+      await resumeJob(job.id)
+
+      const area = await getAreaById(job.id)
+      expect(area?.name).toBe('Interrupted Area')
+      expect(await getResumableJobs()).toEqual([])
+    })
+
+    it('should list interrupted jobs and allow discarding them', async () => {
+      const { getResumableJobs, discardJob } = useOfflineTiles()
+      const job = createDownloadJob(createMockBoundingBox(), 'Interrupted Area', 8, 0, TILE_URL)
+      await saveDownloadJob(job)
+
+      const jobs = await getResumableJobs()
+      expect(jobs.map((j) => j.id)).toEqual([job.id])
+
+      await discardJob(job.id)
+      expect(await getResumableJobs()).toEqual([])
+    })
+
+    it('should throw when resuming an unknown job', async () => {
+      const { resumeJob } = useOfflineTiles()
+
+      await expect(resumeJob('missing')).rejects.toThrow('Download job not found')
+    })
+  })
+
+  describe('pause and resume', () => {
+    const largeBbox: BoundingBox = { west: 9.0, south: 48.5, east: 10.0, north: 49.5 }
+
+    it('should pause after tiles in flight finish and keep the job', async () => {
+      const { downloadArea, pauseDownload, downloadProgress, getResumableJobs } = useOfflineTiles()
+
+      global.fetch = vi.fn().mockImplementation(async () => {
+        pauseDownload()
+        return { ok: true, blob: async () => new Blob(['tile data'], { type: 'image/png' }) }
+      })
+
+      await downloadArea(largeBbox, 'Paused Area', 8, 2)
+
+      expect(downloadProgress.value.isPaused).toBe(true)
+      expect(downloadProgress.value.isComplete).toBe(false)
+      expect(downloadProgress.value.downloaded).toBeLessThan(downloadProgress.value.total)
+
+      const jobs = await getResumableJobs()
+      expect(jobs).toHaveLength(1)
+      expect(jobs[0]!.completedTileCount).toBe(downloadProgress.value.downloaded)
+      expect(await getJobTileKeys(jobs[0]!.id)).toHaveLength(downloadProgress.value.downloaded)
+    })
+
+    it('should download the remaining tiles on resume', async () => {
+      const { downloadArea, pauseDownload, resumeDownload, downloadProgress } = useOfflineTiles()
+
+      let pauseNext = true
+      global.fetch = vi.fn().mockImplementation(async () => {
+        if (pauseNext) pauseDownload()
+        return { ok: true, blob: async () => new Blob(['tile data'], { type: 'image/png' }) }
+      })
+
+      await downloadArea(largeBbox, 'Paused Area', 8, 2)
+      const downloadedBeforePause = downloadProgress.value.downloaded
+
+      pauseNext = false
+      await resumeDownload()
+
+      expect(downloadProgress.value.isPaused).toBe(false)
+      expect(downloadProgress.value.isComplete).toBe(true)
+      expect(downloadProgress.value.downloaded).toBe(downloadProgress.value.total)
+      expect(downloadProgress.value.resumedFrom?.tiles).toBe(downloadedBeforePause)
+      expect(global.fetch).toHaveBeenCalledTimes(downloadProgress.value.total)
+    })
+
+    it('should drop the job when a paused download is cancelled', async () => {
+      const { downloadArea, pauseDownload, cancelDownload, downloadProgress, getResumableJobs } = useOfflineTiles()
+
+      global.fetch = vi.fn().mockImplementation(async () => {
+        pauseDownload()
+        return { ok: true, blob: async () => new Blob(['tile data'], { type: 'image/png' }) }
+      })
+
+      await downloadArea(largeBbox, 'Paused Area', 8, 2)
+      await cancelDownload()
+
+      expect(downloadProgress.value.isPaused).toBe(false)
+      expect(downloadProgress.value.isCancelled).toBe(true)
+      expect(await getResumableJobs()).toEqual([])
+    })
+
+    it('should ignore resumeDownload when nothing is paused', async () => {
+      const { resumeDownload } = useOfflineTiles()
+
+      await resumeDownload()
+
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('download conditions', () => {
+    const connection = Object.assign(new EventTarget(), { type: 'cellular' })
+
+    function setConnectionType(type: string) {
+      connection.type = type
+      connection.dispatchEvent(new Event('change'))
+    }
+
+    beforeEach(async () => {
+      connection.type = 'cellular'
+      Object.defineProperty(navigator, 'connection', { configurable: true, value: connection })
+      await setDownloadConditionSettings({ ...(await getDownloadConditionSettings()), largeDownloadTiles: 2 })
+    })
+
+    afterEach(() => {
+      delete (navigator as unknown as Record<string, unknown>).connection
+    })
+
+    it('should wait for Wi-Fi before starting a large download', async () => {
+      const { downloadArea, downloadProgress } = useOfflineTiles()
+
+      const download = downloadArea(createMockBoundingBox(), 'Wi-Fi Area', 8, 1)
+      await vi.waitFor(() => expect(downloadProgress.value.waitingReason).toContain('Wi-Fi'))
+      expect(global.fetch).not.toHaveBeenCalled()
+
+      setConnectionType('wifi')
+      await download
+
+      expect(downloadProgress.value.isComplete).toBe(true)
+      expect(downloadProgress.value.waitingReason).toBeUndefined()
+      expect(global.fetch).toHaveBeenCalledTimes(downloadProgress.value.total)
+    })
+
+    it('should pause by itself when the connection changes and continue on Wi-Fi', async () => {
+      const { downloadArea, downloadProgress } = useOfflineTiles()
+      connection.type = 'wifi'
+      global.fetch = vi.fn().mockImplementation(async () => {
+        if (vi.mocked(global.fetch).mock.calls.length === 1) setConnectionType('cellular')
+        return { ok: true, blob: async () => new Blob(['tile data'], { type: 'image/png' }) }
+      })
+
+      const download = downloadArea(createMockBoundingBox(), 'Switching Area', 8, 1)
+      await vi.waitFor(() => expect(downloadProgress.value.waitingReason).toBeDefined())
+      const fetchedWhileWaiting = vi.mocked(global.fetch).mock.calls.length
+      expect(fetchedWhileWaiting).toBeLessThan(downloadProgress.value.total)
+
+      setConnectionType('ethernet')
+      await download
+
+      expect(downloadProgress.value.isComplete).toBe(true)
+      expect(downloadProgress.value.downloaded).toBe(downloadProgress.value.total)
+    })
+
+    it('should not hold small downloads', async () => {
+      const { downloadArea, downloadProgress } = useOfflineTiles()
+      await setDownloadConditionSettings({ ...(await getDownloadConditionSettings()), largeDownloadTiles: 1000 })
+
+      await downloadArea(createMockBoundingBox(), 'Small Area', 8, 0)
+
+      expect(downloadProgress.value.isComplete).toBe(true)
+    })
+
+    it('should keep the job when paused while waiting', async () => {
+      const { downloadArea, pauseDownload, downloadProgress, getResumableJobs } = useOfflineTiles()
+
+      const download = downloadArea(createMockBoundingBox(), 'Waiting Area', 8, 1)
+      await vi.waitFor(() => expect(downloadProgress.value.waitingReason).toBeDefined())
+      pauseDownload()
+      await download
+
+      expect(downloadProgress.value.isPaused).toBe(true)
+      expect(global.fetch).not.toHaveBeenCalled()
+      expect(await getResumableJobs()).toHaveLength(1)
+    })
+  })
+
+  describe('cancellation', () => {
+    const largeBbox: BoundingBox = { west: 9.0, south: 48.5, east: 10.0, north: 49.5 }
+    const okResponse = () => ({ ok: true, blob: async () => new Blob(['tile data'], { type: 'image/png' }) })
+
+    async function getStoredTileCount(): Promise<number> {
+      return (await getAllKeys('tiles')).filter((key) => /^tile_\d/.test(key)).length
+    }
+
+    it('should abort requests in flight and stop the queue', async () => {
+      const { downloadArea, cancelDownload, downloadProgress } = useOfflineTiles()
+      const signals: AbortSignal[] = []
+
+      // Requests hang until they are aborted
+      global.fetch = vi.fn().mockImplementation((_url: string, init?: RequestInit) => {
+        signals.push(init!.signal!)
+        if (signals.length === 1) cancelDownload()
+        return new Promise((_resolve, reject) => {
+          if (init!.signal!.aborted) reject(new DOMException('Aborted', 'AbortError'))
+          init!.signal!.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+        })
+      })
+
+      await downloadArea(largeBbox, 'Cancelled Area', 8, 2)
+
+      expect(downloadProgress.value.isCancelled).toBe(true)
+      expect(downloadProgress.value.failed).toBe(0)
+      expect(signals.length).toBeLessThanOrEqual(6)
+      expect(signals.every((signal) => signal.aborted)).toBe(true)
+    })
+
+    it('should roll back tiles written before cancellation by default', async () => {
+      const { downloadArea, cancelDownload, getResumableJobs } = useOfflineTiles()
+
+      let calls = 0
+      global.fetch = vi.fn().mockImplementation(async () => {
+        if (++calls === 10) cancelDownload()
+        return okResponse()
+      })
+
+      await downloadArea(largeBbox, 'Cancelled Area', 8, 2)
+
+      expect(await getStoredTileCount()).toBe(0)
+      expect(await getResumableJobs()).toEqual([])
+    })
+
+    it('should keep tiles that belong to existing areas when rolling back', async () => {
+      const { downloadArea, cancelDownload } = useOfflineTiles()
+      const existingBbox = createMockBoundingBox()
+      await downloadArea(existingBbox, 'Existing Area', 8, 0)
+      const existingTile = calculateDownloadList(existingBbox, 8, 0)[0]!
+
+      let calls = 0
+      global.fetch = vi.fn().mockImplementation(async () => {
+        if (++calls === 10) cancelDownload()
+        return okResponse()
+      })
+
+      await downloadArea(largeBbox, 'Cancelled Area', 8, 2)
+
+      expect(await getTileFromStorage(existingTile)).not.toBeNull()
+    })
+
+    it('should keep tiles another unfinished download covers when rolling back', async () => {
+      const { downloadArea, cancelDownload, downloadProgress } = useOfflineTiles()
+      await saveDownloadJob(createDownloadJob(largeBbox, 'Paused Area', 8, 2, 'https://tile.openstreetmap.org/{z}/{x}/{y}.png'))
+
+      let calls = 0
+      global.fetch = vi.fn().mockImplementation(async () => {
+        if (++calls === 10) cancelDownload()
+        return okResponse()
+      })
+
+      await downloadArea(largeBbox, 'Cancelled Area', 8, 2)
+
+      expect(await getStoredTileCount()).toBe(downloadProgress.value.downloaded)
+      expect(await getStoredTileCount()).toBeGreaterThan(0)
+    })
+
+    it('should keep tiles as a partial area when requested', async () => {
+      const { downloadArea, cancelDownload, downloadProgress } = useOfflineTiles()
+      const { getAllAreas } = useDownloadedAreas()
+
+      let calls = 0
+      global.fetch = vi.fn().mockImplementation(async () => {
+        if (++calls === 10) cancelDownload({ keepPartial: true })
+        return okResponse()
+      })
+
+      await downloadArea(largeBbox, 'Partial Area', 8, 2)
+
+      const areas = await getAllAreas()
+      expect(areas).toHaveLength(1)
+      expect(areas[0]!.isPartial).toBe(true)
+      expect(areas[0]!.tileCount).toBe(downloadProgress.value.downloaded)
+      expect(areas[0]!.tileCount).toBeLessThan(downloadProgress.value.total)
+      expect(await getStoredTileCount()).toBe(areas[0]!.tileCount)
+      expect(areas[0]!.failedTiles).toEqual([])
+      expect(areas[0]!.remainingTileCount).toBe(downloadProgress.value.total - areas[0]!.tileCount)
+    })
+
+    it('should download the tiles a partial area has not tried yet when it is continued', async () => {
+      const { downloadArea, cancelDownload, retryFailedTiles, downloadProgress } = useOfflineTiles()
+      const { getAreaById } = useDownloadedAreas()
+
+      let calls = 0
+      global.fetch = vi.fn().mockImplementation(async () => {
+        if (++calls === 10) cancelDownload({ keepPartial: true })
+        return okResponse()
+      })
+      await downloadArea(largeBbox, 'Partial Area', 8, 2)
+      const areaId = downloadProgress.value.areaId
+      const total = downloadProgress.value.total
+      const partial = await getAreaById(areaId)
+      global.fetch = vi.fn().mockImplementation(async () => okResponse())
+
+      await retryFailedTiles(areaId)
+
+      const area = await getAreaById(areaId)
+      expect(global.fetch).toHaveBeenCalledTimes(partial!.remainingTileCount!)
+      expect(downloadProgress.value.total).toBe(partial!.remainingTileCount)
+      expect(area?.isPartial).toBe(false)
+      expect(area?.remainingTileCount).toBe(0)
+      expect(area?.tileCount).toBe(total)
+      expect(await getStoredTileCount()).toBe(total)
+    })
+
+    it('should keep a paused download as a partial area when requested', async () => {
+      const { downloadArea, pauseDownload, cancelDownload, downloadProgress } = useOfflineTiles()
+      const { getAreaById } = useDownloadedAreas()
+
+      global.fetch = vi.fn().mockImplementation(async () => {
+        pauseDownload()
+        return okResponse()
+      })
+
+      await downloadArea(largeBbox, 'Paused Area', 8, 2)
+      await cancelDownload({ keepPartial: true })
+
+      const area = await getAreaById(downloadProgress.value.areaId)
+      expect(area?.isPartial).toBe(true)
+      expect(area?.tileCount).toBe(downloadProgress.value.downloaded)
+    })
+  })
+
+  describe('storage full', () => {
+    const largeBbox: BoundingBox = { west: 9.0, south: 48.5, east: 10.0, north: 49.5 }
+
+    /**
+     * Let the first tile batch be written, then fail every write as if the storage were full
+     */
+    async function fillStorageAfterFirstWrite() {
+      const store = await getTileStore()
+      const putManyWithMetadata = store.putManyWithMetadata!.bind(store)
+      let writes = 0
+      return vi.spyOn(store, 'putManyWithMetadata').mockImplementation(async (entries, metadata) => {
+        if (writes++ > 0) throw new DOMException('The quota has been exceeded.', 'QuotaExceededError')
+        await putManyWithMetadata(entries, metadata)
+      })
+    }
+
+    it('should stop the download and keep the stored tiles as a partial area', async () => {
+      const { downloadArea, downloadProgress, getResumableJobs } = useOfflineTiles()
+      const { getAreaById } = useDownloadedAreas()
+      const putMany = await fillStorageAfterFirstWrite()
+
+      try {
+        await expect(downloadArea(largeBbox, 'Full Area', 8, 1)).rejects.toThrow('Storage full')
+      } finally {
+        putMany.mockRestore()
+      }
+
+      expect(downloadProgress.value.storageFull).toBe(true)
+      expect(downloadProgress.value.failed).toBe(0)
+      const area = await getAreaById(downloadProgress.value.areaId)
+      const storedTiles = (await getAllKeys('tiles')).filter((key) => /^tile_\d/.test(key)).length
+      expect(area?.isPartial).toBe(true)
+      expect(area?.tileCount).toBe(storedTiles)
+      expect(area?.tileCount).toBeLessThan(downloadProgress.value.total)
+      expect(area?.failedTiles).toEqual([])
+      expect(area?.remainingTileCount).toBe(downloadProgress.value.total - storedTiles)
+      expect((await getResumableJobs()).map((job) => job.id)).toEqual([downloadProgress.value.areaId])
+    })
+
+    it('should complete the area when resumed after space was freed', async () => {
+      const { downloadArea, resumeJob, downloadProgress, getResumableJobs } = useOfflineTiles()
+      const { getAreaById } = useDownloadedAreas()
+      const putMany = await fillStorageAfterFirstWrite()
+      await downloadArea(largeBbox, 'Full Area', 8, 1).catch(() => {})
+      putMany.mockRestore()
+
+      await resumeJob(downloadProgress.value.areaId)
+
+      const area = await getAreaById(downloadProgress.value.areaId)
+      expect(area?.isPartial).toBe(false)
+      expect(area?.tileCount).toBe(downloadProgress.value.total)
+      expect(await getResumableJobs()).toEqual([])
+    })
+  })
+
+  describe('failed tiles', () => {
+    const bbox: BoundingBox = { west: 9.0, south: 48.0, east: 10.0, north: 49.0 }
+    const failingUrl = (url: string) => url.includes('/8/134/')
+
+    beforeEach(() => {
+      // Tiles of one column fail permanently
+      global.fetch = vi.fn().mockImplementation(async (url: string) => {
+        if (failingUrl(url)) return { ok: false, status: 404 }
+        return { ok: true, blob: async () => new Blob(['tile data'], { type: 'image/png' }) }
+      })
+    })
+
+    it('should record failed tiles with their reason on the area', async () => {
+      const { downloadArea, downloadProgress } = useOfflineTiles()
+      const { getAreaById } = useDownloadedAreas()
+
+      await downloadArea(bbox, 'Test Area', 8, 0)
+
+      const area = await getAreaById(downloadProgress.value.areaId)
+      expect(area?.isPartial).toBe(true)
+      expect(area?.failedTiles?.length).toBe(downloadProgress.value.failed)
+      expect(area?.failedTiles?.[0]!.tile.x).toBe(134)
+      expect(area?.failedTiles?.[0]!.reason).toContain('404')
+      expect(area?.tileCount).toBe(downloadProgress.value.total - downloadProgress.value.failed)
+    })
+
+    it('should count downloaded and failed tiles per zoom level', async () => {
+      const { downloadArea, downloadProgress } = useOfflineTiles()
+
+      await downloadArea(bbox, 'Test Area', 8, 1)
+
+      const [z8, z9] = downloadProgress.value.zoomLevels!
+      expect(z8).toMatchObject({ zoom: 8, failed: downloadProgress.value.failed })
+      expect(z8!.downloaded + z8!.failed).toBe(z8!.total)
+      expect(z9).toMatchObject({ zoom: 9, failed: 0, downloaded: z9!.total })
+      expect(z8!.total + z9!.total).toBe(downloadProgress.value.total)
+    })
+
+    it('should not mark areas without failures as partial', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        blob: async () => new Blob(['tile data'], { type: 'image/png' }),
+      })
+      const { downloadArea, downloadProgress } = useOfflineTiles()
+      const { getAreaById } = useDownloadedAreas()
+
+      await downloadArea(bbox, 'Test Area', 8, 0)
+
+      const area = await getAreaById(downloadProgress.value.areaId)
+      expect(area?.isPartial).toBe(false)
+      expect(area?.failedTiles).toEqual([])
+    })
+
+    it('should re-download only the failed tiles on retry', async () => {
+      const { downloadArea, retryFailedTiles, downloadProgress } = useOfflineTiles()
+      const { getAreaById } = useDownloadedAreas()
+
+      await downloadArea(bbox, 'Test Area', 8, 0)
+      const areaId = downloadProgress.value.areaId
+      const failedCount = downloadProgress.value.failed
+      const total = downloadProgress.value.total
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        blob: async () => new Blob(['tile data'], { type: 'image/png' }),
+      })
+      await retryFailedTiles(areaId)
+
+      expect(global.fetch).toHaveBeenCalledTimes(failedCount)
+      const area = await getAreaById(areaId)
+      expect(area?.isPartial).toBe(false)
+      expect(area?.failedTiles).toEqual([])
+      expect(area?.tileCount).toBe(total)
+      expect(downloadProgress.value.isComplete).toBe(true)
+    })
+
+    it('should keep tiles that fail again with the new reason', async () => {
+      const { downloadArea, retryFailedTiles, downloadProgress } = useOfflineTiles()
+      const { getAreaById } = useDownloadedAreas()
+
+      await downloadArea(bbox, 'Test Area', 8, 0)
+      const areaId = downloadProgress.value.areaId
+      const failedCount = downloadProgress.value.failed
+
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 403 })
+      await retryFailedTiles(areaId)
+
+      const area = await getAreaById(areaId)
+      expect(area?.isPartial).toBe(true)
+      expect(area?.failedTiles).toHaveLength(failedCount)
+      expect(area?.failedTiles?.[0]!.reason).toContain('403')
+    })
+
+    it('should throw when retrying an unknown area', async () => {
+      const { retryFailedTiles } = useOfflineTiles()
+
+      await expect(retryFailedTiles('missing')).rejects.toThrow('Area not found')
+    })
+  })
+
+  describe('updateArea', () => {
+    const bbox: BoundingBox = { west: 9.0, south: 48.0, east: 10.0, north: 49.0 }
+
+    it('should re-download only changed tiles and report the bytes saved', async () => {
+      const { downloadArea, updateArea, downloadProgress } = useOfflineTiles()
+      const { getAreaById } = useDownloadedAreas()
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers({ ETag: '"v1"' }),
+        blob: async () => new Blob(['tile data'], { type: 'image/png' }),
+      })
+      await downloadArea(bbox, 'Test Area', 8, 0)
+      const areaId = downloadProgress.value.areaId
+      const total = downloadProgress.value.total
+
+      // Only the first revalidated tile changed
+      let calls = 0
+      global.fetch = vi.fn().mockImplementation(async () => {
+        if (++calls > 1) return { ok: false, status: 304 }
+        return {
+          ok: true,
+          status: 200,
+          headers: new Headers({ ETag: '"v2"' }),
+          blob: async () => new Blob(['changed tile data'], { type: 'image/png' }),
+        }
+      })
+      const result = await updateArea(areaId)
+
+      expect(result.checked).toBe(total)
+      expect(result.changed).toBe(1)
+      expect(result.unchanged).toBe(total - 1)
+      expect(result.failed).toBe(0)
+      expect(result.bytesSaved).toBe((total - 1) * 'tile data'.length)
+      const area = await getAreaById(areaId)
+      expect(area?.updatedAt).toBeDefined()
+      expect(area?.sizeBytes).toBe(total * 'tile data'.length + ('changed tile data'.length - 'tile data'.length))
+    })
+
+    it('should only revalidate the stored tiles of a partial area', async () => {
+      const { downloadArea, cancelDownload, updateArea, downloadProgress } = useOfflineTiles()
+      const { getAreaById } = useDownloadedAreas()
+
+      let calls = 0
+      global.fetch = vi.fn().mockImplementation(async () => {
+        if (++calls === 10) cancelDownload({ keepPartial: true })
+        return { ok: true, status: 200, headers: new Headers({ ETag: '"v1"' }), blob: async () => new Blob(['tile data']) }
+      })
+      await downloadArea(bbox, 'Partial Area', 8, 2)
+      const areaId = downloadProgress.value.areaId
+      const partial = await getAreaById(areaId)
+
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 304 })
+      const result = await updateArea(areaId)
+
+      expect(global.fetch).toHaveBeenCalledTimes(partial!.tileCount)
+      expect(result.unchanged).toBe(partial!.tileCount)
+      expect(downloadProgress.value.total).toBe(partial!.tileCount)
+      expect(downloadProgress.value.isComplete).toBe(true)
+    })
+
+    it('should throw when updating an unknown area', async () => {
+      const { updateArea } = useOfflineTiles()
+
+      await expect(updateArea('missing')).rejects.toThrow('Area not found')
+    })
+
+    describe('packed areas', () => {
+      /**
+       * fake-indexeddb does not keep jsdom Blobs: hand the written ones to packAreaTiles()
+       */
+      async function keepTileBlobs() {
+        const store = await getTileStore()
+        const blobs = new Map<string, Blob>()
+        const putManyWithMetadata = store.putManyWithMetadata!.bind(store)
+        const getMany = store.getMany.bind(store)
+        vi.spyOn(store, 'putManyWithMetadata').mockImplementation(async (entries, metadata) => {
+          for (const { key, record } of entries) blobs.set(key, record.data as Blob)
+          await putManyWithMetadata(entries, metadata)
+        })
+        vi.spyOn(store, 'getMany').mockImplementation(async (keys) =>
+          (await getMany(keys)).map((record, index) => record && { ...record, data: blobs.get(keys[index]!)! })
+        )
+      }
+
+      beforeEach(async () => {
+        archiveSupport.opfs = true
+        vi.stubGlobal('Worker', MemoryArchiveWorker)
+        await setTileArchiveEnabled(true)
+        await keepTileBlobs()
+      })
+
+      // The archived tile keys are kept once listed, so archives are deleted through the service
+      afterEach(async () => {
+        for (const areaId of [...MemoryArchiveWorker.archives.keys()]) await deleteTileArchive(areaId)
+        archiveSupport.opfs = false
+        vi.unstubAllGlobals()
+        vi.restoreAllMocks()
+      })
+
+      it('should revalidate tiles from their archive and pack changed tiles again', async () => {
+        const { downloadArea, updateArea, downloadProgress } = useOfflineTiles()
+        global.fetch = vi.fn().mockResolvedValue({
+          ok: true,
+          status: 200,
+          headers: new Headers({ ETag: '"v1"' }),
+          blob: async () => new Blob(['tile data'], { type: 'image/png' }),
+        })
+        await downloadArea(bbox, 'Packed Area', 8, 0)
+        const areaId = downloadProgress.value.areaId
+        const total = downloadProgress.value.total
+        expect(await (await getTileStore()).list()).toEqual([])
+
+        let calls = 0
+        global.fetch = vi.fn().mockImplementation(async () => {
+          if (++calls > 1) return { ok: false, status: 304 }
+          return {
+            ok: true,
+            status: 200,
+            headers: new Headers({ ETag: '"v2"' }),
+            blob: async () => new Blob(['changed tile data'], { type: 'image/png' }),
+          }
+        })
+        const result = await updateArea(areaId)
+
+        expect(result.changed).toBe(1)
+        expect(result.unchanged).toBe(total - 1)
+        const requests = (global.fetch as ReturnType<typeof vi.fn>).mock.calls
+        expect(requests.every(([, init]) => init.headers['If-None-Match'] === '"v1"')).toBe(true)
+
+        // The changed tile replaced its archive entry instead of staying beside it
+        expect(await (await getTileStore()).list()).toEqual([])
+        const tiles = calculateDownloadList(bbox, 8, 0)
+        const sizes = await Promise.all(tiles.map(async (tile) => (await getTileFromStorage(tile))?.size))
+        const changed = tiles.filter((_, index) => sizes[index] === 'changed tile data'.length)
+        expect(changed).toHaveLength(1)
+        expect(await readArchivedTileValidators(changed[0]!, 'osm')).toMatchObject({ etag: '"v2"' })
+      })
+
+      it('should only append the changed tiles of an area sharing its tiles with another', async () => {
+        const { downloadArea, updateArea, downloadProgress } = useOfflineTiles()
+        global.fetch = vi.fn().mockResolvedValue({
+          ok: true,
+          status: 200,
+          headers: new Headers({ ETag: '"v1"' }),
+          blob: async () => new Blob(['tile data'], { type: 'image/png' }),
+        })
+        await setTileArchiveEnabled(false)
+        await downloadArea(bbox, 'Unpacked Area', 8, 0)
+        await setTileArchiveEnabled(true)
+        await downloadArea(bbox, 'Packed Area', 8, 0)
+        const areaId = downloadProgress.value.areaId
+        // Both areas own the tiles, so they stay in the tile store
+        const archivedBytes = MemoryArchiveWorker.archives.get(areaId)!.bytes
+        expect(archivedBytes).toBe(downloadProgress.value.total * 'tile data'.length)
+
+        let calls = 0
+        global.fetch = vi.fn().mockImplementation(async () => {
+          if (++calls > 1) return { ok: false, status: 304 }
+          return {
+            ok: true,
+            status: 200,
+            headers: new Headers({ ETag: '"v2"' }),
+            blob: async () => new Blob(['changed tile data'], { type: 'image/png' }),
+          }
+        })
+        await updateArea(areaId)
+
+        expect(MemoryArchiveWorker.archives.get(areaId)!.bytes).toBe(archivedBytes + 'changed tile data'.length)
+      })
+
+      it('should compact the archive once replaced tiles outweigh the live ones', async () => {
+        const { downloadArea, updateArea, downloadProgress } = useOfflineTiles()
+        global.fetch = vi.fn().mockResolvedValue({
+          ok: true,
+          status: 200,
+          headers: new Headers({ ETag: '"v1"' }),
+          blob: async () => new Blob(['tile data'], { type: 'image/png' }),
+        })
+        await downloadArea(bbox, 'Packed Area', 8, 0)
+        const areaId = downloadProgress.value.areaId
+        const total = downloadProgress.value.total
+
+        global.fetch = vi.fn().mockResolvedValue({
+          ok: true,
+          status: 200,
+          headers: new Headers({ ETag: '"v2"' }),
+          blob: async () => new Blob(['changed tile data'], { type: 'image/png' }),
+        })
+        await updateArea(areaId)
+        expect(MemoryArchiveWorker.archives.get(areaId)!.bytes).toBe(total * 'tile datachanged tile data'.length)
+
+        await updateArea(areaId)
+        expect(MemoryArchiveWorker.archives.get(areaId)!.bytes).toBe(total * 'changed tile data'.length)
+        const tiles = calculateDownloadList(bbox, 8, 0)
+        const sizes = await Promise.all(tiles.map(async (tile) => (await getTileFromStorage(tile))?.size))
+        expect(sizes.every((size) => size === 'changed tile data'.length)).toBe(true)
+      })
+    })
   })
 
   describe('calculateDownloadEstimate', () => {
@@ -174,6 +935,146 @@ describe('useOfflineTiles', () => {
 
       expect(estimate2.tileCount).toBeGreaterThan(estimate1.tileCount)
     })
+
+    it('should count tiles already offline separately and size only new tiles', () => {
+      const { calculateDownloadEstimate } = useOfflineTiles()
+      const bbox = createMockBoundingBox()
+      const tiles = calculateDownloadList(bbox, 8, 1)
+      const existingTileKeys = new Set(tiles.slice(0, 2).map((tile) => getTileKey(tile)))
+
+      const estimate = calculateDownloadEstimate(bbox, 8, 1, { existingTileKeys })
+
+      expect(estimate.tileCount).toBe(tiles.length)
+      expect(estimate.existingTileCount).toBe(2)
+      expect(estimate.newTileCount).toBe(tiles.length - 2)
+      expect(estimate.estimatedSizeBytes).toBe((tiles.length - 2) * 20 * 1024)
+    })
+
+    it('should break tile counts and size down by zoom level', () => {
+      const { calculateDownloadEstimate } = useOfflineTiles()
+      const bbox = createMockBoundingBox()
+      const tiles = calculateDownloadList(bbox, 8, 2)
+      const existingTileKeys = new Set([getTileKey(tiles[0]!)])
+
+      const estimate = calculateDownloadEstimate(bbox, 8, 2, { existingTileKeys })
+
+      expect(estimate.zoomLevels.map((level) => level.zoom)).toEqual([8, 9, 10])
+      expect(estimate.zoomLevels[0]!.newTileCount).toBe(estimate.zoomLevels[0]!.tileCount - 1)
+      expect(estimate.zoomLevels.reduce((sum, level) => sum + level.tileCount, 0)).toBe(estimate.tileCount)
+      expect(estimate.zoomLevels.reduce((sum, level) => sum + level.estimatedSizeBytes, 0)).toBe(
+        estimate.estimatedSizeBytes
+      )
+      // The deepest zoom level has the most tiles
+      expect(estimate.zoomLevels[2]!.estimatedSizeBytes).toBeGreaterThan(estimate.zoomLevels[1]!.estimatedSizeBytes)
+    })
+
+    it('should size tiles with the learned statistics of the source and profile', () => {
+      const { calculateDownloadEstimate } = useOfflineTiles()
+      const bbox = createMockBoundingBox()
+      const sizeStats = { 'osm/8/balanced': { count: 50, mean: 8000, m2: 49 * 1000 * 1000 } }
+
+      const estimate = calculateDownloadEstimate(bbox, 8, 0, { sizeStats, profile: 'balanced' })
+
+      expect(estimate.estimatedSizeBytes).toBe(estimate.tileCount * 8000)
+      expect(estimate.sizeEstimate.sampledTiles).toBe(50)
+      expect(estimate.sizeEstimate.lowBytes).toBeLessThan(estimate.estimatedSizeBytes)
+      expect(estimate.sizeEstimate.highBytes).toBeGreaterThan(estimate.estimatedSizeBytes)
+    })
+
+    it('should estimate huge areas at high zoom levels instantly', () => {
+      const { calculateDownloadEstimate } = useOfflineTiles()
+      // Germany at zoom 17-18: tens of millions of tiles
+      const bbox: BoundingBox = { west: 5.9, south: 47.3, east: 15.0, north: 55.1 }
+      const existingTileKeys = new Set(['tile_17_68000_43000', 'tile_17_0_0'])
+
+      const startedAt = performance.now()
+      const estimate = calculateDownloadEstimate(bbox, 17, 1, { existingTileKeys })
+
+      expect(performance.now() - startedAt).toBeLessThan(100)
+      expect(estimate.tileCount).toBeGreaterThan(50_000_000)
+      expect(estimate.existingTileCount).toBe(1)
+      expect(estimate.estimatedSizeBytes).toBe(estimate.newTileCount * 20 * 1024)
+    })
+  })
+
+  describe('calculateSampledDownloadEstimate', () => {
+    const bbox: BoundingBox = { west: 9.0, south: 48.5, east: 10.0, north: 49.5 }
+
+    it('should extrapolate the size of sample tiles to the whole download', async () => {
+      const { calculateSampledDownloadEstimate } = useOfflineTiles()
+
+      const estimate = await calculateSampledDownloadEstimate(bbox, 8, 2, { sampleSize: 6 })
+
+      expect(estimate.sampled?.sampledTiles).toBeGreaterThanOrEqual(6)
+      expect(global.fetch).toHaveBeenCalledTimes(estimate.sampled!.sampledTiles)
+      // Every tile is 9 bytes ('tile data')
+      expect(estimate.estimatedSizeBytes).toBe(estimate.newTileCount * 9)
+      expect(estimate.sizeEstimate).toBe(estimate.sampled)
+    })
+
+    it('should keep sample tiles so the download skips them', async () => {
+      const { calculateSampledDownloadEstimate, downloadArea, getExistingTileKeys, downloadProgress } = useOfflineTiles()
+
+      const estimate = await calculateSampledDownloadEstimate(bbox, 8, 2, { sampleSize: 6 })
+      const sampledTiles = estimate.sampled!.sampledTiles
+      expect((await getExistingTileKeys()).size).toBe(sampledTiles)
+
+      vi.mocked(global.fetch).mockClear()
+      await downloadArea(bbox, 'Sampled Area', 8, 2)
+
+      expect(global.fetch).toHaveBeenCalledTimes(estimate.newTileCount - sampledTiles)
+      expect(downloadProgress.value.alreadyOffline).toBe(sampledTiles)
+    })
+
+    it('should count sample tiles toward the browse cache until an area owns them', async () => {
+      const { calculateSampledDownloadEstimate, downloadArea } = useOfflineTiles()
+
+      const estimate = await calculateSampledDownloadEstimate(bbox, 8, 2, { sampleSize: 6 })
+
+      expect(await getBrowseCacheStats()).toMatchObject({
+        tileCount: estimate.sampled!.sampledTiles,
+        bytes: estimate.sampled!.sampledTiles * 9,
+      })
+
+      await downloadArea(bbox, 'Sampled Area', 8, 2)
+
+      expect(await getAllKeys('browseCache')).toEqual([])
+    })
+  })
+
+  describe('overlapping areas', () => {
+    it('should not download tiles that are already stored', async () => {
+      const { downloadArea, downloadProgress } = useOfflineTiles()
+      const { getAreaById } = useDownloadedAreas()
+      const bbox = createMockBoundingBox()
+
+      await downloadArea(bbox, 'First Area', 8, 1)
+      vi.mocked(global.fetch).mockClear()
+
+      await downloadArea(bbox, 'Second Area', 8, 1)
+
+      expect(global.fetch).not.toHaveBeenCalled()
+      expect(downloadProgress.value.isComplete).toBe(true)
+      expect(downloadProgress.value.alreadyOffline).toBe(downloadProgress.value.total)
+      expect(downloadProgress.value.downloaded).toBe(downloadProgress.value.total)
+
+      const area = await getAreaById(downloadProgress.value.areaId)
+      expect(area?.tileCount).toBe(downloadProgress.value.total)
+    })
+
+    it('should only download tiles missing from storage', async () => {
+      const { downloadArea, downloadProgress } = useOfflineTiles()
+      const bbox = createMockBoundingBox()
+
+      await downloadArea(bbox, 'Base Zoom Only', 8, 0)
+      const baseZoomTiles = downloadProgress.value.total
+      vi.mocked(global.fetch).mockClear()
+
+      await downloadArea(bbox, 'With Extra Zoom', 8, 1)
+
+      expect(global.fetch).toHaveBeenCalledTimes(downloadProgress.value.total - baseZoomTiles)
+      expect(downloadProgress.value.alreadyOffline).toBe(baseZoomTiles)
+    })
   })
 
   describe('getCurrentMapExtent', () => {
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearDatabase, putRecord } from '@/services/db'
+import {
+  cacheBrowsedTile,
+  evictBrowseCache,
+  getBrowseCacheStats,
+  recordBrowseCacheHit,
+  recordBrowseCacheMiss,
+  setBrowseCacheSettings,
+  startBrowseCacheSession,
+} from '@/services/browseCache'
+import { createDownloadJob, saveDownloadJob } from '@/services/downloadJobs'
+import { calculateDownloadList } from '@/services/tileCalculator'
+import { getTileFromStorage, getTileKey, saveTileToStorage } from '@/services/tileDownloader'
+import { addTileOwner } from '@/services/tileOwnership'
+import type { TileCoord } from '@/types'
+import { createMockBoundingBox, createMockTileBlob, createMockTiles } from '../../helpers/mockTiles'
+
+const TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png'
+
+/**
+ * Store a browsed tile of 100 bytes, last used at `lastAccess`
+ */
+async function addBrowsedTile(tile: TileCoord, lastAccess: string): Promise<void> {
+  await saveTileToStorage(tile, createMockTileBlob())
+  await putRecord('browseCache', { tileKey: getTileKey(tile), bytes: 100, lastAccess })
+}
+
+describe('browseCache', () => {
+  const tiles = createMockTiles(3)
+
+  beforeEach(async () => {
+    await clearDatabase()
+  })
+
+  describe('cacheBrowsedTile', () => {
+    it('should store browsed tiles and count them toward the budget', async () => {
+      await cacheBrowsedTile(tiles[0]!, createMockTileBlob(), 'osm')
+
+      expect(await getTileFromStorage(tiles[0]!)).not.toBeNull()
+      const stats = await getBrowseCacheStats()
+      expect(stats.tileCount).toBe(1)
+      expect(stats.bytes).toBe(createMockTileBlob().size)
+    })
+
+    it('should count the first tile cached after an eviction once', async () => {
+      const tileBytes = createMockTileBlob().size
+      await addBrowsedTile(tiles[0]!, '2026-01-01T00:00:00.000Z')
+      await addBrowsedTile(tiles[1]!, '2026-01-02T00:00:00.000Z')
+      // Evicts nothing, but the total is counted anew on the next tile
+      await setBrowseCacheSettings({ mode: 'persistent', maxBytes: 200 + tileBytes })
+
+      await cacheBrowsedTile(tiles[2]!, createMockTileBlob(), 'osm')
+
+      // An eviction the tile started would be joined here and evict nothing
+      expect(await evictBrowseCache(0)).toBe(3)
+    })
+
+    it('should not count a tile cached again twice', async () => {
+      const tileBytes = createMockTileBlob().size
+      await setBrowseCacheSettings({ mode: 'persistent', maxBytes: 2 * tileBytes })
+      await cacheBrowsedTile(tiles[0]!, createMockTileBlob(), 'osm')
+      await cacheBrowsedTile(tiles[1]!, createMockTileBlob(), 'osm')
+
+      await cacheBrowsedTile(tiles[1]!, createMockTileBlob(), 'osm')
+
+      expect(await evictBrowseCache(0)).toBe(2)
+    })
+
+    it('should not store tiles while the browse cache is off', async () => {
+      await setBrowseCacheSettings({ mode: 'off', maxBytes: 1000 })
+
+      await cacheBrowsedTile(tiles[0]!, createMockTileBlob(), 'osm')
+
+      expect(await getTileFromStorage(tiles[0]!)).toBeNull()
+    })
+  })
+
+  describe('evictBrowseCache', () => {
+    it('should evict the least recently used tiles beyond the budget', async () => {
+      await addBrowsedTile(tiles[0]!, '2026-01-01T00:00:00.000Z')
+      await addBrowsedTile(tiles[1]!, '2026-01-03T00:00:00.000Z')
+      await addBrowsedTile(tiles[2]!, '2026-01-02T00:00:00.000Z')
+
+      expect(await evictBrowseCache(250)).toBe(1)
+
+      expect(await getTileFromStorage(tiles[0]!)).toBeNull()
+      expect(await getTileFromStorage(tiles[1]!)).not.toBeNull()
+      expect(await getTileFromStorage(tiles[2]!)).not.toBeNull()
+      expect(await getBrowseCacheStats()).toMatchObject({ evictions: 1, tileCount: 2, bytes: 200 })
+    })
+
+    it('should keep tiles owned by an area and stop counting them', async () => {
+      await addBrowsedTile(tiles[0]!, '2026-01-01T00:00:00.000Z')
+      await addBrowsedTile(tiles[1]!, '2026-01-02T00:00:00.000Z')
+      await addTileOwner('area-1', [getTileKey(tiles[0]!)])
+
+      expect(await evictBrowseCache(0)).toBe(1)
+
+      expect(await getTileFromStorage(tiles[0]!)).not.toBeNull()
+      expect(await getTileFromStorage(tiles[1]!)).toBeNull()
+      expect((await getBrowseCacheStats()).tileCount).toBe(0)
+    })
+
+    it('should keep tiles an unfinished download covers', async () => {
+      const bbox = createMockBoundingBox()
+      const [downloading] = calculateDownloadList(bbox, 8, 0)
+      await saveDownloadJob(createDownloadJob(bbox, 'Test Area', 8, 0, TILE_URL))
+      await addBrowsedTile(downloading!, '2026-01-01T00:00:00.000Z')
+
+      expect(await evictBrowseCache(0)).toBe(0)
+      expect(await getTileFromStorage(downloading!)).not.toBeNull()
+    })
+
+    it('should evict tiles beyond a lower budget when the settings change', async () => {
+      await addBrowsedTile(tiles[0]!, '2026-01-01T00:00:00.000Z')
+      await addBrowsedTile(tiles[1]!, '2026-01-02T00:00:00.000Z')
+
+      await setBrowseCacheSettings({ mode: 'persistent', maxBytes: 100 })
+
+      expect(await getTileFromStorage(tiles[0]!)).toBeNull()
+      expect(await getTileFromStorage(tiles[1]!)).not.toBeNull()
+    })
+  })
+
+  describe('startBrowseCacheSession', () => {
+    it('should delete tiles of earlier sessions with the session-only policy', async () => {
+      await setBrowseCacheSettings({ mode: 'session', maxBytes: 1000 })
+      await addBrowsedTile(tiles[0]!, '2026-01-01T00:00:00.000Z')
+      await cacheBrowsedTile(tiles[1]!, createMockTileBlob(), 'osm')
+
+      await startBrowseCacheSession()
+
+      expect(await getTileFromStorage(tiles[0]!)).toBeNull()
+      expect(await getTileFromStorage(tiles[1]!)).not.toBeNull()
+    })
+  })
+
+  describe('getBrowseCacheStats', () => {
+    it('should count hits on browsed tiles and misses', async () => {
+      await addBrowsedTile(tiles[0]!, '2026-01-01T00:00:00.000Z')
+      await saveTileToStorage(tiles[1]!, createMockTileBlob())
+      await addTileOwner('area-1', [getTileKey(tiles[1]!)])
+
+      recordBrowseCacheHit(tiles[0]!, 'osm')
+      recordBrowseCacheHit(tiles[0]!, 'osm')
+      recordBrowseCacheHit(tiles[1]!, 'osm') // tile of an area
+      recordBrowseCacheMiss()
+
+      expect(await getBrowseCacheStats()).toMatchObject({ hits: 2, misses: 1, evictions: 0 })
+    })
+
+    it('should track tiles cached before the browse cache existed', async () => {
+      await saveTileToStorage(tiles[0]!, createMockTileBlob())
+
+      expect((await getBrowseCacheStats()).tileCount).toBe(1)
+    })
+  })
+})
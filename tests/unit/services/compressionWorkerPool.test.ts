@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { clearDatabase } from '@/services/db'
+import {
+  createCompressionWorkerPool,
+  getCompressionWorkerPool,
+  getDefaultWorkerPoolSize,
+  isWorkerCompressionSupported,
+  type CompressionWorkerRequest,
+  type CompressionWorkerResponse,
+} from '@/services/compressionWorkerPool'
+import { setWorkerPoolSize } from '@/services/compressionSettings'
+
+/**
+ * Stand-in for a compression worker; tests answer its requests by hand
+ */
+class FakeWorker {
+  onmessage: ((event: MessageEvent<CompressionWorkerResponse>) => void) | null = null
+  onerror: ((event: ErrorEvent) => void) | null = null
+  requests: CompressionWorkerRequest[] = []
+  terminated = false
+
+  postMessage(request: CompressionWorkerRequest) {
+    this.requests.push(request)
+  }
+
+  terminate() {
+    this.terminated = true
+  }
+
+  respond(response: Partial<CompressionWorkerResponse> = {}) {
+    const request = this.requests.shift()!
+    const data = { id: request.id, blob: new Blob([`compressed ${request.id}`]), ...response }
+    this.onmessage?.(new MessageEvent('message', { data }))
+  }
+
+  crash() {
+    this.onerror?.(new ErrorEvent('error', { message: 'out of memory', cancelable: true }))
+  }
+}
+
+function createFakePool(size: number) {
+  const workers: FakeWorker[] = []
+  const pool = createCompressionWorkerPool(size, () => {
+    const worker = new FakeWorker()
+    workers.push(worker)
+    return worker as unknown as Worker
+  })
+  return { pool, workers }
+}
+
+const tile = new Blob(['tile'], { type: 'image/png' })
+
+describe('compressionWorkerPool', () => {
+  describe('createCompressionWorkerPool', () => {
+    it('should start workers on demand and queue tiles beyond the pool size', async () => {
+      const { pool, workers } = createFakePool(2)
+
+      const results = [pool.compress(tile, 'webp', 0.8), pool.compress(tile, 'webp', 0.8), pool.compress(tile, 'jpeg', 0.7)]
+
+      expect(workers).toHaveLength(2)
+      expect(workers[0]!.requests).toHaveLength(1)
+      expect(workers[1]!.requests).toHaveLength(1)
+
+      // The queued tile goes to the first worker that becomes idle
+      workers[1]!.respond()
+      expect(workers[1]!.requests[0]).toMatchObject({ format: 'jpeg', quality: 0.7 })
+      workers[0]!.respond()
+      workers[1]!.respond()
+
+      const blobs = await Promise.all(results)
+      expect(blobs.every((blob) => blob instanceof Blob)).toBe(true)
+    })
+
+    it('should reject tiles the worker fails to compress', async () => {
+      const { pool, workers } = createFakePool(1)
+
+      const result = pool.compress(tile, 'webp', 0.8)
+      workers[0]!.respond({ error: 'Failed to decode image' } as Partial<CompressionWorkerResponse>)
+
+      await expect(result).rejects.toThrow('Failed to decode image')
+    })
+
+    it('should replace a crashed worker and continue with the queue', async () => {
+      const { pool, workers } = createFakePool(1)
+
+      const first = pool.compress(tile, 'webp', 0.8)
+      const second = pool.compress(tile, 'webp', 0.8)
+      workers[0]!.crash()
+
+      await expect(first).rejects.toThrow('Compression worker failed: out of memory')
+      expect(workers[0]!.terminated).toBe(true)
+      expect(workers).toHaveLength(2)
+
+      workers[1]!.respond()
+      await expect(second).resolves.toBeInstanceOf(Blob)
+    })
+
+    it('should finish queued tiles before closing', async () => {
+      const { pool, workers } = createFakePool(1)
+
+      const queued = [pool.compress(tile, 'webp', 0.8), pool.compress(tile, 'webp', 0.8)]
+      pool.close()
+
+      await expect(pool.compress(tile, 'webp', 0.8)).rejects.toThrow('closed')
+      workers[0]!.respond()
+      expect(workers[0]!.terminated).toBe(false)
+      workers[0]!.respond()
+
+      await Promise.all(queued)
+      expect(workers[0]!.terminated).toBe(true)
+    })
+
+    it('should reject pending tiles when terminated', async () => {
+      const { pool, workers } = createFakePool(1)
+
+      const results = [pool.compress(tile, 'webp', 0.8), pool.compress(tile, 'webp', 0.8)]
+      pool.terminate()
+
+      for (const result of results) {
+        await expect(result).rejects.toThrow('terminated')
+      }
+      expect(workers[0]!.terminated).toBe(true)
+    })
+  })
+
+  describe('shared pool', () => {
+    beforeEach(async () => {
+      await clearDatabase()
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should leave a core for the main thread', () => {
+      vi.stubGlobal('navigator', { hardwareConcurrency: 8 })
+      expect(getDefaultWorkerPoolSize()).toBe(4)
+
+      vi.stubGlobal('navigator', { hardwareConcurrency: 1 })
+      expect(getDefaultWorkerPoolSize()).toBe(1)
+    })
+
+    it('should be sized by the compression settings', async () => {
+      await setWorkerPoolSize(3)
+      const pool = await getCompressionWorkerPool()
+      expect(pool.size).toBe(3)
+      expect(await getCompressionWorkerPool()).toBe(pool)
+
+      await setWorkerPoolSize(1)
+      expect((await getCompressionWorkerPool()).size).toBe(1)
+    })
+
+    it('should require OffscreenCanvas for worker compression', () => {
+      // jsdom has neither workers nor OffscreenCanvas: tiles are compressed on the main thread
+      expect(isWorkerCompressionSupported()).toBe(false)
+
+      vi.stubGlobal('Worker', FakeWorker)
+      vi.stubGlobal('OffscreenCanvas', class {})
+      vi.stubGlobal('createImageBitmap', async () => ({}))
+      expect(isWorkerCompressionSupported()).toBe(true)
+    })
+  })
+})
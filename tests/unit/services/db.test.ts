@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DB_NAME,
+  getAllKeys,
+  getRecord,
+  getSetting,
+  openDatabase,
+  STORE_NAMES,
+  transactionDone,
+  updateSetting,
+} from '@/services/db'
+import { getAllDownloadJobs, getJobTileKeys } from '@/services/downloadJobs'
+import { getCompressionSettings } from '@/services/compressionSettings'
+import { getTileMetadata } from '@/services/tileMetadata'
+import { getOwnedTileKeys } from '@/services/tileOwnership'
+import { getAllStoredTileKeys, getTileFromStorage } from '@/services/tileDownloader'
+import { useDownloadedAreas } from '@/composables/useDownloadedAreas'
+import { createMockDownloadedArea } from '../../helpers/mockTiles'
+
+/**
+ * Write entries the way idb-keyval stored them before the schema existed
+ */
+async function writeLegacyEntries(entries: Record<string, unknown>): Promise<void> {
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open('keyval-store')
+    request.onupgradeneeded = () => request.result.createObjectStore('keyval')
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+  const transaction = db.transaction('keyval', 'readwrite')
+  for (const [key, value] of Object.entries(entries)) {
+    transaction.objectStore('keyval').put(value, key)
+  }
+  await transactionDone(transaction)
+  db.close()
+}
+
+describe('db', () => {
+  it('should create an object store per kind of record', async () => {
+    const db = await openDatabase()
+
+    expect(db.name).toBe(DB_NAME)
+    expect([...db.objectStoreNames].sort()).toEqual([...STORE_NAMES].sort())
+  })
+
+  it('should drop the unused tile index of databases created before version 4', async () => {
+    const previous = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 3)
+      request.onupgradeneeded = () => {
+        for (const storeName of STORE_NAMES) {
+          const store = request.result.createObjectStore(storeName)
+          if (storeName === 'tiles') store.createIndex('bySourceZoom', ['sourceId', 'z'])
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    previous.close()
+
+    const db = await openDatabase()
+
+    expect(db.version).toBe(4)
+    expect([...db.transaction('tiles').objectStore('tiles').indexNames]).toEqual([])
+  })
+
+  it('should update settings in one transaction', async () => {
+    await updateSetting<number>('counter', (current) => (current ?? 0) + 1)
+    await updateSetting<number>('counter', (current) => (current ?? 0) + 1)
+
+    expect(await getSetting('counter')).toBe(2)
+  })
+
+  it('should move data of the legacy key layout into the object stores', async () => {
+    const area = createMockDownloadedArea({ id: 'legacy' })
+    await writeLegacyEntries({
+      tile_8_100_50: { data: { type: 'image/png', size: 9 }, storedAt: '2026-01-01T00:00:00Z' },
+      tile_cyclosm_8_100_50: { data: { type: 'image/png', size: 9 }, storedAt: '2026-01-01T00:00:00Z' },
+      tile_meta_8_100_50: { tileKey: 'tile_8_100_50', format: 'webp', profile: 'balanced', originalSize: 9 },
+      owners_tile_8_100_50: ['legacy'],
+      area_legacy: area,
+      job_pending: { id: 'pending', createdAt: '2026-01-01T00:00:00Z', completedTiles: ['tile_8_100_50'], failedTiles: [] },
+      compression_settings: { defaultProfile: 'aggressive', cacheProfile: 'high' },
+    })
+
+    expect((await getAllStoredTileKeys()).sort()).toEqual(['tile_8_100_50', 'tile_cyclosm_8_100_50'])
+    expect(await getRecord('tiles', 'tile_cyclosm_8_100_50')).toMatchObject({ sourceId: 'cyclosm', z: 8 })
+    expect(await getTileFromStorage({ z: 8, x: 100, y: 50 })).toBeTruthy()
+    expect(await getTileMetadata({ z: 8, x: 100, y: 50 })).toMatchObject({ format: 'webp' })
+    expect(await getOwnedTileKeys('legacy')).toEqual(['tile_8_100_50'])
+    expect(await useDownloadedAreas().getAreaById('legacy')).toEqual(area)
+    const [job] = await getAllDownloadJobs()
+    expect(job).toMatchObject({ id: 'pending', completedTileCount: 1, failedTileCount: 0 })
+    expect(job).not.toHaveProperty('completedTiles')
+    expect(await getJobTileKeys('pending')).toEqual(['tile_8_100_50'])
+    expect((await getCompressionSettings()).defaultProfile).toBe('aggressive')
+    expect(await getAllKeys('settings')).not.toContain('tile_8_100_50')
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { clearDatabase } from '@/services/db'
+import {
+  checkDownloadConditions,
+  getDownloadConditionSettings,
+  readDeviceConditions,
+  setDownloadConditionSettings,
+  watchDeviceConditions,
+} from '@/services/downloadConditions'
+import type { DownloadConditionSettings } from '@/types'
+
+const settings: DownloadConditionSettings = {
+  wifiOnly: true,
+  chargingOnly: true,
+  respectDataSaver: true,
+  largeDownloadTiles: 100,
+}
+
+function mockNavigatorProperty(name: string, value: unknown) {
+  Object.defineProperty(navigator, name, { configurable: true, writable: true, value })
+}
+
+describe('downloadConditions', () => {
+  beforeEach(async () => {
+    await clearDatabase()
+  })
+
+  afterEach(() => {
+    delete (navigator as unknown as Record<string, unknown>).connection
+    delete (navigator as unknown as Record<string, unknown>).getBattery
+  })
+
+  describe('checkDownloadConditions', () => {
+    it('should let large downloads run on Wi-Fi while charging', () => {
+      const check = checkDownloadConditions(500, { connectionType: 'wifi', saveData: false, charging: true }, settings)
+
+      expect(check).toEqual({ waitingReason: null, unavailable: [] })
+    })
+
+    it('should make large downloads wait on metered connections, data saver and battery', () => {
+      const check = checkDownloadConditions(
+        500,
+        { connectionType: 'cellular', saveData: true, charging: false },
+        settings
+      )
+
+      expect(check.waitingReason).toBe('Waiting for Wi-Fi (currently on cellular), data saver to be turned off, charging')
+    })
+
+    it('should never hold small downloads', () => {
+      const check = checkDownloadConditions(99, { connectionType: 'cellular', charging: false }, settings)
+
+      expect(check.waitingReason).toBeNull()
+    })
+
+    it('should not enforce conditions the browser cannot report', () => {
+      const check = checkDownloadConditions(500, {}, settings)
+
+      expect(check.waitingReason).toBeNull()
+      expect(check.unavailable).toHaveLength(3)
+    })
+
+    it('should wait on a slow connection when the connection type is unknown', () => {
+      const check = checkDownloadConditions(500, { effectiveType: '2g', saveData: false, charging: true }, settings)
+
+      expect(check.waitingReason).toBe('Waiting for a faster connection (currently 2g)')
+    })
+
+    it('should ignore disabled conditions', () => {
+      const check = checkDownloadConditions(
+        500,
+        { connectionType: 'cellular', saveData: true, charging: false },
+        { ...settings, wifiOnly: false, chargingOnly: false, respectDataSaver: false }
+      )
+
+      expect(check.waitingReason).toBeNull()
+    })
+  })
+
+  describe('readDeviceConditions', () => {
+    it('should read the Network Information and Battery Status APIs', async () => {
+      mockNavigatorProperty('connection', Object.assign(new EventTarget(), { type: 'wifi', effectiveType: '4g', saveData: false }))
+      mockNavigatorProperty('getBattery', async () => Object.assign(new EventTarget(), { charging: true, level: 0.5 }))
+
+      expect(await readDeviceConditions()).toEqual({
+        connectionType: 'wifi',
+        effectiveType: '4g',
+        saveData: false,
+        charging: true,
+        batteryLevel: 0.5,
+      })
+    })
+
+    it('should leave conditions undefined when the APIs are missing or blocked', async () => {
+      mockNavigatorProperty('getBattery', async () => {
+        throw new DOMException('Blocked', 'NotAllowedError')
+      })
+
+      expect(await readDeviceConditions()).toEqual({
+        connectionType: undefined,
+        effectiveType: undefined,
+        saveData: undefined,
+        charging: undefined,
+        batteryLevel: undefined,
+      })
+    })
+  })
+
+  describe('watchDeviceConditions', () => {
+    it('should report connection and charging changes until stopped', async () => {
+      const connection = new EventTarget()
+      const battery = Object.assign(new EventTarget(), { charging: false, level: 1 })
+      mockNavigatorProperty('connection', connection)
+      mockNavigatorProperty('getBattery', async () => battery)
+      const onChange = vi.fn()
+
+      const stop = await watchDeviceConditions(onChange)
+      connection.dispatchEvent(new Event('change'))
+      battery.dispatchEvent(new Event('chargingchange'))
+      stop()
+      connection.dispatchEvent(new Event('change'))
+
+      expect(onChange).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('settings', () => {
+    it('should return defaults and persist changes', async () => {
+      const defaults = await getDownloadConditionSettings()
+      expect(defaults.wifiOnly).toBe(true)
+
+      await setDownloadConditionSettings({ ...defaults, chargingOnly: true })
+
+      expect((await getDownloadConditionSettings()).chargingOnly).toBe(true)
+    })
+  })
+})
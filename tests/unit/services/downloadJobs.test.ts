@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearDatabase } from '@/services/db'
+import {
+  countJobTiles,
+  createDownloadJob,
+  saveDownloadJob,
+  getDownloadJob,
+  getAllDownloadJobs,
+  deleteDownloadJob,
+  getJobTileKeys,
+  iterateJobTiles,
+  iterateRemainingJobTiles,
+  saveJobProgress,
+} from '@/services/downloadJobs'
+import { getTileKey } from '@/services/tileDownloader'
+import { createMockBoundingBox } from '../../helpers/mockTiles'
+
+const TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png'
+
+describe('downloadJobs', () => {
+  beforeEach(async () => {
+    await clearDatabase()
+  })
+
+  describe('createDownloadJob', () => {
+    it('should create a job with empty progress', () => {
+      const job = createDownloadJob(createMockBoundingBox(), 'Test Area', 8, 1, TILE_URL)
+
+      expect(job.id).toBeTruthy()
+      expect(job.name).toBe('Test Area')
+      expect(job.completedTileCount).toBe(0)
+      expect(job.failedTileCount).toBe(0)
+      expect(job.bytesDownloaded).toBe(0)
+    })
+  })
+
+  describe('saveDownloadJob / getDownloadJob', () => {
+    it('should persist and retrieve a job', async () => {
+      const job = createDownloadJob(createMockBoundingBox(), 'Test Area', 8, 1, TILE_URL)
+      job.completedTileCount = 1
+
+      await saveDownloadJob(job)
+
+      const retrieved = await getDownloadJob(job.id)
+      expect(retrieved?.name).toBe('Test Area')
+      expect(retrieved?.completedTileCount).toBe(1)
+    })
+
+    it('should return null for unknown job', async () => {
+      expect(await getDownloadJob('missing')).toBeNull()
+    })
+  })
+
+  describe('saveJobProgress', () => {
+    it('should append the keys of newly stored tiles to the job', async () => {
+      const job = createDownloadJob(createMockBoundingBox(), 'Test Area', 8, 1, TILE_URL)
+
+      await saveJobProgress({ ...job, completedTileCount: 1 }, ['tile_8_134_88'])
+      await saveJobProgress({ ...job, completedTileCount: 3 }, ['tile_8_135_88', 'tile_9_268_176'])
+
+      expect(await getJobTileKeys(job.id)).toEqual(['tile_8_134_88', 'tile_8_135_88', 'tile_9_268_176'])
+      expect((await getDownloadJob(job.id))?.completedTileCount).toBe(3)
+    })
+  })
+
+  describe('getAllDownloadJobs', () => {
+    it('should return all jobs, oldest first', async () => {
+      const job1 = createDownloadJob(createMockBoundingBox(), 'First', 8, 0, TILE_URL)
+      const job2 = createDownloadJob(createMockBoundingBox(), 'Second', 8, 0, TILE_URL)
+      job1.createdAt = '2025-01-01T00:00:00.000Z'
+      job2.createdAt = '2025-01-02T00:00:00.000Z'
+
+      await saveDownloadJob(job2)
+      await saveDownloadJob(job1)
+
+      const jobs = await getAllDownloadJobs()
+      expect(jobs.map((job) => job.name)).toEqual(['First', 'Second'])
+    })
+  })
+
+  describe('deleteDownloadJob', () => {
+    it('should remove the job record and the keys of its tiles', async () => {
+      const job = createDownloadJob(createMockBoundingBox(), 'Test Area', 8, 0, TILE_URL)
+      const other = createDownloadJob(createMockBoundingBox(), 'Other Area', 8, 0, TILE_URL)
+      await saveJobProgress(job, ['tile_8_134_88'])
+      await saveJobProgress(other, ['tile_8_135_88'])
+
+      await deleteDownloadJob(job.id)
+
+      expect(await getDownloadJob(job.id)).toBeNull()
+      expect(await getJobTileKeys(job.id)).toEqual([])
+      expect(await getJobTileKeys(other.id)).toEqual(['tile_8_135_88'])
+    })
+  })
+
+  describe('countJobTiles', () => {
+    it('should count the tiles of the job without listing them', () => {
+      const job = createDownloadJob(createMockBoundingBox(), 'Test Area', 8, 1, TILE_URL)
+
+      expect(countJobTiles(job)).toBe([...iterateJobTiles(job)].length)
+    })
+  })
+
+  describe('iterateRemainingJobTiles', () => {
+    it('should exclude completed tiles but keep failed ones', async () => {
+      const job = createDownloadJob(createMockBoundingBox(), 'Test Area', 8, 1, TILE_URL)
+      const allTiles = [...iterateJobTiles(job)]
+      await saveJobProgress({ ...job, completedTileCount: 1, failedTileCount: 1 }, [getTileKey(allTiles[0]!)])
+
+      const remaining = [...(await iterateRemainingJobTiles(job))]
+
+      expect(remaining).toHaveLength(allTiles.length - 1)
+      expect(remaining.map((tile) => getTileKey(tile))).toContain(getTileKey(allTiles[1]!))
+    })
+  })
+})
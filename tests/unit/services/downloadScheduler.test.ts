@@ -0,0 +1,179 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createHostRateLimiter, createSemaphore, runWithConcurrency, sleep } from '@/services/downloadScheduler'
+
+describe('downloadScheduler', () => {
+  describe('runWithConcurrency', () => {
+    it('should process every item', async () => {
+      const processed: number[] = []
+
+      await runWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+        processed.push(item)
+      })
+
+      expect(processed.sort()).toEqual([1, 2, 3, 4, 5])
+    })
+
+    it('should never run more than maxConcurrency workers at once', async () => {
+      let running = 0
+      let maxRunning = 0
+
+      await runWithConcurrency(Array.from({ length: 20 }, (_, i) => i), 3, async () => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await sleep(5)
+        running--
+      })
+
+      expect(maxRunning).toBe(3)
+    })
+
+    it('should pull items lazily from the iterable', async () => {
+      let pulled = 0
+      function* items() {
+        for (let i = 0; i < 10; i++) {
+          pulled++
+          yield i
+        }
+      }
+
+      let pulledWhenFirstStarted = 0
+      await runWithConcurrency(items(), 2, async () => {
+        if (pulledWhenFirstStarted === 0) pulledWhenFirstStarted = pulled
+        await sleep(1)
+      })
+
+      expect(pulledWhenFirstStarted).toBe(1)
+      expect(pulled).toBe(10)
+    })
+
+    it('should stop starting new items once shouldStop returns true', async () => {
+      const processed: number[] = []
+
+      await runWithConcurrency(
+        [1, 2, 3, 4, 5],
+        1,
+        async (item) => {
+          processed.push(item)
+        },
+        () => processed.length >= 2
+      )
+
+      expect(processed).toEqual([1, 2])
+    })
+
+    it('should treat concurrency below 1 as 1', async () => {
+      const processed: number[] = []
+
+      await runWithConcurrency([1, 2], 0, async (item) => {
+        processed.push(item)
+      })
+
+      expect(processed).toEqual([1, 2])
+    })
+  })
+
+  describe('sleep', () => {
+    it('should reject early when the signal is aborted', async () => {
+      const controller = new AbortController()
+      const start = Date.now()
+      setTimeout(() => controller.abort(), 5)
+
+      await expect(sleep(10_000, controller.signal)).rejects.toThrow('Aborted')
+      expect(Date.now() - start).toBeLessThan(1000)
+    })
+
+    it('should reject immediately when the signal is already aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+
+      await expect(sleep(10, controller.signal)).rejects.toThrow('Aborted')
+    })
+  })
+
+  describe('createSemaphore', () => {
+    it('should never run more than permits tasks at once, in order', async () => {
+      const semaphore = createSemaphore(2)
+      const started: number[] = []
+      let running = 0
+      let peak = 0
+
+      await Promise.all(
+        [1, 2, 3, 4, 5].map((item) =>
+          semaphore.run(async () => {
+            started.push(item)
+            running++
+            peak = Math.max(peak, running)
+            await sleep(5)
+            running--
+          })
+        )
+      )
+
+      expect(peak).toBe(2)
+      expect(started).toEqual([1, 2, 3, 4, 5])
+    })
+
+    it('should reject a waiting task when its signal is aborted and pass its turn on', async () => {
+      const semaphore = createSemaphore(1)
+      const controller = new AbortController()
+      const task = vi.fn(async () => {})
+
+      const first = semaphore.run(() => sleep(10))
+      const aborted = semaphore.run(task, controller.signal)
+      const next = semaphore.run(async () => 'next')
+      controller.abort()
+
+      await expect(aborted).rejects.toThrow('Aborted')
+      await first
+      expect(await next).toBe('next')
+      expect(task).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('createHostRateLimiter', () => {
+    it('should allow a burst up to the configured rate immediately', async () => {
+      const limiter = createHostRateLimiter(5)
+      const start = Date.now()
+
+      for (let i = 0; i < 5; i++) {
+        await limiter.acquire('tile.example.com')
+      }
+
+      expect(Date.now() - start).toBeLessThan(50)
+    })
+
+    it('should delay requests beyond the burst', async () => {
+      const limiter = createHostRateLimiter(20, 1)
+      const start = Date.now()
+
+      await limiter.acquire('tile.example.com')
+      await limiter.acquire('tile.example.com')
+      await limiter.acquire('tile.example.com')
+
+      // Two refills at 20 req/s take ~100ms
+      expect(Date.now() - start).toBeGreaterThanOrEqual(80)
+    })
+
+    it('should limit each host independently', async () => {
+      const limiter = createHostRateLimiter(1, 1)
+      const start = Date.now()
+
+      await limiter.acquire('a.tile.example.com')
+      await limiter.acquire('b.tile.example.com')
+      await limiter.acquire('c.tile.example.com')
+
+      expect(Date.now() - start).toBeLessThan(50)
+    })
+
+    it('should not limit when rate is not positive', async () => {
+      const limiter = createHostRateLimiter(0)
+      const start = Date.now()
+
+      for (let i = 0; i < 100; i++) {
+        await limiter.acquire('tile.example.com')
+      }
+
+      expect(Date.now() - start).toBeLessThan(50)
+    })
+  })
+})
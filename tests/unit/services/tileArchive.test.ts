@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { clearDatabase } from '@/services/db'
+import {
+  createTileArchiveClient,
+  isTileArchiveEnabled,
+  isTileArchiveSupported,
+  readArchivedTile,
+  setTileArchiveEnabled,
+  type TileArchiveRequest,
+  type TileArchiveResponse,
+} from '@/services/tileArchive'
+import { getAllStoredTileKeys, getTileFromStorage, getTileKey, saveTileToStorage } from '@/services/tileDownloader'
+import { MemoryArchiveWorker } from '../../helpers/mockArchiveWorker'
+
+const archiveSupport = vi.hoisted(() => ({ opfs: false }))
+
+vi.mock('@/utils/platform', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/platform')>()),
+  supportsOPFS: () => archiveSupport.opfs,
+}))
+
+/**
+ * Stand-in for the archive worker; tests answer its requests by hand
+ */
+class FakeWorker {
+  onmessage: ((event: MessageEvent<TileArchiveResponse>) => void) | null = null
+  onerror: ((event: ErrorEvent) => void) | null = null
+  requests: { request: TileArchiveRequest; transfer: Transferable[] }[] = []
+  terminated = false
+
+  postMessage(request: TileArchiveRequest, transfer: Transferable[]) {
+    this.requests.push({ request, transfer })
+  }
+
+  terminate() {
+    this.terminated = true
+  }
+
+  respond(response: Omit<TileArchiveResponse, 'id'>) {
+    const { request } = this.requests.shift()!
+    this.onmessage?.(new MessageEvent('message', { data: { id: request.id, ...response } }))
+  }
+
+  crash() {
+    this.onerror?.(new ErrorEvent('error', { message: 'out of memory', cancelable: true }))
+  }
+}
+
+/**
+ * Archive worker failing the requests of the given types, like one whose files another tab holds
+ */
+class FailingArchiveWorker extends MemoryArchiveWorker {
+  static failing = new Set<TileArchiveRequest['type']>()
+
+  override postMessage(request: TileArchiveRequest) {
+    if (!FailingArchiveWorker.failing.has(request.type)) {
+      super.postMessage(request)
+      return
+    }
+    queueMicrotask(() => {
+      this.onmessage?.(new MessageEvent('message', { data: { id: request.id, error: 'file is locked' } }))
+    })
+  }
+}
+
+function createFakeClient() {
+  const workers: FakeWorker[] = []
+  const client = createTileArchiveClient(() => {
+    const worker = new FakeWorker()
+    workers.push(worker)
+    return worker as unknown as Worker
+  })
+  return { client, workers }
+}
+
+describe('tileArchive', () => {
+  beforeEach(async () => {
+    await clearDatabase()
+  })
+
+  describe('createTileArchiveClient', () => {
+    it('should start the worker on the first request and match responses by id', async () => {
+      const { client, workers } = createFakeClient()
+      const tile = { z: 14, x: 1, y: 2 }
+
+      const list = client.list()
+      const read = client.read('area-1', tile)
+
+      expect(workers).toHaveLength(1)
+      expect(workers[0]!.requests.map(({ request }) => request.type)).toEqual(['list', 'read'])
+
+      const data = new Uint8Array([1, 2, 3]).buffer
+      workers[0]!.respond({ result: [{ areaId: 'area-1', sourceId: 'osm', tiles: [14, 1, 2] }] })
+      workers[0]!.respond({ result: { ...tile, data, type: 'image/png' } })
+
+      expect(await list).toEqual([{ areaId: 'area-1', sourceId: 'osm', tiles: [14, 1, 2] }])
+      expect(await read).toEqual({ ...tile, data, type: 'image/png' })
+    })
+
+    it('should transfer the tile data of appended tiles', async () => {
+      const { client, workers } = createFakeClient()
+      const data = new Uint8Array([1, 2, 3]).buffer
+
+      const append = client.append('area-1', 'osm', [{ z: 14, x: 1, y: 2, data, type: 'image/png' }])
+
+      expect(workers[0]!.requests[0]!.transfer).toEqual([data])
+      workers[0]!.respond({ result: null })
+      await expect(append).resolves.toBeUndefined()
+    })
+
+    it('should reject requests the worker failed', async () => {
+      const { client, workers } = createFakeClient()
+
+      const read = client.read('area-1', { z: 14, x: 1, y: 2 })
+      workers[0]!.respond({ error: 'NoModificationAllowedError' })
+
+      await expect(read).rejects.toThrow('Tile archive: NoModificationAllowedError')
+    })
+
+    it('should fail pending requests and replace a crashed worker', async () => {
+      const { client, workers } = createFakeClient()
+
+      const list = client.list()
+      workers[0]!.crash()
+
+      await expect(list).rejects.toThrow('Tile archive worker failed: out of memory')
+      expect(workers[0]!.terminated).toBe(true)
+
+      client.list()
+      expect(workers).toHaveLength(2)
+    })
+  })
+
+  describe('without OPFS', () => {
+    it('should not pack areas and find no archived tiles', async () => {
+      await setTileArchiveEnabled(true)
+
+      expect(isTileArchiveSupported()).toBe(false)
+      expect(await isTileArchiveEnabled()).toBe(false)
+      expect(await readArchivedTile({ z: 14, x: 1, y: 2 }, 'osm')).toBeNull()
+      expect(await getTileFromStorage({ z: 14, x: 1, y: 2 })).toBeNull()
+    })
+  })
+
+  describe('when archives cannot be read', () => {
+    const tile = { z: 14, x: 1, y: 2 }
+
+    beforeEach(() => {
+      archiveSupport.opfs = true
+      vi.stubGlobal('Worker', FailingArchiveWorker)
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+      archiveSupport.opfs = false
+      vi.unstubAllGlobals()
+      vi.restoreAllMocks()
+      FailingArchiveWorker.failing.clear()
+      MemoryArchiveWorker.archives.clear()
+    })
+
+    // The listing is kept once loaded, so the failing listing is tested first
+    it('should list the tile store when the archives cannot be listed', async () => {
+      FailingArchiveWorker.failing.add('list')
+      await saveTileToStorage(tile, new Blob(['tile'], { type: 'image/png' }))
+
+      expect(await getAllStoredTileKeys()).toEqual([getTileKey(tile)])
+      expect(console.error).toHaveBeenCalledWith('Failed to list archived tiles:', expect.any(Error))
+    })
+
+    it('should treat a tile it cannot read from its archive as missing', async () => {
+      MemoryArchiveWorker.archives.set('area-1', {
+        sourceId: 'osm',
+        tiles: new Map([['14/1/2', { ...tile, data: new ArrayBuffer(4), type: 'image/png' }]]),
+        bytes: 4,
+      })
+      FailingArchiveWorker.failing.add('read')
+
+      expect(await getAllStoredTileKeys()).toEqual([getTileKey(tile)])
+      expect(await getTileFromStorage(tile)).toBeNull()
+      expect(console.error).toHaveBeenCalledWith('Failed to read archived tile:', expect.any(Error))
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import {
+  INDEX_ENTRY_BYTES,
+  decodeArchiveIndex,
+  decodeTileValidators,
+  encodeArchiveHeader,
+  encodeIndexEntries,
+  encodeTileValidators,
+  getArchiveAreaId,
+  getArchiveFileNames,
+  getCompactionFileNames,
+  type ArchiveIndexEntry,
+} from '@/services/tileArchiveFormat'
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.byteLength, 0))
+  let offset = 0
+  for (const part of parts) {
+    bytes.set(part, offset)
+    offset += part.byteLength
+  }
+  return bytes
+}
+
+const entries: ArchiveIndexEntry[] = [
+  { z: 14, x: 8600, y: 5600, offset: 0, length: 1200, type: 'image/png', validatorsLength: 0 },
+  { z: 18, x: 137_000, y: 89_000, offset: 5_000_000_000, length: 800, type: 'image/webp', validatorsLength: 60 },
+]
+
+describe('tileArchiveFormat', () => {
+  describe('decodeArchiveIndex', () => {
+    it('should read back the header and entries', () => {
+      const index = decodeArchiveIndex(concat(encodeArchiveHeader('cyclosm'), encodeIndexEntries(entries)))
+
+      expect(index.header).toEqual({ version: 1, sourceId: 'cyclosm' })
+      expect(index.entries).toEqual(entries)
+    })
+
+    it('should keep entries appended in several writes in order', () => {
+      const index = decodeArchiveIndex(
+        concat(encodeArchiveHeader('osm'), encodeIndexEntries([entries[0]!]), encodeIndexEntries([entries[1]!]))
+      )
+
+      expect(index.entries).toEqual(entries)
+    })
+
+    it('should ignore a partially written entry', () => {
+      const bytes = concat(encodeArchiveHeader('osm'), encodeIndexEntries(entries))
+
+      const index = decodeArchiveIndex(bytes.subarray(0, bytes.byteLength - INDEX_ENTRY_BYTES / 2))
+
+      expect(index.entries).toEqual([entries[0]])
+    })
+
+    it('should store unknown tile types as binary data', () => {
+      const index = decodeArchiveIndex(
+        concat(encodeArchiveHeader('osm'), encodeIndexEntries([{ ...entries[0]!, type: 'image/avif' }]))
+      )
+
+      expect(index.entries[0]!.type).toBe('application/octet-stream')
+    })
+  })
+
+  describe('encodeTileValidators', () => {
+    it('should read back the validators stored after a tile', () => {
+      const validators = { etag: '"v1"', lastModified: 'Wed, 01 Oct 2025 10:00:00 GMT' }
+
+      expect(decodeTileValidators(encodeTileValidators(validators))).toEqual(validators)
+    })
+
+    it('should store nothing for tiles without validators', () => {
+      const bytes = encodeTileValidators({})
+
+      expect(bytes.byteLength).toBe(0)
+      expect(decodeTileValidators(bytes)).toEqual({})
+    })
+  })
+
+  describe('getArchiveFileNames', () => {
+    it('should name the files after the area and find the area of an index file', () => {
+      const names = getArchiveFileNames('area/1')
+
+      expect(names).toEqual({ tiles: 'area%2F1.tiles', index: 'area%2F1.index' })
+      expect(getArchiveAreaId(names.index)).toBe('area/1')
+      expect(getArchiveAreaId(names.tiles)).toBeNull()
+    })
+
+    it('should not list the compaction files as archives', () => {
+      const names = getCompactionFileNames('area/1')
+
+      expect(Object.values(names).map(getArchiveAreaId)).toEqual([null, null, null])
+      expect(Object.values(names)).not.toContain(getArchiveFileNames('area/1').index)
+    })
+  })
+})
@@ -4,6 +4,11 @@ import {
   getTilesInExtent,
   calculateDownloadList,
   estimateDownloadSize,
+  iterateDownloadList,
+  countDownloadTiles,
+  countDownloadTilesPerZoom,
+  countTileKeysInDownload,
+  filterTileKeysInDownload,
 } from '@/services/tileCalculator'
 import type { BoundingBox } from '@/types'
 
@@ -154,6 +159,18 @@ describe('tileCalculator', () => {
       expect(tiles.every((t) => t.z === 8)).toBe(true)
     })
 
+    it('should leave out excluded tile keys', () => {
+      const allTiles = calculateDownloadList(smallBbox, 8, 1)
+      const excluded = allTiles[0]!
+
+      const tiles = calculateDownloadList(smallBbox, 8, 1, {
+        excludeTileKeys: new Set([`tile_${excluded.z}_${excluded.x}_${excluded.y}`]),
+      })
+
+      expect(tiles).toHaveLength(allTiles.length - 1)
+      expect(tiles).not.toContainEqual(excluded)
+    })
+
     it('should return tiles for baseZoom + 3 levels', () => {
       const tiles = calculateDownloadList(smallBbox, 8, 3)
       const uniqueZooms = [...new Set(tiles.map((t) => t.z))].sort((a, b) => a - b)
@@ -188,6 +205,72 @@ describe('tileCalculator', () => {
     })
   })
 
+  describe('iterateDownloadList', () => {
+    const smallBbox: BoundingBox = { west: 9.0, south: 48.0, east: 10.0, north: 49.0 }
+    // Germany: tens of millions of tiles at zoom 17-18
+    const largeBbox: BoundingBox = { west: 5.9, south: 47.3, east: 15.0, north: 55.1 }
+
+    it('should generate the same tiles in the same order as calculateDownloadList', () => {
+      const excludeTileKeys = new Set(['tile_9_268_177'])
+
+      expect([...iterateDownloadList(smallBbox, 8, 2, { excludeTileKeys })]).toEqual(
+        calculateDownloadList(smallBbox, 8, 2, { excludeTileKeys })
+      )
+    })
+
+    it('should generate tiles lazily', () => {
+      const iterator = iterateDownloadList(largeBbox, 17, 1)
+
+      expect(iterator.next().value).toMatchObject({ z: 17 })
+      expect(iterator.next().done).toBe(false)
+    })
+  })
+
+  describe('countDownloadTiles', () => {
+    const smallBbox: BoundingBox = { west: 9.0, south: 48.0, east: 10.0, north: 49.0 }
+
+    it('should match the length of the download list per zoom level', () => {
+      const tiles = calculateDownloadList(smallBbox, 8, 3)
+      const counts = countDownloadTilesPerZoom(smallBbox, 8, 3)
+
+      for (const [zoom, count] of counts) {
+        expect(count).toBe(tiles.filter((tile) => tile.z === zoom).length)
+      }
+      expect(countDownloadTiles(smallBbox, 8, 3)).toBe(tiles.length)
+    })
+
+    it('should count huge areas without listing their tiles', () => {
+      const largeBbox: BoundingBox = { west: 5.9, south: 47.3, east: 15.0, north: 55.1 }
+      const counts = countDownloadTilesPerZoom(largeBbox, 17, 1)
+
+      expect(counts.get(18)! / counts.get(17)!).toBeCloseTo(4, 1)
+      expect(countDownloadTiles(largeBbox, 17, 1)).toBeGreaterThan(50_000_000)
+    })
+
+    it('should count stored tile keys of the same source within the download', () => {
+      const [first, second] = calculateDownloadList(smallBbox, 8, 0)
+      const tileKeys = [
+        `tile_8_${first!.x}_${first!.y}`,
+        `tile_8_${second!.x}_${second!.y}`,
+        `tile_opentopomap_8_${first!.x}_${first!.y}`,
+        'tile_8_0_0', // outside the area
+        `tile_12_${first!.x}_${first!.y}`, // zoom level not downloaded
+        'tile_meta_8_1_1',
+      ]
+
+      expect(countTileKeysInDownload(tileKeys, smallBbox, 8, 1)).toEqual(new Map([[8, 2]]))
+      expect(countTileKeysInDownload(tileKeys, smallBbox, 8, 1, 'opentopomap')).toEqual(new Map([[8, 1]]))
+    })
+
+    it('should list stored tile keys of the same source within the download', () => {
+      const [first] = calculateDownloadList(smallBbox, 8, 0)
+      const inside = `tile_8_${first!.x}_${first!.y}`
+      const tileKeys = [inside, `tile_opentopomap_8_${first!.x}_${first!.y}`, 'tile_8_0_0']
+
+      expect(filterTileKeysInDownload(tileKeys, smallBbox, 8, 1)).toEqual([inside])
+    })
+  })
+
   describe('estimateDownloadSize', () => {
     it('should estimate 100 tiles × 20KB = ~2MB', () => {
       const tiles = Array(100).fill({ z: 8, x: 100, y: 50 })
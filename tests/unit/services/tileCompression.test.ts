@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import {
   detectWebPSupport,
   detectBestCompressionFormat,
@@ -7,10 +7,12 @@ import {
   compressTileAsWebP,
   decompressTile,
   compressTileAuto,
+  decodeTileImage,
   getCompressionProfileConfig,
   COMPRESSION_PROFILES,
 } from '@/services/tileCompression'
 import type { CompressionProfile } from '@/types'
+import { Canvas } from 'canvas'
 
 // Helper to create a test tile blob (PNG)
 async function createTestTileBlob(): Promise<Blob> {
@@ -57,6 +59,18 @@ async function createTestTileBlob(): Promise<Blob> {
   })
 }
 
+// Helper to create a PNG too large to pass to String.fromCharCode as spread arguments
+function createLargeNoiseTileBlob(size = 512): Blob {
+  const canvas = new Canvas(size, size)
+  const ctx = canvas.getContext('2d')
+  const imageData = ctx.createImageData(size, size)
+  for (let i = 0; i < imageData.data.length; i++) {
+    imageData.data[i] = Math.floor(Math.random() * 256)
+  }
+  ctx.putImageData(imageData, 0, 0)
+  return new Blob([canvas.toBuffer('image/png')], { type: 'image/png' })
+}
+
 describe('tileCompression', () => {
   let testBlob: Blob
 
@@ -235,6 +249,76 @@ describe('tileCompression', () => {
         expect(result.compressedSize).toBeGreaterThan(0)
       }
     })
+
+    describe('with OffscreenCanvas', () => {
+      afterEach(() => {
+        vi.unstubAllGlobals()
+      })
+
+      it('should compress in the worker pool', async () => {
+        const requests: unknown[] = []
+        // Worker that answers every request with a fixed blob
+        class AutoWorker {
+          onmessage: ((event: MessageEvent) => void) | null = null
+          onerror = null
+          postMessage(request: { id: number }) {
+            requests.push(request)
+            queueMicrotask(() => this.onmessage?.(new MessageEvent('message', {
+              data: { id: request.id, blob: new Blob(['worker'], { type: 'image/webp' }) },
+            })))
+          }
+          terminate() {}
+        }
+        vi.stubGlobal('Worker', AutoWorker)
+        vi.stubGlobal('OffscreenCanvas', class {})
+        vi.stubGlobal('createImageBitmap', async () => ({}))
+
+        const result = await compressTile(testBlob, 'webp', 'balanced')
+
+        expect(requests).toEqual([expect.objectContaining({ format: 'webp', quality: COMPRESSION_PROFILES.balanced.quality })])
+        expect(result.blob.type).toBe('image/webp')
+        expect(result.compressedSize).toBe(6)
+      })
+    })
+  })
+
+  describe('decodeTileImage', () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+      vi.unstubAllGlobals()
+    })
+
+    it('should decode tiles with createImageBitmap', async () => {
+      const decode = vi.spyOn(globalThis, 'createImageBitmap')
+
+      const image = await decodeTileImage(testBlob)
+
+      expect(decode).toHaveBeenCalledWith(testBlob)
+      expect(image.width).toBe(256)
+      expect(image.height).toBe(256)
+    })
+
+    it('should decode and compress large tiles without overflowing the call stack', async () => {
+      const largeBlob = createLargeNoiseTileBlob()
+      expect(largeBlob.size).toBeGreaterThan(512 * 1024)
+
+      const image = await decodeTileImage(largeBlob)
+      expect(image.width).toBe(512)
+
+      const result = await compressTile(largeBlob, 'jpeg', 'balanced')
+      expect(result.blob.type).toBe('image/jpeg')
+    })
+
+    it('should fall back to an image element through an object URL', async () => {
+      vi.stubGlobal('createImageBitmap', undefined)
+      const revoke = vi.spyOn(URL, 'revokeObjectURL')
+
+      const image = await decodeTileImage(testBlob)
+
+      expect(image).toBeInstanceOf(Image)
+      expect(image.width).toBe(256)
+      expect(revoke).toHaveBeenCalledWith(expect.stringMatching(/^blob:/))
+    })
   })
 
   describe('compressTileAuto', () => {
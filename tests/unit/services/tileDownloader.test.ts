@@ -1,13 +1,16 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { get, set, del, keys, clear } from 'idb-keyval'
-import { downloadTile, downloadTiles, getTileFromStorage, saveTileToStorage, deleteTileFromStorage, getAllStoredTileKeys } from '@/services/tileDownloader'
+import { clearDatabase, getAllKeys, getRecord, putRecord, putSetting } from '@/services/db'
+import { saveTileMetadata } from '@/services/tileMetadata'
+import { downloadTile, downloadTiles, getTileFromStorage, saveTileToStorage, deleteTileFromStorage, getAllStoredTileKeys, getTileKey, parseTileKey, prepareTileForStorage, saveTilesToStorage, deleteTilesFromStorage, isQuotaExceededError, TILE_BATCH_SIZE } from '@/services/tileDownloader'
+import { getTileStore } from '@/services/tileStore'
 import { createMockTile, createMockTileBlob } from '../../helpers/mockTiles'
-import type { TileCoord } from '@/types'
+import type { TileCoord, TileMetadata, TileUsagePolicy } from '@/types'
+import type { TileDownloadResult } from '@/services/tileDownloader'
 
 describe('tileDownloader', () => {
   beforeEach(async () => {
     // Clear all stored tiles before each test
-    await clear()
+    await clearDatabase()
   })
 
   describe('getTileFromStorage', () => {
@@ -17,7 +20,7 @@ describe('tileDownloader', () => {
       const key = `tile_${tile.z}_${tile.x}_${tile.y}`
 
       // Store a tile
-      await set(key, { data: blob, storedAt: new Date().toISOString() })
+      await putRecord('tiles', { data: blob, storedAt: new Date().toISOString(), sourceId: 'osm', z: tile.z }, key)
 
       const result = await getTileFromStorage(tile)
 
@@ -39,7 +42,7 @@ describe('tileDownloader', () => {
       const blob = createMockTileBlob()
       const key = 'tile_10_512_256'
 
-      await set(key, { data: blob, storedAt: new Date().toISOString() })
+      await putRecord('tiles', { data: blob, storedAt: new Date().toISOString(), sourceId: 'osm', z: tile.z }, key)
 
       const result = await getTileFromStorage(tile)
 
@@ -55,7 +58,7 @@ describe('tileDownloader', () => {
       await saveTileToStorage(tile, blob)
 
       const key = 'tile_8_100_50'
-      const stored = await get(key)
+      const stored = await getRecord('tiles', key)
 
       expect(stored).toBeDefined()
       expect(stored).toHaveProperty('data')
@@ -84,12 +87,23 @@ describe('tileDownloader', () => {
       await saveTileToStorage(tile, blob2)
 
       const key = 'tile_8_100_50'
-      const allKeys = await keys()
+      const allKeys = await getAllKeys('tiles')
 
       // Should only have one entry for this tile
       const tileKeys = allKeys.filter((k) => k === key)
       expect(tileKeys.length).toBe(1)
     })
+
+    it('should store tiles of other sources under their own key', async () => {
+      const tile = createMockTile(8, 100, 50)
+
+      await saveTileToStorage(tile, createMockTileBlob(), false, undefined, { sourceId: 'opentopomap' })
+
+      expect(await getRecord('tiles', 'tile_opentopomap_8_100_50')).toHaveProperty('data')
+      expect(await getRecord('tiles', 'tile_8_100_50')).toBeUndefined()
+      expect(await getTileFromStorage(tile, 'opentopomap')).toBeTruthy()
+      expect(await getTileFromStorage(tile)).toBeNull()
+    })
   })
 
   describe('deleteTileFromStorage', () => {
@@ -112,6 +126,69 @@ describe('tileDownloader', () => {
     })
   })
 
+  describe('saveTilesToStorage', () => {
+    it('should write prepared tiles in batches and report progress', async () => {
+      const tiles = Array.from({ length: TILE_BATCH_SIZE + 10 }, (_, i) => createMockTile(12, i, 0))
+      const writes = await Promise.all(tiles.map((tile) => prepareTileForStorage(tile, createMockTileBlob())))
+      const onProgress = vi.fn()
+
+      await saveTilesToStorage(writes, onProgress)
+
+      expect(await getAllStoredTileKeys()).toHaveLength(tiles.length)
+      expect(onProgress.mock.calls).toEqual([
+        [TILE_BATCH_SIZE, tiles.length],
+        [tiles.length, tiles.length],
+      ])
+    })
+
+    it('should write the metadata of compressed tiles with the tile', async () => {
+      const tile = createMockTile(8, 100, 50)
+      const write = await prepareTileForStorage(tile, createMockTileBlob(), false)
+      write.metadata = {
+        tileKey: write.key,
+        format: 'webp',
+        profile: 'balanced',
+        originalSize: 200,
+        compressedSize: 100,
+        compressionRatio: 0.5,
+        compressedAt: new Date().toISOString(),
+      }
+
+      await saveTilesToStorage([write])
+
+      expect(await getRecord('tiles', 'tile_8_100_50')).toBeDefined()
+      expect(await getRecord('tileMeta', 'tile_8_100_50')).toMatchObject({ format: 'webp' })
+    })
+
+    it('should not store a tile whose metadata cannot be written', async () => {
+      const tile = createMockTile(8, 100, 50)
+      const write = await prepareTileForStorage(tile, createMockTileBlob(), false)
+      // Without its key path the metadata record is rejected by the store
+      write.metadata = { format: 'webp' } as TileMetadata
+
+      await expect(saveTilesToStorage([write])).rejects.toThrow()
+
+      expect(await getRecord('tiles', 'tile_8_100_50')).toBeUndefined()
+    })
+  })
+
+  describe('deleteTilesFromStorage', () => {
+    it('should delete tiles and their metadata in batches and report progress', async () => {
+      const tiles = Array.from({ length: TILE_BATCH_SIZE * 2 + 1 }, (_, i) => createMockTile(12, i, 0))
+      await saveTilesToStorage(await Promise.all(tiles.map((tile) => prepareTileForStorage(tile, createMockTileBlob()))))
+      await saveTileMetadata(tiles[0]!, 'webp', 'balanced', 200, 100, 0.5)
+      await saveTileToStorage(createMockTile(12, 0, 1), createMockTileBlob())
+      const onProgress = vi.fn()
+
+      await deleteTilesFromStorage(tiles.map((tile) => getTileKey(tile)), onProgress)
+
+      expect(await getAllStoredTileKeys()).toEqual(['tile_12_0_1'])
+      expect(await getAllKeys('tileMeta')).toEqual([])
+      expect(onProgress).toHaveBeenCalledTimes(3)
+      expect(onProgress).toHaveBeenLastCalledWith(tiles.length, tiles.length)
+    })
+  })
+
   describe('getAllStoredTileKeys', () => {
     it('should return empty array when no tiles stored', async () => {
       const result = await getAllStoredTileKeys()
@@ -142,13 +219,50 @@ describe('tileDownloader', () => {
       const blob = createMockTileBlob()
 
       await saveTileToStorage(tile, blob)
-      await set('some_other_key', { data: 'test' })
+      await putSetting('some_other_key', { data: 'test' })
 
       const result = await getAllStoredTileKeys()
 
       expect(result).toHaveLength(1)
       expect(result[0]).toBe('tile_8_100_50')
     })
+
+    it('should not return tile metadata keys', async () => {
+      await saveTileToStorage(createMockTile(8, 100, 50), createMockTileBlob())
+      await saveTileMetadata(createMockTile(8, 100, 50), 'png', 'balanced', 100, 100, 1)
+
+      const result = await getAllStoredTileKeys()
+
+      expect(result).toEqual(['tile_8_100_50'])
+    })
+
+    it('should return tile keys of all sources', async () => {
+      const tile = createMockTile(8, 100, 50)
+      await saveTileToStorage(tile, createMockTileBlob())
+      await saveTileToStorage(tile, createMockTileBlob(), false, undefined, { sourceId: 'cyclosm' })
+
+      const result = await getAllStoredTileKeys()
+
+      expect(result.sort()).toEqual(['tile_8_100_50', 'tile_cyclosm_8_100_50'])
+    })
+  })
+
+  describe('parseTileKey', () => {
+    it('should parse keys of the default source and of other sources', () => {
+      expect(parseTileKey(getTileKey({ z: 8, x: 100, y: 50 }))).toEqual({
+        tile: { z: 8, x: 100, y: 50 },
+        sourceId: 'osm',
+      })
+      expect(parseTileKey(getTileKey({ z: 8, x: 100, y: 50 }, 'open-topo'))).toEqual({
+        tile: { z: 8, x: 100, y: 50 },
+        sourceId: 'open-topo',
+      })
+    })
+
+    it('should return null for metadata and unrelated keys', () => {
+      expect(parseTileKey('tile_meta_8_100_50')).toBeNull()
+      expect(parseTileKey('owners_tile_8_100_50')).toBeNull()
+    })
   })
 
   describe('downloadTile', () => {
@@ -287,6 +401,274 @@ describe('tileDownloader', () => {
       expect(lastCall).toHaveProperty('failed')
       expect(lastCall).toHaveProperty('total')
     })
+
+    it('should not exceed maxConcurrency parallel requests', async () => {
+      const tiles = Array.from({ length: 12 }, (_, i) => createMockTile(8, 100 + i, 50))
+      const urlTemplate = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png'
+
+      let inFlight = 0
+      let maxInFlight = 0
+      global.fetch = vi.fn().mockImplementation(async () => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        inFlight--
+        return { ok: true, blob: async () => createMockTileBlob() }
+      })
+
+      await downloadTiles(tiles, urlTemplate, undefined, false, undefined, { maxConcurrency: 3 })
+
+      expect(global.fetch).toHaveBeenCalledTimes(12)
+      expect(maxInFlight).toBeLessThanOrEqual(3)
+    })
+
+    it('should report queue depth through the progress callback', async () => {
+      const tiles = Array.from({ length: 5 }, (_, i) => createMockTile(8, 100 + i, 50))
+      const urlTemplate = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png'
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        blob: async () => createMockTileBlob(),
+      })
+
+      const onProgress = vi.fn()
+
+      await downloadTiles(tiles, urlTemplate, onProgress, false, undefined, { maxConcurrency: 1 })
+
+      const firstCall = onProgress.mock.calls[0][0]
+      const lastCall = onProgress.mock.calls[onProgress.mock.calls.length - 1][0]
+      expect(firstCall.queued).toBe(4)
+      expect(lastCall.queued).toBe(0)
+      expect(lastCall.active).toBe(0)
+    })
+
+    it('should consume lazily generated tiles described by a summary', async () => {
+      const generated: TileCoord[] = []
+      function* generateTiles() {
+        for (let x = 100; x < 105; x++) {
+          const tile = createMockTile(8, x, 50)
+          generated.push(tile)
+          yield tile
+        }
+      }
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        blob: async () => createMockTileBlob(),
+      })
+      const generatedAtProgress: number[] = []
+      const onProgress = vi.fn().mockImplementation(() => generatedAtProgress.push(generated.length))
+
+      await downloadTiles(generateTiles(), 'https://tile.openstreetmap.org/{z}/{x}/{y}.png', onProgress, false, undefined, {
+        maxConcurrency: 1,
+        summary: { tileCount: 5, maxZoom: 8 },
+      })
+
+      // Tiles are generated as workers pick them up, not up front
+      expect(generatedAtProgress[0]).toBe(1)
+      expect(generated).toHaveLength(5)
+      expect(await getAllStoredTileKeys()).toHaveLength(5)
+      expect(onProgress.mock.calls[0][0]).toMatchObject({ total: 5, queued: 4 })
+    })
+
+    it('should stop downloading and storing tiles once the signal is aborted', async () => {
+      const tiles = Array.from({ length: 10 }, (_, i) => createMockTile(8, 100 + i, 50))
+      const urlTemplate = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png'
+      const controller = new AbortController()
+
+      global.fetch = vi.fn().mockImplementation(async () => {
+        if ((global.fetch as ReturnType<typeof vi.fn>).mock.calls.length === 3) {
+          controller.abort()
+        }
+        return { ok: true, blob: async () => createMockTileBlob() }
+      })
+
+      const onProgress = vi.fn()
+      await downloadTiles(tiles, urlTemplate, onProgress, false, undefined, {
+        maxConcurrency: 1,
+        signal: controller.signal,
+      })
+
+      expect(global.fetch).toHaveBeenCalledTimes(3)
+      expect(await getAllStoredTileKeys()).toHaveLength(2)
+      const lastCall = onProgress.mock.calls[onProgress.mock.calls.length - 1][0]
+      expect(lastCall.downloaded).toBe(2)
+      expect(lastCall.failed).toBe(0)
+    })
+
+    it('should stop downloading once the storage is full and not count the unstored tiles as failed', async () => {
+      const tiles = Array.from({ length: 10 }, (_, i) => createMockTile(8, 100 + i, 50))
+      const urlTemplate = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png'
+      global.fetch = vi.fn().mockResolvedValue({ ok: true, blob: async () => createMockTileBlob() })
+      const store = await getTileStore()
+      const putManyWithMetadata = vi
+        .spyOn(store, 'putManyWithMetadata')
+        .mockRejectedValue(new DOMException('The quota has been exceeded.', 'QuotaExceededError'))
+
+      const onProgress = vi.fn()
+      try {
+        const error = await downloadTiles(tiles, urlTemplate, onProgress, false, undefined, {
+          maxConcurrency: 1,
+        }).catch((e) => e)
+        expect(isQuotaExceededError(error)).toBe(true)
+      } finally {
+        putManyWithMetadata.mockRestore()
+      }
+
+      expect((global.fetch as ReturnType<typeof vi.fn>).mock.calls.length).toBeLessThan(tiles.length)
+      expect(await getAllStoredTileKeys()).toHaveLength(0)
+      const lastCall = onProgress.mock.calls[onProgress.mock.calls.length - 1][0]
+      expect(lastCall.downloaded).toBe(0)
+      expect(lastCall.failed).toBe(0)
+    })
+
+    it('should store the ETag and Last-Modified of downloaded tiles', async () => {
+      const tile = createMockTile(8, 100, 50)
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers({ ETag: '"v1"', 'Last-Modified': 'Wed, 01 Oct 2025 10:00:00 GMT' }),
+        blob: async () => createMockTileBlob(),
+      })
+
+      await downloadTiles([tile], 'https://tile.openstreetmap.org/{z}/{x}/{y}.png', undefined, false)
+
+      const stored = await getRecord('tiles', 'tile_8_100_50')
+      expect(stored.etag).toBe('"v1"')
+      expect(stored.lastModified).toBe('Wed, 01 Oct 2025 10:00:00 GMT')
+    })
+
+    it('should revalidate stored tiles and keep the ones not modified', async () => {
+      const unchanged = createMockTile(8, 100, 50)
+      const changed = createMockTile(8, 101, 50)
+      await saveTileToStorage(unchanged, createMockTileBlob(), false, undefined, { validators: { etag: '"v1"' } })
+      await saveTileToStorage(changed, createMockTileBlob(), false, undefined, { validators: { etag: '"v1"' } })
+
+      global.fetch = vi.fn().mockImplementation(async (url: string) => {
+        if (url.includes('/100/')) {
+          return { ok: false, status: 304 }
+        }
+        return {
+          ok: true,
+          status: 200,
+          headers: new Headers({ ETag: '"v2"' }),
+          blob: async () => new Blob(['new tile'], { type: 'image/png' }),
+        }
+      })
+
+      const results: TileDownloadResult[] = []
+      await downloadTiles([unchanged, changed], 'https://tile.openstreetmap.org/{z}/{x}/{y}.png', undefined, false, undefined, {
+        revalidate: true,
+        onTileComplete: (result) => results.push(result),
+      })
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('/100/'),
+        expect.objectContaining({ headers: { 'If-None-Match': '"v1"' } })
+      )
+      expect(results.find((r) => r.tile.x === 100)).toMatchObject({ ok: true, notModified: true })
+      expect(results.find((r) => r.tile.x === 101)?.notModified).toBeUndefined()
+      expect((await getRecord('tiles', 'tile_8_100_50'))!.etag).toBe('"v1"')
+      expect((await getRecord('tiles', 'tile_8_101_50'))!.etag).toBe('"v2"')
+    })
+
+    describe('usage policy', () => {
+      const usagePolicy: TileUsagePolicy = {
+        maxTilesPerJob: 3,
+        maxBulkZoom: 16,
+        minRequestIntervalMs: 40,
+        maxConcurrency: 1,
+        referrerPolicy: 'strict-origin-when-cross-origin',
+      }
+
+      it('should refuse downloads breaking the policy before any request', async () => {
+        global.fetch = vi.fn()
+        const tiles = [createMockTile(17, 100, 50)]
+
+        await expect(
+          downloadTiles(tiles, 'https://tile.openstreetmap.org/{z}/{x}/{y}.png', undefined, false, undefined, {
+            usagePolicy,
+          })
+        ).rejects.toThrow('Tile usage policy')
+        expect(global.fetch).not.toHaveBeenCalled()
+      })
+
+      it('should send the Referer policy and pace requests across subdomains', async () => {
+        const requestTimes: number[] = []
+        global.fetch = vi.fn().mockImplementation(async () => {
+          requestTimes.push(Date.now())
+          return { ok: true, blob: async () => createMockTileBlob() }
+        })
+        const tiles = [createMockTile(8, 100, 50), createMockTile(8, 101, 50), createMockTile(8, 102, 50)]
+
+        await downloadTiles(tiles, 'https://{s}.tile.example.com/{z}/{x}/{y}.png', undefined, false, undefined, {
+          usagePolicy,
+        })
+
+        expect(global.fetch).toHaveBeenCalledWith(
+          expect.any(String),
+          expect.objectContaining({ referrerPolicy: 'strict-origin-when-cross-origin' })
+        )
+        expect(requestTimes).toHaveLength(3)
+        // Timers may fire a millisecond early
+        expect(requestTimes[2]! - requestTimes[0]!).toBeGreaterThanOrEqual(2 * 40 - 5)
+      })
+
+      it('should pace retries like first attempts', async () => {
+        const requestTimes: number[] = []
+        let attempts = 0
+        global.fetch = vi.fn().mockImplementation(async () => {
+          requestTimes.push(Date.now())
+          // The first request is retried after 1s, while the second tile waits for its turn
+          if (++attempts === 1) return { ok: false, status: 503 }
+          return { ok: true, blob: async () => createMockTileBlob() }
+        })
+        const tiles = [createMockTile(8, 100, 50), createMockTile(8, 101, 50)]
+
+        await downloadTiles(tiles, 'https://tile.example.com/{z}/{x}/{y}.png', undefined, false, undefined, {
+          usagePolicy: { ...usagePolicy, minRequestIntervalMs: 1200, maxConcurrency: 2 },
+        })
+
+        expect(requestTimes).toHaveLength(3)
+        expect(requestTimes[1]! - requestTimes[0]!).toBeGreaterThanOrEqual(1200 - 5)
+        expect(requestTimes[2]! - requestTimes[1]!).toBeGreaterThanOrEqual(1200 - 5)
+      })
+
+      it('should share the policy limits between downloads from the same source', async () => {
+        const requestTimes: number[] = []
+        let inFlight = 0
+        let peak = 0
+        global.fetch = vi.fn().mockImplementation(async () => {
+          requestTimes.push(Date.now())
+          peak = Math.max(peak, ++inFlight)
+          await new Promise((resolve) => setTimeout(resolve, 20))
+          inFlight--
+          return { ok: true, blob: async () => createMockTileBlob() }
+        })
+        const download = (tiles: TileCoord[]) =>
+          downloadTiles(tiles, 'https://tile.example.com/{z}/{x}/{y}.png', undefined, false, undefined, {
+            usagePolicy,
+          })
+
+        // E.g. the download queue and an area update running side by side
+        await Promise.all([
+          download([createMockTile(8, 100, 50), createMockTile(8, 101, 50)]),
+          download([createMockTile(9, 200, 100), createMockTile(9, 201, 100)]),
+        ])
+
+        expect(peak).toBe(1)
+        expect(requestTimes).toHaveLength(4)
+        expect(requestTimes[3]! - requestTimes[0]!).toBeGreaterThanOrEqual(3 * 40 - 5)
+      })
+    })
+  })
+
+  describe('isQuotaExceededError', () => {
+    it('should recognize quota errors of all browsers and nothing else', () => {
+      expect(isQuotaExceededError(new DOMException('full', 'QuotaExceededError'))).toBe(true)
+      expect(isQuotaExceededError(new DOMException('full', 'NS_ERROR_DOM_QUOTA_REACHED'))).toBe(true)
+      expect(isQuotaExceededError(new DOMException('aborted', 'AbortError'))).toBe(false)
+      expect(isQuotaExceededError(new Error('QuotaExceededError'))).toBe(false)
+    })
   })
 
   describe('downloadTileWithRetry', () => {
@@ -433,5 +815,68 @@ describe('tileDownloader', () => {
       expect(result).toBeInstanceOf(Blob)
       expect(attemptCount).toBe(2)
     })
+
+    it('should wait as long as the Retry-After header of a 429 asks', async () => {
+      const tile = createMockTile(8, 100, 50)
+      const urlTemplate = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png'
+
+      global.fetch = vi
+        .fn()
+        .mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers({ 'Retry-After': '1' }) })
+        .mockResolvedValue({ ok: true, blob: async () => createMockTileBlob() })
+
+      const { downloadTileWithRetry } = await import('@/services/tileDownloader')
+      const start = Date.now()
+      await downloadTileWithRetry(tile, urlTemplate, 3, 10)
+
+      expect(global.fetch).toHaveBeenCalledTimes(2)
+      expect(Date.now() - start).toBeGreaterThanOrEqual(1000 - 5)
+    })
+
+    it('should give up when a 429 asks to wait too long', async () => {
+      const tile = createMockTile(8, 100, 50)
+      const urlTemplate = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png'
+
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 429, headers: new Headers({ 'Retry-After': '3600' }) })
+
+      const { downloadTileWithRetry } = await import('@/services/tileDownloader')
+
+      await expect(downloadTileWithRetry(tile, urlTemplate, 3, 10)).rejects.toThrow('429')
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should pass the abort signal to fetch and not retry aborted requests', async () => {
+      const tile = createMockTile(8, 100, 50)
+      const urlTemplate = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png'
+      const controller = new AbortController()
+
+      global.fetch = vi.fn().mockImplementation(() => {
+        controller.abort()
+        return Promise.reject(new DOMException('Aborted', 'AbortError'))
+      })
+
+      const { downloadTileWithRetry } = await import('@/services/tileDownloader')
+
+      await expect(downloadTileWithRetry(tile, urlTemplate, 3, 10, controller.signal)).rejects.toThrow('Aborted')
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(global.fetch).toHaveBeenCalledWith(expect.any(String), { signal: controller.signal })
+    })
+
+    it('should cancel a pending retry delay when aborted', async () => {
+      const tile = createMockTile(8, 100, 50)
+      const urlTemplate = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png'
+      const controller = new AbortController()
+
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 503 })
+
+      const { downloadTileWithRetry } = await import('@/services/tileDownloader')
+      const start = Date.now()
+      const promise = downloadTileWithRetry(tile, urlTemplate, 3, 10_000, controller.signal)
+      setTimeout(() => controller.abort(), 10)
+
+      await expect(promise).rejects.toThrow()
+      expect(Date.now() - start).toBeLessThan(1000)
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+    })
   })
 })
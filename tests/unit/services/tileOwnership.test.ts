@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearDatabase, putRecord } from '@/services/db'
+import {
+  addTileOwner,
+  ensureOwnershipIndex,
+  getAllOwnedTileKeys,
+  getTileOwners,
+  getUnownedTileKeys,
+  iterateAreaTileKeys,
+  removeTileOwner,
+} from '@/services/tileOwnership'
+import { calculateDownloadList } from '@/services/tileCalculator'
+import { getTileKey } from '@/services/tileDownloader'
+import { createMockDownloadedArea } from '../../helpers/mockTiles'
+
+describe('tileOwnership', () => {
+  beforeEach(async () => {
+    await clearDatabase()
+  })
+
+  describe('addTileOwner', () => {
+    it('should record each area once per tile', async () => {
+      await addTileOwner('area-1', ['tile_8_1_1'])
+      await addTileOwner('area-1', ['tile_8_1_1'])
+      await addTileOwner('area-2', ['tile_8_1_1'])
+
+      expect(await getTileOwners('tile_8_1_1')).toEqual(['area-1', 'area-2'])
+    })
+
+    it('should register tile keys generated lazily in batches', async () => {
+      function* generateKeys() {
+        for (let x = 0; x < 1200; x++) yield `tile_12_${x}_1`
+      }
+
+      await addTileOwner('area-1', generateKeys())
+
+      expect((await getAllOwnedTileKeys()).size).toBe(1200)
+      expect(await getTileOwners('tile_12_1199_1')).toEqual(['area-1'])
+    })
+  })
+
+  describe('removeTileOwner', () => {
+    it('should return only tiles no other area references', async () => {
+      await addTileOwner('area-1', ['tile_8_1_1', 'tile_8_1_2'])
+      await addTileOwner('area-2', ['tile_8_1_2'])
+
+      const orphaned = await removeTileOwner('area-1', ['tile_8_1_1', 'tile_8_1_2'])
+
+      expect(orphaned).toEqual(['tile_8_1_1'])
+      expect(await getTileOwners('tile_8_1_1')).toEqual([])
+      expect(await getTileOwners('tile_8_1_2')).toEqual(['area-2'])
+    })
+  })
+
+  describe('getUnownedTileKeys / getAllOwnedTileKeys', () => {
+    it('should distinguish owned from unowned tiles', async () => {
+      await addTileOwner('area-1', ['tile_8_1_1'])
+
+      expect(await getUnownedTileKeys(['tile_8_1_1', 'tile_8_1_2'])).toEqual(['tile_8_1_2'])
+      expect(await getAllOwnedTileKeys()).toEqual(new Set(['tile_8_1_1']))
+    })
+  })
+
+  describe('iterateAreaTileKeys', () => {
+    it('should leave out failed tiles', async () => {
+      const area = createMockDownloadedArea({ additionalZoomLevels: 0 })
+      const tiles = calculateDownloadList(area.bbox, 8, 0)
+      area.failedTiles = [{ tile: tiles[0]!, reason: 'HTTP 500' }]
+
+      const keys = [...iterateAreaTileKeys(area)]
+
+      expect(keys).toHaveLength(tiles.length - 1)
+      expect(keys).not.toContain(getTileKey(tiles[0]!))
+    })
+  })
+
+  describe('ensureOwnershipIndex', () => {
+    it('should index existing areas only once', async () => {
+      const area = createMockDownloadedArea({ id: 'legacy', additionalZoomLevels: 0 })
+      await putRecord('areas', area)
+      let loads = 0
+      const loadAreas = async () => {
+        loads++
+        return [area]
+      }
+
+      await ensureOwnershipIndex(loadAreas)
+      await ensureOwnershipIndex(loadAreas)
+
+      expect(loads).toBe(1)
+      const firstTile = iterateAreaTileKeys(area).next().value!
+      expect(await getTileOwners(firstTile)).toEqual(['legacy'])
+    })
+  })
+})
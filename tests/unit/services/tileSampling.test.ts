@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import { extrapolateSampleSizes, selectStratifiedSample } from '@/services/tileSampling'
+import { calculateDownloadList, getDownloadTileRanges } from '@/services/tileCalculator'
+import { getTileKey } from '@/services/tileDownloader'
+import type { TileCoord } from '@/types'
+
+// Deterministic random numbers for reproducible samples
+function createRandom(seed = 1): () => number {
+  let state = seed
+  return () => {
+    state = (state * 16807) % 2147483647
+    return (state - 1) / 2147483646
+  }
+}
+
+const bbox = { west: 9.0, south: 48.0, east: 11.0, north: 50.0 }
+
+describe('tileSampling', () => {
+  describe('selectStratifiedSample', () => {
+    it('should return all tiles when there are no more than the sample size', () => {
+      const tiles = calculateDownloadList(bbox, 6, 0)
+
+      const sample = selectStratifiedSample(getDownloadTileRanges(bbox, 6, 0), { sampleSize: 40 })
+
+      expect(sample).toHaveLength(tiles.length)
+      expect(sample).toEqual(expect.arrayContaining(tiles))
+    })
+
+    it('should sample every zoom level in proportion to its tiles', () => {
+      const sample = selectStratifiedSample(getDownloadTileRanges(bbox, 8, 3), { random: createRandom() })
+      const perZoom = (z: number) => sample.filter((tile) => tile.z === z).length
+
+      expect(sample).toHaveLength(40)
+      expect(new Set(sample.map((tile) => getTileKey(tile))).size).toBe(40)
+      // Small zoom levels still get two tiles, the largest one most of the sample
+      expect(perZoom(8)).toBeGreaterThanOrEqual(2)
+      expect(perZoom(9)).toBeGreaterThanOrEqual(2)
+      expect(perZoom(11)).toBeGreaterThan(perZoom(10))
+    })
+
+    it('should spread the sample over the extent', () => {
+      const tiles = calculateDownloadList(bbox, 11, 0)
+      const xs = tiles.map((tile) => tile.x)
+      const midX = (Math.min(...xs) + Math.max(...xs)) / 2
+
+      const sample = selectStratifiedSample(getDownloadTileRanges(bbox, 11, 0), {
+        sampleSize: 16,
+        random: createRandom(7),
+      })
+
+      expect(sample.filter((tile) => tile.x < midX).length).toBeGreaterThanOrEqual(6)
+      expect(sample.filter((tile) => tile.x > midX).length).toBeGreaterThanOrEqual(6)
+    })
+
+    it('should leave out excluded tiles without listing the download', () => {
+      const tiles = calculateDownloadList(bbox, 9, 0)
+      const excludeTiles = tiles.slice(0, tiles.length - 5)
+
+      const sample = selectStratifiedSample(
+        [...getDownloadTileRanges(bbox, 9, 0), ...getDownloadTileRanges(bbox, 17, 0)],
+        { sampleSize: 20, excludeTiles, random: createRandom(3) }
+      )
+      const excludedKeys = new Set(excludeTiles.map((tile) => getTileKey(tile)))
+
+      expect(sample).toHaveLength(20)
+      expect(sample.filter((tile) => tile.z === 9).length).toBeGreaterThanOrEqual(2)
+      expect(sample.some((tile) => excludedKeys.has(getTileKey(tile)))).toBe(false)
+    })
+  })
+
+  describe('extrapolateSampleSizes', () => {
+    const tiles: TileCoord[] = [
+      ...Array.from({ length: 10 }, (_, i) => ({ z: 10, x: i, y: 0 })),
+      ...Array.from({ length: 20 }, (_, i) => ({ z: 11, x: i, y: 0 })),
+    ]
+    const tilesPerZoom = new Map([
+      [10, 10],
+      [11, 20],
+    ])
+
+    it('should count sampled tiles with their size and the rest with the mean of their zoom level', () => {
+      const samples = [
+        { tile: tiles[0]!, bytes: 1000, originalBytes: 4000 },
+        { tile: tiles[1]!, bytes: 3000, originalBytes: 4000 },
+        { tile: tiles[10]!, bytes: 500, originalBytes: 1000 },
+        { tile: tiles[11]!, bytes: 500, originalBytes: 1000 },
+      ]
+
+      const estimate = extrapolateSampleSizes(tilesPerZoom, samples, 1)
+
+      expect(estimate.bytes).toBe(10 * 2000 + 20 * 500)
+      expect(estimate.bytesPerZoom).toEqual({ 10: 10 * 2000, 11: 20 * 500 })
+      expect(estimate.originalBytes).toBe(10 * 4000 + 20 * 1000)
+      expect(estimate.lowBytes).toBeLessThan(estimate.bytes)
+      expect(estimate.highBytes).toBeGreaterThan(estimate.bytes)
+      expect(estimate.sampledTiles).toBe(4)
+      expect(estimate.failedTiles).toBe(1)
+    })
+
+    it('should estimate zoom levels without samples from all samples with a wide range', () => {
+      const samples = [
+        { tile: tiles[0]!, bytes: 1000, originalBytes: 1000 },
+        { tile: tiles[1]!, bytes: 1000, originalBytes: 1000 },
+      ]
+
+      const estimate = extrapolateSampleSizes(tilesPerZoom, samples)
+
+      expect(estimate.bytes).toBe(30 * 1000)
+      expect(estimate.lowBytes).toBe(10 * 1000 + 20 * 500)
+      expect(estimate.highBytes).toBe(10 * 1000 + 20 * 2000)
+    })
+
+    it('should fail when no sample tile was downloaded', () => {
+      expect(() => extrapolateSampleSizes(tilesPerZoom, [], 4)).toThrow('Sampling failed')
+    })
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearDatabase, putRecord } from '@/services/db'
+import {
+  DEFAULT_TILE_SIZE_BYTES,
+  estimateTileSizes,
+  getTileSizeStats,
+  recordTileSize,
+} from '@/services/tileSizeStats'
+import { saveTileToStorage } from '@/services/tileDownloader'
+import { saveTileMetadata } from '@/services/tileMetadata'
+import type { TileCoord, TileSizeProfile } from '@/types'
+
+function createTiles(count: number, z: number): TileCoord[] {
+  return Array.from({ length: count }, (_, i) => ({ z, x: i, y: 0 }))
+}
+
+async function recordSizes(sizes: number[], z: number, profile: TileSizeProfile, sourceId?: string) {
+  for (const [i, bytes] of sizes.entries()) {
+    await recordTileSize({ z, x: i, y: 0 }, bytes, profile, sourceId)
+  }
+}
+
+describe('tileSizeStats', () => {
+  beforeEach(async () => {
+    await clearDatabase()
+    // Drop samples left over from the previous test
+    await getTileSizeStats()
+    await clearDatabase()
+  })
+
+  describe('recordTileSize', () => {
+    it('should keep running statistics per source, zoom and profile', async () => {
+      await recordSizes([1000, 2000, 3000], 12, 'balanced')
+      await recordSizes([500], 12, 'balanced', 'opentopomap')
+
+      const stats = await getTileSizeStats()
+
+      expect(stats['osm/12/balanced']).toEqual({ count: 3, mean: 2000, m2: 2000000 })
+      expect(stats['opentopomap/12/balanced']).toEqual({ count: 1, mean: 500, m2: 0 })
+    })
+
+    it('should record tiles stored with saveTileToStorage', async () => {
+      await saveTileToStorage({ z: 8, x: 1, y: 1 }, new Blob(['x'.repeat(300)], { type: 'image/png' }))
+      await saveTileToStorage({ z: 8, x: 1, y: 2 }, new Blob(['x'.repeat(100)], { type: 'image/png' }))
+
+      const stats = await getTileSizeStats()
+
+      expect(stats['osm/8/uncompressed']).toMatchObject({ count: 2, mean: 200 })
+    })
+  })
+
+  describe('getTileSizeStats', () => {
+    it('should build the statistics from tiles stored before they existed', async () => {
+      const storedAt = '2026-01-01T00:00:00Z'
+      await putRecord('tiles', { data: { type: 'image/png', size: 4000 }, storedAt, sourceId: 'osm', z: 10 }, 'tile_10_1_1')
+      await putRecord('tiles', { data: { type: 'image/webp', size: 1500 }, storedAt, sourceId: 'osm', z: 10 }, 'tile_10_1_2')
+      await saveTileMetadata({ z: 10, x: 1, y: 2 }, 'webp', 'aggressive', 4000, 1500, 0.375)
+
+      const stats = await getTileSizeStats()
+
+      expect(stats['osm/10/uncompressed']).toMatchObject({ count: 1, mean: 4000 })
+      expect(stats['osm/10/aggressive']).toMatchObject({ count: 1, mean: 1500 })
+    })
+  })
+
+  describe('estimateTileSizes', () => {
+    it('should assume 20 KB per tile with a wide range without statistics', () => {
+      const estimate = estimateTileSizes(createTiles(100, 12))
+
+      expect(estimate.bytes).toBe(100 * DEFAULT_TILE_SIZE_BYTES)
+      expect(estimate.lowBytes).toBeLessThan(estimate.bytes / 2)
+      expect(estimate.highBytes).toBeGreaterThan(estimate.bytes * 2)
+      expect(estimate.sampledTiles).toBe(0)
+    })
+
+    it('should use the mean size of the zoom level and narrow the range with more samples', async () => {
+      const sizes = Array.from({ length: 40 }, (_, i) => (i % 2 === 0 ? 4000 : 6000))
+      await recordSizes(sizes.slice(0, 10), 14, 'high')
+      const fewSamples = estimateTileSizes(createTiles(100, 14), { stats: await getTileSizeStats(), profile: 'high' })
+      await recordSizes(sizes.slice(10), 14, 'high')
+      const manySamples = estimateTileSizes(createTiles(100, 14), { stats: await getTileSizeStats(), profile: 'high' })
+
+      expect(manySamples.bytes).toBe(100 * 5000)
+      expect(manySamples.sampledTiles).toBe(40)
+      expect(manySamples.lowBytes).toBeLessThan(manySamples.bytes)
+      expect(manySamples.highBytes).toBeGreaterThan(manySamples.bytes)
+      expect(manySamples.highBytes - manySamples.lowBytes).toBeLessThan(fewSamples.highBytes - fewSamples.lowBytes)
+    })
+
+    it('should keep profiles apart unless no profile is given', async () => {
+      await recordSizes(Array(10).fill(2000), 14, 'aggressive')
+      await recordSizes(Array(10).fill(8000), 14, 'high')
+      const stats = await getTileSizeStats()
+      const tiles = createTiles(10, 14)
+
+      expect(estimateTileSizes(tiles, { stats, profile: 'aggressive' }).bytes).toBe(10 * 2000)
+      expect(estimateTileSizes(tiles, { stats, profile: 'balanced' }).bytes).toBe(10 * DEFAULT_TILE_SIZE_BYTES)
+      expect(estimateTileSizes(tiles, { stats }).bytes).toBe(10 * 5000)
+    })
+
+    it('should borrow the mean of a nearby zoom level with a wider range', async () => {
+      await recordSizes(Array(10).fill(3000), 12, 'uncompressed')
+      const stats = await getTileSizeStats()
+
+      const estimate = estimateTileSizes(createTiles(10, 13), { stats, profile: 'uncompressed' })
+
+      expect(estimate.bytes).toBe(10 * 3000)
+      expect(estimate.bytesPerZoom).toEqual({ 13: 10 * 3000 })
+      expect(estimate.lowBytes).toBe(10 * 1500)
+      expect(estimate.highBytes).toBe(10 * 6000)
+      expect(estimateTileSizes(createTiles(10, 13), { stats, sourceId: 'cyclosm' }).sampledTiles).toBe(0)
+    })
+  })
+})
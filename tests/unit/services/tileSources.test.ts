@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_TILE_SOURCE_ID,
+  findTileSource,
+  getRecordSourceId,
+  getTileSource,
+  getTileSources,
+  registerTileSource,
+} from '@/services/tileSources'
+import type { TileSource } from '@/types'
+
+function createSource(id: string): TileSource {
+  return {
+    id,
+    name: id,
+    urlTemplate: `https://tiles.example.com/${id}/{z}/{x}/{y}.png`,
+    attribution: 'Example',
+    minZoom: 0,
+    maxZoom: 18,
+    tileSize: 256,
+  }
+}
+
+describe('tileSources', () => {
+  it('should provide the built-in sources with OpenStreetMap first', () => {
+    const ids = getTileSources().map((source) => source.id)
+
+    expect(ids[0]).toBe(DEFAULT_TILE_SOURCE_ID)
+    expect(ids).toContain('opentopomap')
+    expect(ids).toContain('cyclosm')
+  })
+
+  it('should register a new source', () => {
+    registerTileSource(createSource('example-test'))
+
+    expect(getTileSource('example-test').urlTemplate).toContain('/example-test/')
+    expect(getTileSources().at(-1)?.id).toBe('example-test')
+  })
+
+  it('should reject duplicate and invalid source IDs', () => {
+    expect(() => registerTileSource(createSource(DEFAULT_TILE_SOURCE_ID))).toThrow('already registered')
+    expect(() => registerTileSource(createSource('meta'))).toThrow('Invalid tile source ID')
+    expect(() => registerTileSource(createSource('My_Source'))).toThrow('Invalid tile source ID')
+  })
+
+  it('should throw for unknown sources', () => {
+    expect(findTileSource('missing')).toBeUndefined()
+    expect(() => getTileSource('missing')).toThrow('Unknown tile source: missing')
+  })
+
+  it('should use the default source for records without a source', () => {
+    expect(getRecordSourceId({})).toBe(DEFAULT_TILE_SOURCE_ID)
+    expect(getRecordSourceId({ sourceId: 'cyclosm' })).toBe('cyclosm')
+  })
+})
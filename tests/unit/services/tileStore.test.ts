@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { clearDatabase } from '@/services/db'
+import {
+  copyTiles,
+  getSupportedTileStoreBackends,
+  getTileStore,
+  migrateTileStore,
+  selectTileStoreBackend,
+  writeTileStore,
+  type TileStore,
+  type TileStoreEntry,
+} from '@/services/tileStore'
+import { createIndexedDbTileStore } from '@/services/indexedDbTileStore'
+import type { TileStorageData } from '@/services/tileDownloader'
+import type { PlatformInfo } from '@/utils/platform'
+
+// Cache Storage store used as migration target, see createMemoryTileStore()
+const cacheStore = vi.hoisted(() => ({ current: null as TileStore | null }))
+
+vi.mock('@/utils/platform', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/utils/platform')>()
+  return { ...actual, getPlatformInfo: () => ({ ...actual.getPlatformInfo(), supportsCacheStorage: true }) }
+})
+vi.mock('@/services/cacheStorageTileStore', () => ({ createCacheStorageTileStore: () => cacheStore.current }))
+
+function createPlatform(overrides: Partial<PlatformInfo> = {}): PlatformInfo {
+  return {
+    isIOS: false,
+    isIOSVersion17OrHigher: false,
+    isPWA: false,
+    supportsStoragePersist: true,
+    supportsOPFS: false,
+    supportsCacheStorage: false,
+    ...overrides,
+  }
+}
+
+function createRecord(size: number, z = 8): TileStorageData {
+  return { data: { type: 'image/png', size }, storedAt: '2026-01-01T00:00:00Z', sourceId: 'osm', z }
+}
+
+function createEntries(count: number): TileStoreEntry[] {
+  return Array.from({ length: count }, (_, i) => ({ key: `tile_8_${i}_0`, record: createRecord(100) }))
+}
+
+/**
+ * Tile store keeping tiles in a map, as migration target
+ */
+function createMemoryTileStore(): TileStore & { tiles: Map<string, TileStorageData> } {
+  const tiles = new Map<string, TileStorageData>()
+  return {
+    backend: 'cache',
+    tiles,
+    get: async (key) => tiles.get(key),
+    put: async (key, record) => {
+      tiles.set(key, record)
+    },
+    delete: async (key) => {
+      tiles.delete(key)
+    },
+    list: async () => [...tiles.keys()],
+    stats: async () => ({ tileCount: tiles.size, bytes: 0 }),
+    getMany: async (keys) => keys.map((key) => tiles.get(key)),
+    putMany: async (entries) => {
+      for (const { key, record } of entries) tiles.set(key, record)
+    },
+    deleteMany: async (keys) => {
+      for (const key of keys) tiles.delete(key)
+    },
+    clear: async () => tiles.clear(),
+  }
+}
+
+describe('tileStore', () => {
+  beforeEach(async () => {
+    await clearDatabase()
+  })
+
+  describe('selectTileStoreBackend', () => {
+    it('should keep IndexedDB on iOS', () => {
+      expect(selectTileStoreBackend(createPlatform({ isIOS: true, supportsOPFS: true }))).toBe('indexeddb')
+    })
+
+    it('should use OPFS where it is supported', () => {
+      expect(selectTileStoreBackend(createPlatform({ supportsOPFS: true, supportsCacheStorage: true }))).toBe('opfs')
+      expect(selectTileStoreBackend(createPlatform({ supportsCacheStorage: true }))).toBe('indexeddb')
+    })
+  })
+
+  describe('getSupportedTileStoreBackends', () => {
+    it('should list the backends the platform supports', () => {
+      expect(getSupportedTileStoreBackends(createPlatform())).toEqual(['indexeddb'])
+      expect(getSupportedTileStoreBackends(createPlatform({ supportsOPFS: true, supportsCacheStorage: true }))).toEqual(
+        ['indexeddb', 'opfs', 'cache']
+      )
+    })
+  })
+
+  describe('getTileStore', () => {
+    it('should use IndexedDB without OPFS', async () => {
+      expect((await getTileStore()).backend).toBe('indexeddb')
+    })
+  })
+
+  describe('IndexedDB tile store', () => {
+    it('should read, list and delete tiles in batches', async () => {
+      const store = createIndexedDbTileStore()
+      await store.putMany(createEntries(3))
+      await store.put('tile_9_0_0', createRecord(50, 9))
+
+      expect((await store.list()).sort()).toEqual(['tile_8_0_0', 'tile_8_1_0', 'tile_8_2_0', 'tile_9_0_0'])
+      expect(await store.getMany(['tile_9_0_0', 'tile_9_1_0'])).toEqual([createRecord(50, 9), undefined])
+      expect(await store.stats()).toEqual({ tileCount: 4, bytes: 350 })
+
+      await store.deleteMany(['tile_8_0_0', 'tile_8_1_0'])
+      await store.delete('tile_9_0_0')
+
+      expect(await store.list()).toEqual(['tile_8_2_0'])
+    })
+  })
+
+  describe('copyTiles', () => {
+    it('should copy all tiles to another store and report progress', async () => {
+      const source = createIndexedDbTileStore()
+      const target = createMemoryTileStore()
+      await source.putMany(createEntries(250))
+      const onProgress = vi.fn()
+
+      await copyTiles(source, target, onProgress)
+
+      expect(target.tiles.size).toBe(250)
+      expect(target.tiles.get('tile_8_42_0')).toEqual(createRecord(100))
+      expect(onProgress).toHaveBeenCalledTimes(3)
+      expect(onProgress).toHaveBeenLastCalledWith(250, 250)
+      expect(await source.list()).toHaveLength(250)
+    })
+  })
+
+  describe('migrateTileStore', () => {
+    it('should refuse backends the browser does not support', async () => {
+      await expect(migrateTileStore('opfs')).rejects.toThrow('not supported')
+    })
+
+    it('should do nothing when the tiles are already in the backend', async () => {
+      const store = await getTileStore()
+      await store.put('tile_8_1_1', createRecord(10))
+
+      await migrateTileStore('indexeddb')
+
+      expect(await store.list()).toEqual(['tile_8_1_1'])
+    })
+
+    it('should hold back tile writes until the tiles have moved', async () => {
+      const source = await getTileStore()
+      const target = createMemoryTileStore()
+      cacheStore.current = target
+      await source.putMany(createEntries(150))
+
+      // Written while the tiles are copied, after the copy listed them
+      let write: Promise<void> | undefined
+      await migrateTileStore('cache', () => {
+        write ??= writeTileStore((store) => store.put('tile_9_1_1', createRecord(10, 9)))
+      })
+      await write
+
+      expect(target.tiles.size).toBe(151)
+      expect(target.tiles.get('tile_9_1_1')).toEqual(createRecord(10, 9))
+      expect(await source.list()).toEqual([])
+
+      await migrateTileStore('indexeddb')
+    })
+  })
+})
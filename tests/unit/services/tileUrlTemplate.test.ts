@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { expandTileUrl, parseTileUrl, quadkeyToTile, tileToQuadkey } from '@/services/tileUrlTemplate'
+
+describe('tileUrlTemplate', () => {
+  const tile = { z: 3, x: 5, y: 2 }
+
+  describe('expandTileUrl', () => {
+    it('should replace {z}, {x} and {y} everywhere, including query strings', () => {
+      expect(expandTileUrl('https://example.com/{z}/{x}/{y}.png?layer={z}', tile)).toBe(
+        'https://example.com/3/5/2.png?layer=3'
+      )
+    })
+
+    it('should replace {-y} with the TMS row', () => {
+      expect(expandTileUrl('https://example.com/{z}/{x}/{-y}.png', tile)).toBe('https://example.com/3/5/5.png')
+    })
+
+    it('should replace {quadkey} with the Bing quadkey', () => {
+      // Example from the Bing Maps tile system documentation
+      expect(expandTileUrl('https://example.com/tiles/{quadkey}.jpeg', { z: 3, x: 3, y: 5 })).toBe(
+        'https://example.com/tiles/213.jpeg'
+      )
+    })
+
+    it('should rotate subdomains per tile for {s} and ranges', () => {
+      expect(expandTileUrl('https://{s}.example.com/{z}/{x}/{y}.png', tile)).toBe('https://b.example.com/3/5/2.png')
+      expect(expandTileUrl('https://{1-4}.example.com/{z}/{x}/{y}.png', tile)).toBe('https://4.example.com/3/5/2.png')
+      expect(expandTileUrl('https://{s}.example.com/{z}/{x}/{y}.png', tile, { subdomains: ['mt0', 'mt1'] })).toBe(
+        'https://mt1.example.com/3/5/2.png'
+      )
+    })
+
+    it('should replace {r} depending on the retina option', () => {
+      expect(expandTileUrl('https://example.com/{z}/{x}/{y}{r}.png', tile)).toBe('https://example.com/3/5/2.png')
+      expect(expandTileUrl('https://example.com/{z}/{x}/{y}{r}.png', tile, { retina: true })).toBe(
+        'https://example.com/3/5/2@2x.png'
+      )
+    })
+
+    it('should leave unknown placeholders untouched', () => {
+      expect(expandTileUrl('https://example.com/{z}/{x}/{y}.png?key={apikey}', tile)).toBe(
+        'https://example.com/3/5/2.png?key={apikey}'
+      )
+    })
+  })
+
+  describe('parseTileUrl', () => {
+    const templates = [
+      'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+      'https://{a-c}.tile.example.com/{z}/{x}/{-y}.png',
+      'https://{s}.example.com/{z}/{x}/{y}{r}.png?style=dark&v=2',
+      'https://t{0-3}.example.com/tiles/{quadkey}.jpeg?g=1',
+    ]
+
+    it.each(templates)('should parse URLs built from %s', (template) => {
+      expect(parseTileUrl(template, expandTileUrl(template, tile))).toEqual(tile)
+      expect(parseTileUrl(template, expandTileUrl(template, tile, { retina: true }))).toEqual(tile)
+    })
+
+    it('should return null for URLs of another template', () => {
+      expect(parseTileUrl('https://tile.openstreetmap.org/{z}/{x}/{y}.png', 'https://example.com/3/5/2.png')).toBeNull()
+    })
+  })
+
+  describe('quadkeys', () => {
+    it('should convert between tiles and quadkeys', () => {
+      expect(tileToQuadkey({ z: 0, x: 0, y: 0 })).toBe('')
+      expect(quadkeyToTile(tileToQuadkey({ z: 12, x: 2148, y: 1406 }))).toEqual({ z: 12, x: 2148, y: 1406 })
+      expect(quadkeyToTile('014')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import {
+  assertUsagePolicy,
+  getPolicyRequestsPerSecond,
+  getUsagePolicyViolation,
+  summarizeBulkDownload,
+} from '@/services/tileUsagePolicy'
+import type { TileUsagePolicy } from '@/types'
+
+const policy: TileUsagePolicy = {
+  maxTilesPerJob: 3,
+  maxBulkZoom: 16,
+  minRequestIntervalMs: 250,
+  maxConcurrency: 2,
+  referrerPolicy: 'strict-origin-when-cross-origin',
+}
+
+describe('tileUsagePolicy', () => {
+  describe('getUsagePolicyViolation', () => {
+    it('should allow downloads within the policy', () => {
+      expect(getUsagePolicyViolation({ tileCount: 3, maxZoom: 16 }, policy)).toBeNull()
+    })
+
+    it('should refuse zoom levels above the bulk zoom limit', () => {
+      expect(getUsagePolicyViolation({ tileCount: 1, maxZoom: 17 }, policy)).toContain('zoom level 16')
+    })
+
+    it('should refuse more tiles than allowed per download', () => {
+      expect(getUsagePolicyViolation({ tileCount: 4, maxZoom: 10 }, policy)).toContain('3 tiles (requested 4)')
+    })
+
+    it('should allow anything without a policy or without tiles to request', () => {
+      expect(getUsagePolicyViolation({ tileCount: 5000, maxZoom: 19 }, undefined)).toBeNull()
+      expect(getUsagePolicyViolation({ tileCount: 0, maxZoom: 19 }, policy)).toBeNull()
+    })
+  })
+
+  describe('assertUsagePolicy', () => {
+    it('should throw for tiles breaking the policy', () => {
+      const tiles = [
+        { z: 16, x: 1, y: 1 },
+        { z: 17, x: 2, y: 2 },
+      ]
+
+      expect(summarizeBulkDownload(tiles)).toEqual({ tileCount: 2, maxZoom: 17 })
+      expect(() => assertUsagePolicy(tiles, policy)).toThrow('Tile usage policy:')
+      expect(() => assertUsagePolicy(tiles.slice(0, 1), policy)).not.toThrow()
+    })
+  })
+
+  describe('getPolicyRequestsPerSecond', () => {
+    it('should convert the minimum interval to a request rate', () => {
+      expect(getPolicyRequestsPerSecond(policy)).toBe(4)
+      expect(getPolicyRequestsPerSecond({ ...policy, minRequestIntervalMs: 0 })).toBe(Infinity)
+    })
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { get, set } from 'idb-keyval'
+import { getSetting, putSetting } from '@/services/db'
 import { createMockTileBlob, createMockTile } from '../helpers/mockTiles'
 
 describe('Test Environment Setup', () => {
@@ -22,8 +22,8 @@ describe('Test Environment Setup', () => {
     const key = 'test-key'
     const value = 'test-value'
 
-    await set(key, value)
-    const retrieved = await get(key)
+    await putSetting(key, value)
+    const retrieved = await getSetting(key)
 
     expect(retrieved).toBe(value)
   })
@@ -39,8 +39,8 @@ describe('Test Environment Setup', () => {
     }
     const key = `tile_${tile.z}_${tile.x}_${tile.y}`
 
-    await set(key, tileData)
-    const retrieved = await get(key)
+    await putSetting(key, tileData)
+    const retrieved = await getSetting(key)
 
     expect(retrieved).toBeDefined()
     expect(retrieved).toEqual(tileData)
@@ -56,7 +56,7 @@ describe('Test Environment Setup', () => {
 
     // Try to retrieve keys that might have been set in previous tests
     for (const key of keys) {
-      const value = await get(key)
+      const value = await getSetting(key)
       expect(value).toBeUndefined()
     }
   })
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
-import { formatBytes } from '@/utils/format'
+import { formatBytes, formatDownloadSpeed, formatDuration } from '@/utils/format'
+import type { DownloadProgress } from '@/types'
 
 describe('formatBytes', () => {
   it('should format 0 bytes as "0 Bytes"', () => {
@@ -40,3 +41,45 @@ describe('formatBytes', () => {
     expect(formatBytes(2048)).toBe('2 KB')
   })
 })
+
+describe('formatDuration', () => {
+  it('should format seconds below a minute', () => {
+    expect(formatDuration(45)).toBe('45s')
+  })
+
+  it('should format minutes and seconds', () => {
+    expect(formatDuration(200)).toBe('3m 20s')
+  })
+
+  it('should show "Calculating..." when unknown', () => {
+    expect(formatDuration(undefined)).toBe('Calculating...')
+  })
+})
+
+describe('formatDownloadSpeed', () => {
+  const progress: DownloadProgress = {
+    areaId: 'area',
+    total: 10,
+    downloaded: 5,
+    failed: 0,
+    percentage: 50,
+    bytesDownloaded: 4096,
+    startTime: 0,
+    isComplete: false,
+    isCancelled: false,
+    isPaused: false,
+  }
+
+  it('should show "Calculating..." before any bytes are downloaded', () => {
+    expect(formatDownloadSpeed({ ...progress, downloaded: 0, bytesDownloaded: 0 }, 1000)).toBe('Calculating...')
+  })
+
+  it('should format bytes per second since the start time', () => {
+    expect(formatDownloadSpeed({ ...progress, startTime: 1000 }, 3000)).toBe('2 KB/s')
+  })
+
+  it('should not count bytes from an earlier session', () => {
+    const resumed = { ...progress, startTime: 1000, resumedFrom: { tiles: 2, bytes: 2048 } }
+    expect(formatDownloadSpeed(resumed, 3000)).toBe('1 KB/s')
+  })
+})